@@ -1,6 +1,6 @@
 
-import React, { useState } from 'react';
-import { AppView, AiProvider } from './types';
+import React, { useState, useEffect } from 'react';
+import { AppView, AiProvider, PROVIDER_LABELS } from './types';
 import { Navigation } from './components/Navigation';
 import { Dashboard } from './components/Dashboard';
 import { VocabularyBuilder } from './components/VocabularyBuilder';
@@ -9,57 +9,157 @@ import { OralCoach } from './components/OralCoach';
 import { Library } from './components/Library';
 import { QuizRoom } from './components/QuizRoom';
 import { ClassicalMode } from './components/ClassicalMode';
-import { Sparkles, Cpu, Lock, ArrowRight, BookOpen, HelpCircle } from 'lucide-react';
+import { ReviewSession } from './components/ReviewSession';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ProfileDialog } from './components/ProfileDialog';
+import { storageService } from './services/storageService';
+import { authService, AuthSession } from './services/authService';
+import { syncService } from './services/syncService';
+import { aiQueue } from './services/aiQueue';
+import { Sparkles, Cpu, Server, Lock, ArrowRight, BookOpen, Settings, User, LogOut, Loader2 } from 'lucide-react';
 
-// Use environment variable or default to '8888'
-const APP_PASSWORD = process.env.APP_PASSWORD || '8888';
-const PASSWORD_HINT = process.env.APP_PASSWORD_HINT;
-const AUTH_KEY = 'memoralink_auth_token_v2'; // Updated key version
+// Older versions kept the plaintext password here as the "token"
+const LEGACY_AUTH_KEY = 'memoralink_auth_token_v2';
 
 export default function App() {
-  // Authentication State
-  // Logic: Check if the stored password matches the CURRENT environment password
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => {
-    const storedAuth = localStorage.getItem(AUTH_KEY);
-    return storedAuth === APP_PASSWORD;
-  });
-  
+  // Authentication State: undefined while the server is being asked about the current session
+  const [session, setSession] = useState<AuthSession | null | undefined>(undefined);
+  const [usernameInput, setUsernameInput] = useState('');
   const [passwordInput, setPasswordInput] = useState('');
-  const [authError, setAuthError] = useState(false);
+  const [authError, setAuthError] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+
+  useEffect(() => {
+    localStorage.removeItem(LEGACY_AUTH_KEY);
+    authService.getSession()
+      .then(setSession)
+      .catch((e: Error) => {
+        setAuthError(e.message);
+        setSession(null);
+      });
+  }, []);
 
   // App State
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
   const [provider, setProvider] = useState<AiProvider>('deepseek');
+  const [showSettings, setShowSettings] = useState(false);
+  const [resumeTranscriptId, setResumeTranscriptId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState(() => storageService.getProfiles());
+  const [activeProfile, setActiveProfile] = useState(() => storageService.getActiveProfile());
+  const [showProfiles, setShowProfiles] = useState(false);
+  // Bumped when a sync pulls changes, so the views remount with the new data
+  const [dataVersion, setDataVersion] = useState(0);
+  // Views read display settings while rendering; storing them here re-renders the view after a change
+  const [, setDisplaySettings] = useState(() => storageService.getDisplaySettings());
+
+  const handleSynced = (pulled: number) => {
+    if (pulled > 0) setDataVersion(v => v + 1);
+  };
+
+  // Background sync for profiles that opted in; failures only surface in Settings
+  const autoSync = () => {
+    if (!syncService.getState().autoSync) return;
+    syncService.sync()
+      .then(({ pulled }) => handleSynced(pulled))
+      .catch(e => console.warn('Auto sync failed', e));
+  };
+
+  useEffect(() => {
+    if (!session) return;
+    autoSync();
+    aiQueue.start();
+  }, [session?.username]);
+
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  const handleNavigate = (view: AppView) => {
+    setResumeTranscriptId(null);
+    setCurrentView(view);
+  };
 
-  const handleLogin = (e?: React.FormEvent) => {
+  const refreshProfiles = () => {
+    setProfiles(storageService.getProfiles());
+    setActiveProfile(storageService.getActiveProfile());
+  };
+
+  const handleSwitchProfile = async (id: string) => {
+    try {
+      await storageService.switchProfile(id);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+    refreshProfiles();
+    handleNavigate(AppView.DASHBOARD);
+    autoSync();
+    aiQueue.process();
+  };
+
+  const handleResumeTranscript = (id: string) => {
+    setResumeTranscriptId(id);
+    setCurrentView(AppView.SPEAKING);
+  };
+
+  const handleLogin = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (passwordInput === APP_PASSWORD) {
-      // Store the ACTUAL password value, not just 'true'
-      // This ensures that if APP_PASSWORD changes in .env, the stored value won't match, forcing re-login
-      localStorage.setItem(AUTH_KEY, APP_PASSWORD);
-      setIsAuthenticated(true);
-      setAuthError(false);
-    } else {
-      setAuthError(true);
+    setIsLoggingIn(true);
+    setAuthError('');
+    try {
+      setSession(await authService.login(usernameInput, passwordInput));
+      setPasswordInput('');
+    } catch (err: any) {
+      setAuthError(err.message);
       setPasswordInput('');
+    } finally {
+      setIsLoggingIn(false);
     }
   };
 
+  const handleLogout = async () => {
+    try {
+      await authService.logout();
+    } catch (err: any) {
+      alert(err.message);
+      return;
+    }
+    setSession(null);
+    setShowSettings(false);
+    handleNavigate(AppView.DASHBOARD);
+  };
+
   const renderView = () => {
     switch (currentView) {
       case AppView.DASHBOARD: return <Dashboard setView={setCurrentView} />;
       case AppView.VOCABULARY: return <VocabularyBuilder aiProvider={provider} />;
-      case AppView.LIBRARY: return <Library />;
+      case AppView.LIBRARY: return <Library aiProvider={provider} onResumeTranscript={handleResumeTranscript} />;
       case AppView.WRITING: return <WritingLab aiProvider={provider} />;
-      case AppView.SPEAKING: return <OralCoach aiProvider={provider} />;
+      case AppView.SPEAKING: return <OralCoach key={resumeTranscriptId || 'new'} aiProvider={provider} resumeTranscriptId={resumeTranscriptId} />;
       case AppView.QUIZ: return <QuizRoom aiProvider={provider} />;
       case AppView.CLASSICAL: return <ClassicalMode aiProvider={provider} />;
+      case AppView.REVIEW: return <ReviewSession />;
       default: return <Dashboard setView={setCurrentView} />;
     }
   };
 
+  if (session === undefined) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-indigo-300 animate-spin" />
+      </div>
+    );
+  }
+
   // Login Screen Component
-  if (!isAuthenticated) {
+  if (!session) {
     return (
       <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
         <div className="bg-white max-w-md w-full rounded-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-300">
@@ -73,40 +173,45 @@ export default function App() {
           
           <div className="p-8">
             <form onSubmit={handleLogin} className="space-y-6">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
+                  <User className="w-4 h-4 text-slate-400" />
+                  用戶名稱
+                </label>
+                <input 
+                  type="text" 
+                  value={usernameInput}
+                  onChange={(e) => { setAuthError(''); setUsernameInput(e.target.value); }}
+                  autoComplete="username"
+                  autoCapitalize="none"
+                  autoFocus
+                  className="w-full p-3 rounded-xl border border-slate-200 bg-slate-50 focus:ring-indigo-200 outline-none focus:ring-4 transition-all"
+                />
+              </div>
               <div className="space-y-2">
                 <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
                   <Lock className="w-4 h-4 text-slate-400" />
-                  請輸入存取密碼
+                  密碼
                 </label>
                 <input 
                   type="password" 
                   value={passwordInput}
-                  onChange={(e) => { setAuthError(false); setPasswordInput(e.target.value); }}
+                  onChange={(e) => { setAuthError(''); setPasswordInput(e.target.value); }}
                   placeholder="Password"
-                  autoFocus
+                  autoComplete="current-password"
                   className={`w-full p-3 rounded-xl border ${authError ? 'border-red-300 bg-red-50 focus:ring-red-200' : 'border-slate-200 bg-slate-50 focus:ring-indigo-200'} outline-none focus:ring-4 transition-all`}
                 />
-                {authError && <p className="text-xs text-red-500 font-medium animate-pulse">密碼錯誤，請重試。</p>}
+                {authError && <p className="text-xs text-red-500 font-medium">{authError}</p>}
               </div>
               
               <button 
                 type="submit"
-                className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                disabled={isLoggingIn || !usernameInput.trim() || !passwordInput}
+                className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-50"
               >
-                進入系統 <ArrowRight className="w-4 h-4" />
+                {isLoggingIn ? <Loader2 className="w-4 h-4 animate-spin" /> : <>進入系統 <ArrowRight className="w-4 h-4" /></>}
               </button>
             </form>
-
-            {PASSWORD_HINT && (
-                <div className="mt-6 pt-4 border-t border-slate-100 flex justify-center">
-                    <div className="inline-flex items-center gap-2 px-3 py-1.5 bg-slate-50 rounded-full border border-slate-100">
-                        <HelpCircle className="w-3 h-3 text-slate-400" />
-                        <span className="text-xs text-slate-500">
-                            提示: <span className="font-medium text-indigo-600">{PASSWORD_HINT}</span>
-                        </span>
-                    </div>
-                </div>
-            )}
             
             <div className="mt-4 text-center">
                <p className="text-[10px] text-slate-300">Restricted Access</p>
@@ -120,12 +225,19 @@ export default function App() {
   // Main App Interface
   return (
     <div className="flex min-h-screen bg-slate-50">
-      <Navigation currentView={currentView} setView={setCurrentView} />
+      <Navigation
+        currentView={currentView}
+        setView={handleNavigate}
+        profiles={profiles}
+        activeProfile={activeProfile}
+        onSwitchProfile={handleSwitchProfile}
+        onManageProfiles={() => setShowProfiles(true)}
+      />
       
       <main className="flex-1 overflow-y-auto h-screen relative flex flex-col">
         <header className="bg-white border-b border-slate-200 px-6 py-3 flex justify-between items-center sticky top-0 z-40">
            <div className="flex items-center gap-2">
-             <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
+             <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-emerald-500 animate-pulse' : 'bg-amber-500'}`} title={isOnline ? '已連線' : '離線模式：AI 分析會排隊，恢復連線後自動執行'} />
              <h1 className="text-sm font-bold text-slate-500 uppercase tracking-wider">
                {currentView === AppView.CLASSICAL ? '文言文模式' : currentView.replace('_', ' ')}
              </h1>
@@ -135,15 +247,29 @@ export default function App() {
               <div className="flex bg-slate-100 p-1 rounded-lg border border-slate-200">
                 <button onClick={() => setProvider('deepseek')} className={`px-3 py-1 text-[10px] font-bold rounded transition-all ${provider === 'deepseek' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}>DEEPSEEK</button>
                 <button onClick={() => setProvider('gemini')} className={`px-3 py-1 text-[10px] font-bold rounded transition-all ${provider === 'gemini' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}>GEMINI</button>
+                <button onClick={() => setProvider('openai')} className={`px-3 py-1 text-[10px] font-bold rounded transition-all ${provider === 'openai' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}>自訂</button>
               </div>
               <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-indigo-50 border border-indigo-100">
-                {provider === 'gemini' ? <Sparkles className="w-4 h-4 text-indigo-600" /> : <Cpu className="w-4 h-4 text-indigo-600" />}
-                <span className="text-xs font-semibold text-indigo-700">{provider === 'gemini' ? 'Gemini AI' : 'DeepSeek AI'}</span>
+                {provider === 'gemini' ? <Sparkles className="w-4 h-4 text-indigo-600" /> : provider === 'openai' ? <Server className="w-4 h-4 text-indigo-600" /> : <Cpu className="w-4 h-4 text-indigo-600" />}
+                <span className="text-xs font-semibold text-indigo-700">{PROVIDER_LABELS[provider]}</span>
               </div>
+              <button onClick={() => setShowSettings(true)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors" title="設定"><Settings className="w-4 h-4" /></button>
+              <button onClick={handleLogout} className="p-2 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded-lg transition-colors" title={`登出 ${session.username}`}><LogOut className="w-4 h-4" /></button>
            </div>
         </header>
-        <div className="flex-1">{renderView()}</div>
+        {/* Keyed by profile and data version so every view remounts and reads the current data */}
+        <div className="flex-1" key={`${activeProfile.id}:${dataVersion}`}>{renderView()}</div>
       </main>
+      {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} onSynced={handleSynced} onDisplayChanged={setDisplaySettings} />}
+      {showProfiles && (
+        <ProfileDialog
+          profiles={profiles}
+          activeProfileId={activeProfile.id}
+          onClose={() => setShowProfiles(false)}
+          onChanged={refreshProfiles}
+          onSwitch={(id) => { setShowProfiles(false); handleSwitchProfile(id); }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,71 @@
+
+import React from 'react';
+import { AlertCircle, AlertTriangle, RefreshCw, X, History } from 'lucide-react';
+import { AI_ERROR_MESSAGES, toAiError } from '../services/aiRequest';
+import { PROVIDER_LABELS } from '../types';
+
+interface AiErrorNoticeProps {
+  error: unknown;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  dark?: boolean; // For dark screens such as OralCoach
+}
+
+// Renders an AI failure as a title + what-to-do hint instead of a blocking alert().
+export const AiErrorNotice: React.FC<AiErrorNoticeProps> = ({ error, onRetry, onDismiss, dark }) => {
+  const aiError = toAiError(error);
+  const { title, hint } = AI_ERROR_MESSAGES[aiError.kind];
+
+  return (
+    <div className={`p-4 rounded-xl flex items-start gap-3 border animate-in fade-in ${dark ? 'bg-red-950/60 border-red-900 text-red-100' : 'bg-red-50 border-red-200 text-red-700'}`}>
+      <AlertCircle className={`w-5 h-5 shrink-0 mt-0.5 ${dark ? 'text-red-300' : 'text-red-500'}`} />
+      <div className="text-sm flex-1 space-y-1">
+        <p className="font-bold">{title}{aiError.provider && <span className="font-normal opacity-70"> ({PROVIDER_LABELS[aiError.provider]})</span>}</p>
+        <p>{aiError.kind === 'config' ? aiError.message : hint}</p>
+        {aiError.kind !== 'config' && aiError.message && <p className="text-[11px] opacity-60 font-mono break-all">{aiError.message}</p>}
+        {onRetry && (
+          <button onClick={onRetry} className={`mt-1 inline-flex items-center gap-1 text-xs font-bold px-2 py-1 rounded border transition-colors ${dark ? 'border-red-800 hover:bg-red-900' : 'border-red-200 bg-white hover:bg-red-100'}`}>
+            <RefreshCw className="w-3 h-3" /> 重試
+          </button>
+        )}
+      </div>
+      {onDismiss && <button onClick={onDismiss} className="opacity-60 hover:opacity-100"><X className="w-4 h-4" /></button>}
+    </div>
+  );
+};
+
+interface MissingFieldsNoticeProps {
+  fields: string[];
+  onRetry?: () => void;
+}
+
+// Shown above a partial AI result so blank sections are explained rather than silently empty.
+export const MissingFieldsNotice: React.FC<MissingFieldsNoticeProps> = ({ fields, onRetry }) => {
+  if (fields.length === 0) return null;
+  return (
+    <div className="bg-amber-50 border border-amber-200 p-3 rounded-xl text-sm text-amber-800 flex items-start gap-2 animate-in fade-in">
+      <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+      <div className="flex-1">
+        <p>AI 未能提供以下內容：<span className="font-bold">{fields.join('、')}</span>。其餘結果仍可參考。</p>
+        {onRetry && <button onClick={onRetry} className="mt-1 inline-flex items-center gap-1 text-xs font-bold text-amber-700 hover:underline"><RefreshCw className="w-3 h-3" /> 重新分析</button>}
+      </div>
+    </div>
+  );
+};
+
+interface CachedResultNoticeProps {
+  cachedAt: Date | null;
+  onRegenerate: () => void;
+}
+
+// Shown above a result reused from the AI cache, with a way to ask the AI again.
+export const CachedResultNotice: React.FC<CachedResultNoticeProps> = ({ cachedAt, onRegenerate }) => {
+  if (!cachedAt) return null;
+  return (
+    <div className="bg-sky-50 border border-sky-200 p-3 rounded-xl text-sm text-sky-800 flex items-center gap-2 animate-in fade-in">
+      <History className="w-4 h-4 shrink-0" />
+      <p className="flex-1">此結果來自 {cachedAt.toLocaleString()} 的快取，未有再次使用 AI 額度。</p>
+      <button onClick={onRegenerate} className="inline-flex items-center gap-1 text-xs font-bold px-2 py-1 rounded border border-sky-200 bg-white hover:bg-sky-100 transition-colors shrink-0"><RefreshCw className="w-3 h-3" /> 重新生成</button>
+    </div>
+  );
+};
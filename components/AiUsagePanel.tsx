@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { AiProvider, AiFeature, PROVIDER_LABELS, AI_FEATURE_LABELS } from '../types';
+import { getAiUsage, AiUsageReport, AiUsageTotals } from '../services/geminiService';
+import { Gauge, Wallet } from 'lucide-react';
+
+type Period = 'today' | 'month';
+
+const formatCost = (usd: number): string => `US$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const formatTokens = (totals: AiUsageTotals): string => (totals.promptTokens + totals.completionTokens).toLocaleString();
+
+const BudgetBar: React.FC<{ spent: number, budget: number }> = ({ spent, budget }) => {
+  const ratio = Math.min(1, spent / budget);
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>預算 {formatCost(spent)} / {formatCost(budget)}</span>
+        {ratio >= 1 && <span className="font-bold text-red-600">已用完，AI 請求暫停</span>}
+      </div>
+      <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+        <div className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+// Today's quota plus daily/monthly token use and estimated cost of the proxied providers (Settings)
+export const AiUsagePanel: React.FC = () => {
+  const [usage, setUsage] = useState<AiUsageReport | null>(null);
+  const [period, setPeriod] = useState<Period>('today');
+
+  useEffect(() => {
+    getAiUsage().then(setUsage).catch(e => console.warn('Could not load AI usage', e));
+  }, []);
+
+  if (!usage) return null;
+
+  const { user, team } = usage[period];
+  const budget = period === 'today' ? usage.dailyBudgetUsd : usage.monthlyBudgetUsd;
+  const features = (Object.keys(team.byFeature) as AiFeature[]).sort((a, b) => team.byFeature[b]!.costUsd - team.byFeature[a]!.costUsd);
+  const providers = Object.keys(team.byProvider) as AiProvider[];
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Gauge className="w-4 h-4 text-indigo-600" /> 今日 AI 用量 (DeepSeek / Gemini)</h3>
+      <div className="bg-slate-50 p-3 rounded-lg text-sm text-slate-600 space-y-1">
+        <p>請求次數：<span className="font-bold text-slate-800">{usage.requests}</span>{usage.requestLimit > 0 && ` / ${usage.requestLimit}`}</p>
+        <p>Token：<span className="font-bold text-slate-800">{usage.tokens.toLocaleString()}</span>{usage.tokenLimit > 0 && ` / ${usage.tokenLimit.toLocaleString()}`}</p>
+        {usage.requestLimit > 0 && (
+          <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500" style={{ width: `${Math.min(100, usage.requests / usage.requestLimit * 100)}%` }} />
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-slate-600 flex items-center gap-1"><Wallet className="w-3 h-3" /> 費用估算</h4>
+        <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs">
+          {(['today', 'month'] as Period[]).map(p => (
+            <button key={p} onClick={() => setPeriod(p)} className={`px-3 py-1 rounded-md font-medium ${period === p ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500'}`}>
+              {p === 'today' ? '今日' : '本月'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="bg-slate-50 p-3 rounded-lg text-sm text-slate-600 space-y-3">
+        <table className="w-full text-left">
+          <thead className="text-xs text-slate-400">
+            <tr><th className="font-medium"></th><th className="font-medium">請求</th><th className="font-medium">Token</th><th className="font-medium text-right">費用</th></tr>
+          </thead>
+          <tbody>
+            {[{ label: '你', totals: user }, { label: '全隊', totals: team }].map(({ label, totals }) => (
+              <tr key={label}>
+                <td className="py-0.5 text-slate-500">{label}</td>
+                <td>{totals.requests}</td>
+                <td>{formatTokens(totals)}</td>
+                <td className="text-right font-bold text-slate-800">{formatCost(totals.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {budget > 0 && <BudgetBar spent={team.costUsd} budget={budget} />}
+        {features.length > 0 && (
+          <div className="space-y-1 border-t border-slate-200 pt-2">
+            <p className="text-xs text-slate-400">全隊按功能及供應商</p>
+            {features.map(feature => (
+              <div key={feature} className="flex justify-between text-xs">
+                <span>{AI_FEATURE_LABELS[feature]}</span>
+                <span>{team.byFeature[feature]!.requests} 次 · {formatTokens(team.byFeature[feature]!)} Token · {formatCost(team.byFeature[feature]!.costUsd)}</span>
+              </div>
+            ))}
+            {providers.map(provider => (
+              <div key={provider} className="flex justify-between text-xs text-slate-500">
+                <span>{PROVIDER_LABELS[provider]}</span>
+                <span>{team.byProvider[provider]!.requests} 次 · {formatTokens(team.byProvider[provider]!)} Token · {formatCost(team.byProvider[provider]!.costUsd)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-slate-400">API 金鑰保存在伺服器上，額度於午夜重設。費用按公開價目估算，僅供參考；自訂模型不計算在內。</p>
+    </section>
+  );
+};
@@ -0,0 +1,68 @@
+
+import React, { useState } from 'react';
+import { MIN_PASSPHRASE_LENGTH } from '../services/backupCrypto';
+import { storageService } from '../services/storageService';
+import { X, FileJson, Lock, Loader2 } from 'lucide-react';
+
+interface BackupDialogProps {
+  onClose: () => void;
+  onCreate: (passphrase?: string) => Promise<void>;
+}
+
+export const BackupDialog: React.FC<BackupDialogProps> = ({ onClose, onCreate }) => {
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const passphraseError = !encrypt ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH ? `密碼最少需要 ${MIN_PASSPHRASE_LENGTH} 個字元`
+    : passphrase !== confirmation ? '兩次輸入的密碼不一致'
+    : null;
+
+  const handleCreate = async () => {
+    if (passphraseError) return;
+    setIsCreating(true);
+    try {
+      await onCreate(encrypt ? passphrase : undefined);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 animate-in fade-in" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-900">建立備份</h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-full hover:bg-slate-100 transition-colors"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600">備份包含學習者「<span className="font-bold text-indigo-700">{storageService.getActiveProfile().name}</span>」的所有詞彙卡 (連圖片)、寫作紀錄、文言文解析、對話及測驗紀錄。</p>
+          <label className="flex items-start gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={encrypt} onChange={e => setEncrypt(e.target.checked)} className="accent-indigo-600 mt-1" />
+            <span>
+              <span className="font-medium flex items-center gap-1"><Lock className="w-4 h-4 text-indigo-600" /> 以密碼加密</span>
+              <span className="text-xs text-slate-500">存放於學校共用硬碟或雲端時建議使用。忘記密碼將無法還原。</span>
+            </span>
+          </label>
+
+          {encrypt && (
+            <div className="space-y-2 animate-in fade-in">
+              <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="密碼" autoComplete="new-password" className="w-full p-2 rounded-lg border border-slate-300 bg-slate-50 text-sm" />
+              <input type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} placeholder="再次輸入密碼" autoComplete="new-password" className="w-full p-2 rounded-lg border border-slate-300 bg-slate-50 text-sm" />
+              {passphraseError && (passphrase || confirmation) && <p className="text-xs text-red-600">{passphraseError}</p>}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end">
+          <button onClick={handleCreate} disabled={isCreating || !!passphraseError} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : encrypt ? <Lock className="w-4 h-4" /> : <FileJson className="w-4 h-4" />} 下載備份
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,48 +2,115 @@
 import React, { useState, useEffect } from 'react';
 import { analyzeClassicalChinese } from '../services/geminiService';
 import { storageService } from '../services/storageService';
-import { Loader2, ScrollText, BookOpen, Bookmark, Check, Save } from 'lucide-react';
-import { AiProvider, VocabularyItem, ClassicalEntry } from '../types';
+import { aiQueue } from '../services/aiQueue';
+import { toAiError } from '../services/aiRequest';
+import { toDisplayScript } from '../services/chineseScript';
+import { speechService, SpeechSentence } from '../services/speechService';
+import { AiErrorNotice, MissingFieldsNotice, CachedResultNotice } from './AiErrorNotice';
+import { QueuedRequests } from './QueuedRequests';
+import { Loader2, ScrollText, BookOpen, Bookmark, Check, Save, WifiOff, Square, Mic } from 'lucide-react';
+import { AiProvider, VocabularyItem, ClassicalEntry, ClassicalAnalysis, QueuedAiRequest, SpeechLang } from '../types';
+import { PhoneticText } from './PhoneticText';
+import { PronunciationPractice } from './PronunciationPractice';
 
 interface ClassicalModeProps {
   aiProvider: AiProvider;
 }
 
+// Progress of reading the original text aloud
+interface ReadAlong {
+  sentence: SpeechSentence | null;
+  char: { start: number, end: number } | null; // Only when the voice sends boundary events
+}
+
+// The original text with the sentence and character being read highlighted
+const ReadAlongText: React.FC<{ text: string, reading: ReadAlong }> = ({ text, reading }) => {
+  const { sentence, char } = reading;
+  if (!sentence) return <>{text}</>;
+  const sentenceEnd = sentence.start + sentence.text.length;
+  const charStart = char ? Math.max(char.start, sentence.start) : sentenceEnd;
+  const charEnd = char ? Math.min(char.end, sentenceEnd) : sentenceEnd;
+  return (
+    <>
+      {text.slice(0, sentence.start)}
+      <span className="bg-amber-100 rounded">
+        {text.slice(sentence.start, charStart)}
+        {charEnd > charStart && <span className="bg-amber-400 text-white rounded">{text.slice(charStart, charEnd)}</span>}
+        {text.slice(charEnd, sentenceEnd)}
+      </span>
+      {text.slice(sentenceEnd)}
+    </>
+  );
+};
+
 export const ClassicalMode: React.FC<ClassicalModeProps> = ({ aiProvider }) => {
   const [text, setText] = useState('');
-  const [result, setResult] = useState<{ 
-    translation: string, 
-    origin: string, 
-    usage: string,
-    vocabulary?: VocabularyItem[]
-  } | null>(null);
+  const [result, setResult] = useState<ClassicalAnalysis | null>(null);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
   const [savedWords, setSavedWords] = useState<Set<string>>(new Set());
   const [isEntrySaved, setIsEntrySaved] = useState(false);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const [isQueued, setIsQueued] = useState(false);
+  const [reading, setReading] = useState<ReadAlong | null>(null);
+  const [isPracticing, setIsPracticing] = useState(false);
+
+  useEffect(() => () => speechService.stop(), []);
 
   useEffect(() => {
     const library = storageService.getVocabulary();
     setSavedWords(new Set(library.map(i => i.word)));
   }, []);
 
-  const handleAnalyze = async () => {
+  // refresh bypasses the AI result cache
+  const handleAnalyze = async (refresh = false) => {
     if (!text.trim()) return;
     setLoading(true);
     setResult(null);
+    setError(null);
     setIsEntrySaved(false);
+    setCachedAt(null);
+    setIsQueued(false);
+
+    // Offline: queue the analysis, it runs once the connection is back
+    const queue = async () => {
+      await aiQueue.enqueue({ kind: 'classical', provider: aiProvider, text });
+      setIsQueued(true);
+    };
+
     try {
-      const analysis = await analyzeClassicalChinese(text, aiProvider);
+      if (!navigator.onLine && !refresh) {
+        // A cached analysis still works offline
+        const analysis = await analyzeClassicalChinese(text, aiProvider, { retries: 0, onCacheHit: setCachedAt }).catch(() => null);
+        if (analysis) setResult(analysis);
+        else await queue();
+        return;
+      }
+      const analysis = await analyzeClassicalChinese(text, aiProvider, { refresh, onCacheHit: setCachedAt });
       setResult(analysis);
-    } catch (e: any) {
-      alert(`分析失敗: ${e.message}`);
+    } catch (e) {
+      if (toAiError(e).kind === 'network' && !navigator.onLine) {
+        await queue().catch(setError);
+      } else {
+        setError(e);
+      }
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSaveWord = (item: VocabularyItem) => {
+  const handleOpenQueued = (request: QueuedAiRequest) => {
+    setText(request.text);
+    setResult(request.result as ClassicalAnalysis);
+    setError(null);
+    setCachedAt(null);
+    setIsEntrySaved(false);
+    setIsQueued(false);
+  };
+
+  const handleSaveWord = async (item: VocabularyItem) => {
     try {
-      const success = storageService.addVocabularyItem(item);
+      const success = await storageService.addVocabularyItem(item);
       if (success) {
         setSavedWords(prev => new Set(prev).add(item.word));
       }
@@ -52,7 +119,7 @@ export const ClassicalMode: React.FC<ClassicalModeProps> = ({ aiProvider }) => {
     }
   };
 
-  const handleSaveEntry = () => {
+  const handleSaveEntry = async () => {
     if (!result) return;
     try {
       const entry: ClassicalEntry = {
@@ -64,31 +131,24 @@ export const ClassicalMode: React.FC<ClassicalModeProps> = ({ aiProvider }) => {
         date: new Date().toLocaleDateString()
       };
       
-      storageService.addClassicalEntry(entry);
+      await storageService.addClassicalEntry(entry);
       setIsEntrySaved(true);
     } catch (e: any) {
       alert(e.message);
     }
   };
 
-  const handleSpeak = (content: string, lang: 'zh-CN' | 'zh-HK' = 'zh-HK') => {
-    if ('speechSynthesis' in window) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(content);
-      utterance.lang = lang;
-
-      const voices = window.speechSynthesis.getVoices();
-      const targetVoice = voices.find(v => 
-        v.lang.replace('_', '-').toLowerCase() === lang.toLowerCase() || 
-        (lang === 'zh-HK' && (v.name.includes('Cantonese') || v.name.includes('Hong Kong')))
-      );
-
-      if (targetVoice) {
-        utterance.voice = targetVoice;
-      }
-
-      window.speechSynthesis.speak(utterance);
+  const handleReadAloud = (lang: SpeechLang) => {
+    if (!speechService.isSupported()) {
+      alert("此瀏覽器不支援朗讀功能。");
+      return;
     }
+    setReading({ sentence: null, char: null }); // Before speak, which ends at once when there is nothing to read
+    speechService.speak(text, lang, {
+      onSentence: sentence => setReading({ sentence, char: null }),
+      onBoundary: (start, length) => setReading(prev => prev && { ...prev, char: { start, end: start + length } }),
+      onEnd: () => setReading(null)
+    });
   };
 
   return (
@@ -106,19 +166,31 @@ export const ClassicalMode: React.FC<ClassicalModeProps> = ({ aiProvider }) => {
           <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 flex-1 flex flex-col">
             <div className="flex justify-between items-center mb-2">
                 <label className="block text-sm font-medium text-slate-700">文言文/古詩詞</label>
-                <div className="flex gap-1">
-                    <button onClick={() => handleSpeak(text, 'zh-HK')} disabled={!text} className="text-xs px-2 py-1 bg-amber-50 hover:bg-amber-100 text-amber-700 rounded transition-colors">粵語朗讀</button>
-                    <button onClick={() => handleSpeak(text, 'zh-CN')} disabled={!text} className="text-xs px-2 py-1 bg-slate-50 hover:bg-slate-100 text-slate-600 rounded transition-colors">普通話</button>
-                </div>
+                {reading ? (
+                    <button onClick={() => speechService.stop()} className="text-xs px-2 py-1 bg-amber-600 hover:bg-amber-700 text-white rounded transition-colors flex items-center gap-1"><Square className="w-3 h-3" /> 停止朗讀</button>
+                ) : (
+                    <div className="flex gap-1">
+                        <button onClick={() => handleReadAloud('zh-HK')} disabled={!text.trim()} className="text-xs px-2 py-1 bg-amber-50 hover:bg-amber-100 text-amber-700 rounded transition-colors">粵語朗讀</button>
+                        <button onClick={() => handleReadAloud('zh-CN')} disabled={!text.trim()} className="text-xs px-2 py-1 bg-slate-50 hover:bg-slate-100 text-slate-600 rounded transition-colors">普通話</button>
+                        <button onClick={() => setIsPracticing(true)} disabled={!text.trim()} className="text-xs px-2 py-1 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 rounded transition-colors flex items-center gap-1"><Mic className="w-3 h-3" /> 跟讀</button>
+                    </div>
+                )}
             </div>
-            <textarea 
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              className="w-full flex-1 p-4 rounded-lg border border-slate-300 bg-stone-50 text-stone-900 placeholder-stone-400 focus:ring-2 focus:ring-amber-600 outline-none resize-none min-h-[200px] font-serif"
-              placeholder="例如：學而時習之，不亦說乎..."
-            />
+            {reading ? (
+              // Read-only while reading, so the highlighted offsets keep matching the text
+              <div className="w-full flex-1 p-4 rounded-lg border border-amber-300 bg-stone-50 text-stone-900 min-h-[200px] font-serif whitespace-pre-wrap overflow-y-auto">
+                <ReadAlongText text={text} reading={reading} />
+              </div>
+            ) : (
+              <textarea 
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="w-full flex-1 p-4 rounded-lg border border-slate-300 bg-stone-50 text-stone-900 placeholder-stone-400 focus:ring-2 focus:ring-amber-600 outline-none resize-none min-h-[200px] font-serif"
+                placeholder="例如：學而時習之，不亦說乎..."
+              />
+            )}
             <button 
-              onClick={handleAnalyze}
+              onClick={() => handleAnalyze()}
               disabled={loading || !text}
               className="mt-4 w-full py-3 bg-amber-700 hover:bg-amber-800 text-white font-medium rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
             >
@@ -128,6 +200,15 @@ export const ClassicalMode: React.FC<ClassicalModeProps> = ({ aiProvider }) => {
         </div>
 
         <div className="space-y-4">
+          {error !== null && <AiErrorNotice error={error} onRetry={() => handleAnalyze()} onDismiss={() => setError(null)} />}
+          {isQueued && (
+            <div className="bg-amber-50 border border-amber-200 p-3 rounded-xl text-sm text-amber-800 flex items-start gap-2 animate-in fade-in">
+              <WifiOff className="w-4 h-4 shrink-0 mt-0.5" />
+              <p>目前離線，已把這段古文加入佇列。恢復連線後會自動解析，完成後可在下方「查看結果」。</p>
+            </div>
+          )}
+          <QueuedRequests kind="classical" onOpen={handleOpenQueued} />
+
           {result ? (
             <div className="space-y-4 animate-in slide-in-from-bottom-4 duration-500">
               <div className="flex items-center justify-between">
@@ -137,12 +218,15 @@ export const ClassicalMode: React.FC<ClassicalModeProps> = ({ aiProvider }) => {
                  </button>
               </div>
 
+              <CachedResultNotice cachedAt={cachedAt} onRegenerate={() => handleAnalyze(true)} />
+              <MissingFieldsNotice fields={result.missingFields} onRetry={() => handleAnalyze(true)} />
+
               <div className="bg-white p-5 rounded-xl shadow-sm border border-l-4 border-l-amber-600 border-slate-200">
                 <h3 className="text-sm font-bold text-amber-800 uppercase tracking-wide mb-2 flex items-center gap-2">
                     <ScrollText className="w-4 h-4" /> 白話翻譯
                     <div className="flex gap-1 ml-2">
-                        <button onClick={() => handleSpeak(result.translation, 'zh-HK')} className="text-[10px] px-1.5 border rounded hover:bg-amber-100 text-amber-800">粵</button>
-                        <button onClick={() => handleSpeak(result.translation, 'zh-CN')} className="text-[10px] px-1.5 border rounded hover:bg-amber-100 text-amber-800">普</button>
+                        <button onClick={() => speechService.speak(result.translation, 'zh-HK')} className="text-[10px] px-1.5 border rounded hover:bg-amber-100 text-amber-800">粵</button>
+                        <button onClick={() => speechService.speak(result.translation, 'zh-CN')} className="text-[10px] px-1.5 border rounded hover:bg-amber-100 text-amber-800">普</button>
                     </div>
                 </h3>
                 <p className="text-slate-800 leading-relaxed">{result.translation}</p>
@@ -159,7 +243,7 @@ export const ClassicalMode: React.FC<ClassicalModeProps> = ({ aiProvider }) => {
                   </div>
               </div>
 
-              {result.vocabulary && result.vocabulary.length > 0 && (
+              {result.vocabulary.length > 0 && (
                 <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
                   <h3 className="text-sm font-bold text-indigo-600 uppercase tracking-wide mb-3 flex items-center gap-2"><BookOpen className="w-4 h-4" /> 重點詞彙/字義</h3>
                   <div className="space-y-3">
@@ -169,17 +253,17 @@ export const ClassicalMode: React.FC<ClassicalModeProps> = ({ aiProvider }) => {
                         <div key={idx} className="p-3 bg-slate-50 rounded-lg border border-slate-100 flex flex-col gap-2">
                           <div className="flex justify-between items-start">
                              <div className="flex items-center gap-2">
-                                <span className="font-bold text-slate-900">{wordItem.word}</span>
-                                {wordItem.phonetic && <span className="text-xs text-slate-500 font-mono bg-slate-200 px-1 rounded">粵: {wordItem.phonetic}</span>}
+                                <span className="font-bold text-slate-900">{toDisplayScript(wordItem.word)}</span>
+                                <PhoneticText jyutping={wordItem.jyutping} pinyin={wordItem.pinyin} word={wordItem.word} labelled className="text-xs text-slate-500 font-mono bg-slate-200 px-1 rounded" />
                                 <div className="flex gap-1 ml-1">
-                                    <button onClick={() => handleSpeak(wordItem.word, 'zh-HK')} className="text-[10px] px-1.5 border rounded hover:bg-slate-200 text-slate-600">粵</button>
-                                    <button onClick={() => handleSpeak(wordItem.word, 'zh-CN')} className="text-[10px] px-1.5 border rounded hover:bg-slate-200 text-slate-600">普</button>
+                                    <button onClick={() => speechService.speak(wordItem.word, 'zh-HK')} className="text-[10px] px-1.5 border rounded hover:bg-slate-200 text-slate-600">粵</button>
+                                    <button onClick={() => speechService.speak(wordItem.word, 'zh-CN')} className="text-[10px] px-1.5 border rounded hover:bg-slate-200 text-slate-600">普</button>
                                 </div>
                              </div>
                              <button onClick={() => handleSaveWord(wordItem)} disabled={isSaved} className={`p-1.5 rounded-full ${isSaved ? 'text-emerald-500 bg-emerald-50' : 'text-indigo-600 border border-slate-200'}`}>{isSaved ? <Check className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}</button>
                           </div>
-                          <p className="text-sm text-slate-600">{wordItem.definition}</p>
-                          <div className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 italic">💡 {wordItem.mnemonic}</div>
+                          <p className="text-sm text-slate-600">{toDisplayScript(wordItem.definition)}</p>
+                          <div className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 italic">💡 {toDisplayScript(wordItem.mnemonic)}</div>
                         </div>
                       );
                     })}
@@ -187,7 +271,7 @@ export const ClassicalMode: React.FC<ClassicalModeProps> = ({ aiProvider }) => {
                 </div>
               )}
             </div>
-          ) : !loading && (
+          ) : !loading && error === null && (
             <div className="h-full flex flex-col items-center justify-center text-slate-400 bg-slate-100/50 rounded-xl border border-dashed border-slate-300 p-8">
               <ScrollText className="w-12 h-12 mb-4 opacity-20" />
               <p className="text-center">請在左側輸入古文，AI 將助您博古通今。</p>
@@ -195,6 +279,8 @@ export const ClassicalMode: React.FC<ClassicalModeProps> = ({ aiProvider }) => {
           )}
         </div>
       </div>
+
+      {isPracticing && <PronunciationPractice target={text} onClose={() => setIsPracticing(false)} />}
     </div>
   );
 };
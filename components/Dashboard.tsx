@@ -1,13 +1,16 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { AppView } from '../types';
-import { Brain, ArrowRight, ScrollText, PenTool } from 'lucide-react';
+import { storageService } from '../services/storageService';
+import { Brain, ArrowRight, ScrollText, PenTool, Repeat } from 'lucide-react';
 
 interface DashboardProps {
   setView: (view: AppView) => void;
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ setView }) => {
+  const [reviewStats] = useState(() => storageService.getReviewStats());
+
   return (
     <div className="max-w-5xl mx-auto p-6 md:p-10 space-y-10 pb-24 md:pb-8">
       {/* Hero Section */}
@@ -29,6 +32,29 @@ export const Dashboard: React.FC<DashboardProps> = ({ setView }) => {
         </div>
       </div>
 
+      {/* Today's Review */}
+      {reviewStats.total > 0 && (
+        <div
+          onClick={() => setView(AppView.REVIEW)}
+          className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 hover:shadow-md transition-all cursor-pointer flex items-center justify-between gap-4"
+        >
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-emerald-100 rounded-xl flex items-center justify-center shrink-0">
+              <Repeat className="w-6 h-6 text-emerald-700" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900">今日複習</h3>
+              <p className="text-slate-600 text-sm">
+                {reviewStats.due > 0 || reviewStats.new > 0
+                  ? <>有 <span className="font-bold text-indigo-600">{reviewStats.due}</span> 張卡片到期，<span className="font-bold text-emerald-600">{reviewStats.new}</span> 張新卡片等待學習。</>
+                  : '今日的卡片已全部複習，做得好！'}
+              </p>
+            </div>
+          </div>
+          <ArrowRight className="w-5 h-5 text-slate-400 shrink-0" />
+        </div>
+      )}
+
       {/* Features Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div 
@@ -0,0 +1,209 @@
+
+import React, { useState, useMemo, useRef } from 'react';
+import { AiProvider, PROVIDER_LABELS, VocabularyItem } from '../types';
+import { storageService } from '../services/storageService';
+import { fillMissingVocabularyFields } from '../services/geminiService';
+import { AiError } from '../services/aiRequest';
+import { parseTable, looksLikeHeader, guessMapping, buildImportRows, missingFields, ImportField, IMPORT_FIELD_LABELS, IMPORT_STATUS_LABELS, ImportRowStatus } from '../services/importService';
+import { AiErrorNotice } from './AiErrorNotice';
+import { X, FileSpreadsheet, Upload, Loader2, Sparkles, ArrowLeft } from 'lucide-react';
+
+interface ImportDialogProps {
+  aiProvider: AiProvider;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+const PREVIEW_ROWS = 8;
+const AI_BATCH_SIZE = 15;
+const MAPPABLE_FIELDS = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: 'bg-emerald-50 text-emerald-700',
+  duplicate: 'bg-slate-100 text-slate-500',
+  repeated: 'bg-slate-100 text-slate-500',
+  empty: 'bg-red-50 text-red-600'
+};
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ aiProvider, onClose, onImported }) => {
+  const [rawText, setRawText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][] | null>(null);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [mapping, setMapping] = useState<ImportField[]>([]);
+  const [fillWithAi, setFillWithAi] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState<unknown>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const existingWords = useMemo(() => new Set(storageService.getVocabulary().map(i => i.word)), []);
+
+  const dataRows = table ? (hasHeader ? table.slice(1) : table) : [];
+  const importRows = useMemo(() => buildImportRows(dataRows, mapping, existingWords), [table, hasHeader, mapping, existingWords]);
+  const newRows = importRows.filter(r => r.status === 'new');
+  const incompleteCount = newRows.filter(r => missingFields(r.item).length > 0).length;
+  const columnCount = table ? Math.max(...table.map(r => r.length)) : 0;
+
+  const loadText = (text: string) => {
+    const { rows } = parseTable(text);
+    if (rows.length === 0) {
+      alert('找不到任何資料列。');
+      return;
+    }
+    const header = looksLikeHeader(rows[0]);
+    setTable(rows);
+    setHasHeader(header);
+    setMapping(guessMapping(rows[0], header));
+    setError(null);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    const reader = new FileReader();
+    reader.onload = (e) => loadText(e.target?.result as string);
+    reader.readAsText(file);
+  };
+
+  const toggleHeader = (value: boolean) => {
+    setHasHeader(value);
+    if (table) setMapping(guessMapping(table[0], value));
+  };
+
+  const updateMapping = (column: number, field: ImportField) => {
+    // Each field maps to one column; the previous column for this field is cleared
+    setMapping(prev => Array.from({ length: columnCount }, (_, i) =>
+      i === column ? field : (field !== 'ignore' && prev[i] === field ? 'ignore' : prev[i] || 'ignore')
+    ));
+  };
+
+  const saveItems = async (items: VocabularyItem[]) => {
+    const added = await storageService.addVocabularyItems(items);
+    onImported(added);
+  };
+
+  const handleImport = async (skipAi = false) => {
+    if (newRows.length === 0) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      let items = newRows.map(r => r.item);
+      if (fillWithAi && !skipAi) {
+        const incomplete = items.filter(i => missingFields(i).length > 0);
+        const completed = new Map<string, VocabularyItem>();
+        for (let start = 0; start < incomplete.length; start += AI_BATCH_SIZE) {
+          setProgress(`AI 補全中… ${start}/${incomplete.length}`);
+          const batch = await fillMissingVocabularyFields(incomplete.slice(start, start + AI_BATCH_SIZE), aiProvider);
+          batch.forEach(item => completed.set(item.word, item));
+        }
+        items = items.map(i => completed.get(i.word) || i);
+      }
+      setProgress('儲存中…');
+      await saveItems(items);
+    } catch (e: any) {
+      // AI failures can be retried or skipped; storage failures are shown as before
+      if (e instanceof AiError) setError(e);
+      else alert(e.message || '匯入失敗。');
+    } finally {
+      setIsImporting(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 animate-in fade-in" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2"><FileSpreadsheet className="w-5 h-5 text-indigo-600" /> 匯入詞彙 (CSV / TSV)</h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-full hover:bg-slate-100 transition-colors"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {!table ? (
+            <>
+              <button onClick={() => fileInputRef.current?.click()} className="w-full py-8 border-2 border-dashed border-slate-300 rounded-xl text-slate-500 hover:border-indigo-300 hover:text-indigo-600 transition-colors flex flex-col items-center gap-2">
+                <Upload className="w-8 h-8" />
+                <span className="font-medium">選擇 .csv / .tsv / .txt 檔案</span>
+                <span className="text-xs">支援逗號、分號 (本程式舊版匯出) 及 Tab 分隔 (Anki 匯出)</span>
+              </button>
+              <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" className="hidden" />
+
+              <div className="space-y-2">
+                <p className="text-sm text-slate-600">或直接從 Excel / Google 試算表複製儲存格並貼上：</p>
+                <textarea value={rawText} onChange={e => setRawText(e.target.value)} placeholder={'詞彙\t釋義\t例句\n...'} className="w-full h-32 p-3 border rounded-xl bg-slate-50 text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500" />
+                <button onClick={() => { setFileName('貼上的資料'); loadText(rawText); }} disabled={!rawText.trim()} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50">讀取貼上內容</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <button onClick={() => setTable(null)} className="text-sm text-slate-500 hover:text-indigo-600 flex items-center gap-1"><ArrowLeft className="w-4 h-4" /> {fileName}</button>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input type="checkbox" checked={hasHeader} onChange={e => toggleHeader(e.target.checked)} className="accent-indigo-600" />
+                  第一行是欄位名稱
+                </label>
+              </div>
+
+              <div className="overflow-x-auto border rounded-xl">
+                <table className="text-xs w-full">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="p-2 text-left text-slate-400 font-medium">狀態</th>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <th key={i} className="p-2 text-left min-w-[120px]">
+                          <select value={mapping[i] || 'ignore'} onChange={e => updateMapping(i, e.target.value as ImportField)} className={`w-full p-1 rounded border text-xs ${mapping[i] && mapping[i] !== 'ignore' ? 'border-indigo-300 bg-indigo-50 text-indigo-700 font-bold' : 'border-slate-200 text-slate-400'}`}>
+                            {MAPPABLE_FIELDS.map(f => <option key={f} value={f}>{IMPORT_FIELD_LABELS[f]}</option>)}
+                          </select>
+                          {hasHeader && <p className="mt-1 text-slate-400 font-normal truncate">{table[0][i]}</p>}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dataRows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                      <tr key={r} className="border-t">
+                        <td className="p-2"><span className={`px-1.5 py-0.5 rounded whitespace-nowrap ${STATUS_STYLES[importRows[r].status]}`}>{IMPORT_STATUS_LABELS[importRows[r].status]}</span></td>
+                        {Array.from({ length: columnCount }, (_, i) => <td key={i} className="p-2 text-slate-700 max-w-[200px] truncate">{row[i]}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {dataRows.length > PREVIEW_ROWS && <p className="text-xs text-slate-400 text-center">只顯示首 {PREVIEW_ROWS} 行，共 {dataRows.length} 行</p>}
+
+              <div className="bg-slate-50 p-4 rounded-xl text-sm space-y-1">
+                <p>將新增 <span className="font-bold text-emerald-700">{newRows.length}</span> 個詞彙；略過 {importRows.filter(r => r.status === 'duplicate').length} 個已存在、{importRows.filter(r => r.status === 'repeated').length} 個檔案內重複、{importRows.filter(r => r.status === 'empty').length} 行沒有詞彙。</p>
+                {!mapping.includes('word') && <p className="text-red-600 font-medium">請指定哪一欄是「詞彙」。</p>}
+                {incompleteCount > 0 && (
+                  <label className="flex items-center gap-2 pt-2 text-slate-700">
+                    <input type="checkbox" checked={fillWithAi} onChange={e => setFillWithAi(e.target.checked)} className="accent-indigo-600" />
+                    <Sparkles className="w-4 h-4 text-amber-500" />
+                    用 {PROVIDER_LABELS[aiProvider]} 補全 {incompleteCount} 個詞彙缺少的粵拼、釋義、例句或記憶法 (只填空白欄位)
+                  </label>
+                )}
+              </div>
+
+              {error !== null && (
+                <div className="space-y-2">
+                  <AiErrorNotice error={error} onRetry={() => handleImport()} onDismiss={() => setError(null)} />
+                  <button onClick={() => handleImport(true)} className="text-sm text-indigo-600 hover:underline">不補全，直接匯入</button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {table && (
+          <div className="px-6 py-4 border-t border-slate-100 flex justify-end items-center gap-3">
+            {progress && <span className="text-xs text-slate-500">{progress}</span>}
+            <button onClick={() => handleImport()} disabled={isImporting || newRows.length === 0} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+              {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} 匯入 {newRows.length} 個詞彙
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
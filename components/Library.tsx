@@ -1,49 +1,74 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { VocabularyItem, WritingEntry, ClassicalEntry } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { VocabularyItem, WritingEntry, ClassicalEntry, ChatTranscript, QuizAttempt, AiProvider, PROVIDER_LABELS } from '../types';
 import { storageService } from '../services/storageService';
-import { Trash2, Eye, Search, Download, ChevronDown, ChevronUp, Upload, FileJson, Edit3, X, Check, Image, Maximize2, AlertTriangle } from 'lucide-react';
-
-type LibraryTab = 'vocabulary' | 'writing' | 'classical';
-
-export const Library: React.FC = () => {
+import { computeMastery, MASTERY_LABELS, MASTERY_STYLES } from '../services/masteryService';
+import { createAnkiPackage, createAnkiTsv } from '../services/ankiExportService';
+import { convertDeep, ensureDisplayScript, includesEitherScript, loadScriptConverter, toDisplayScript } from '../services/chineseScript';
+import { speechService } from '../services/speechService';
+import { ImportDialog } from './ImportDialog';
+import { RestoreDialog } from './RestoreDialog';
+import { BackupDialog } from './BackupDialog';
+import { PronunciationPractice } from './PronunciationPractice';
+import { Trash2, Eye, Search, Download, ChevronDown, ChevronUp, Upload, FileJson, Edit3, X, Check, Image, Maximize2, AlertTriangle, MessageCircle, Loader2, FileSpreadsheet, Mic } from 'lucide-react';
+import { PhoneticText } from './PhoneticText';
+
+type LibraryTab = 'vocabulary' | 'writing' | 'classical' | 'transcripts';
+
+interface LibraryProps {
+  aiProvider: AiProvider; // Used to fill missing fields when importing
+  onResumeTranscript?: (id: string) => void;
+}
+
+export const Library: React.FC<LibraryProps> = ({ aiProvider, onResumeTranscript }) => {
   const [activeTab, setActiveTab] = useState<LibraryTab>('vocabulary');
   
   const [items, setItems] = useState<VocabularyItem[]>([]);
   const [writingItems, setWritingItems] = useState<WritingEntry[]>([]);
   const [classicalItems, setClassicalItems] = useState<ClassicalEntry[]>([]); 
+  const [transcripts, setTranscripts] = useState<ChatTranscript[]>([]);
+  const [quizAttempts, setQuizAttempts] = useState<QuizAttempt[]>([]);
+  const mastery = useMemo(() => computeMastery(quizAttempts), [quizAttempts]);
   
   const [revealedCards, setRevealedCards] = useState<Set<number>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [tempTags, setTempTags] = useState('');
   const [expandedItem, setExpandedItem] = useState<Set<string>>(new Set());
+  const [isScriptSearchReady, setIsScriptSearchReady] = useState(false);
 
   // Focus Mode State
   const [focusItem, setFocusItem] = useState<VocabularyItem | null>(null);
+  const [isPracticing, setIsPracticing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{ data: unknown, fileName: string } | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => { loadData(); }, []);
 
+  // Matching across Traditional and Simplified needs the conversion tables; plain matching works meanwhile
+  useEffect(() => {
+    if (!searchTerm || isScriptSearchReady) return;
+    loadScriptConverter().then(() => setIsScriptSearchReady(true)).catch(e => console.warn("Could not load the Simplified Chinese tables", e));
+  }, [searchTerm, isScriptSearchReady]);
+
   const loadData = () => {
     setItems(storageService.getVocabulary());
     setWritingItems(storageService.getWritingLogs());
     setClassicalItems(storageService.getClassicalLogs());
+    setTranscripts(storageService.getTranscripts());
+    setQuizAttempts(storageService.getQuizAttempts());
   };
 
-  const handleBackupData = () => {
+  const handleBackupData = async (passphrase?: string) => {
     try {
-      const blob = storageService.createBackup();
-      const url = URL.createObjectURL(blob);
-      
-      const a = document.createElement('a'); 
-      a.href = url; 
-      a.download = `memoralink_chinese_sys_backup_${new Date().toISOString().slice(0,10)}.json`; 
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const blob = await storageService.createBackup(passphrase);
+      const profileName = storageService.getActiveProfile().name.replace(/[\\/:*?"<>|\s]+/g, '_');
+      downloadBlob(blob, `memoralink_chinese_sys_backup_${profileName}_${new Date().toISOString().slice(0,10)}${passphrase ? '_encrypted' : ''}.json`);
+      setShowBackup(false);
     } catch (e) {
       console.error("Backup failed", e);
       alert("備份失敗：資料量可能過大，導致瀏覽器無法生成檔案。");
@@ -59,23 +84,13 @@ export const Library: React.FC = () => {
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]; if (!file) return;
-    
-    // Pre-check file size (5MB limit is typical for localStorage)
-    if (file.size > 5 * 1024 * 1024) {
-       alert("⚠️ 警告：此備份檔案超過 5MB，超出瀏覽器儲存上限，無法還原。");
-       return;
-    }
 
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const result = e.target?.result as string;
-        const data = JSON.parse(result);
-        
-        storageService.restoreBackup(data);
-        loadData();
-        alert("資料已成功還原！");
-        
+        // Mode, conflict handling and the change preview are chosen in RestoreDialog
+        setPendingRestore({ data: JSON.parse(result), fileName: file.name });
       } catch (error: any) { 
         console.error(error);
         alert(error.message || "無效的備份檔案或檔案格式錯誤。"); 
@@ -85,10 +100,14 @@ export const Library: React.FC = () => {
   };
 
   // Clear All Data Logic
-  const handleClearAllData = () => {
-    if (confirm('⚠️ 警告：此動作將「永久刪除」所有詞彙卡、寫作紀錄及文言文解析資料。\n\n您確定要清空所有資料嗎？')) {
+  const handleClearAllData = async () => {
+    if (confirm(`⚠️ 警告：此動作將「永久刪除」學習者「${storageService.getActiveProfile().name}」的所有詞彙卡、寫作紀錄及文言文解析資料。\n\n只會清除此裝置上的資料；如已設定跨裝置同步，同步伺服器上的資料會保留。\n\n您確定要清空所有資料嗎？`)) {
         if (confirm('再次確認：刪除後無法復原。真的要全部刪除嗎？')) {
-            storageService.clearAllData();
+            try {
+                await storageService.clearAllData();
+            } catch (e: any) {
+                alert(e.message || "刪除資料時發生錯誤。");
+            }
             loadData();
             alert('所有資料已清除。');
         }
@@ -100,20 +119,20 @@ export const Library: React.FC = () => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (file.size > 500 * 1024) {
-      alert("為節省空間，圖片大小限制為 500KB 以下。建議先壓縮圖片。");
+    if (file.size > 2 * 1024 * 1024) {
+      alert("為節省空間，圖片大小限制為 2MB 以下。建議先壓縮圖片。");
       return;
     }
 
     const reader = new FileReader();
-    reader.onloadend = () => {
+    reader.onloadend = async () => {
       try {
           const base64 = reader.result as string;
           const newItems = [...items];
-          newItems[index].image = base64;
+          newItems[index] = { ...newItems[index], image: base64 };
           
-          storageService.saveVocabulary(newItems);
-          setItems(newItems);
+          await storageService.saveVocabulary(newItems);
+          setItems(storageService.getVocabulary());
       } catch (e: any) {
           alert(e.message || "儲存圖片時發生錯誤。");
       }
@@ -121,72 +140,90 @@ export const Library: React.FC = () => {
     reader.readAsDataURL(file);
   };
 
-  const handleDelete = (index: number, type: LibraryTab) => {
+  const handleDelete = async (index: number, type: LibraryTab) => {
     if (!confirm('確定刪除此項目？')) return;
     
-    if (type === 'vocabulary') {
-      const n = items.filter((_, i) => i !== index); 
-      storageService.saveVocabulary(n);
-      setItems(n);
-      if (focusItem && items[index] === focusItem) setFocusItem(null);
-    } else if (type === 'writing') {
-       const n = writingItems.filter((_, i) => i !== index); 
-       storageService.saveWritingLogs(n);
-       setWritingItems(n);
-    } else {
-       const n = classicalItems.filter((_, i) => i !== index); 
-       storageService.saveClassicalLogs(n);
-       setClassicalItems(n);
+    try {
+      if (type === 'vocabulary') {
+        const n = items.filter((_, i) => i !== index); 
+        setItems(n);
+        if (focusItem && items[index] === focusItem) setFocusItem(null);
+        await storageService.saveVocabulary(n);
+      } else if (type === 'writing') {
+         const n = writingItems.filter((_, i) => i !== index); 
+         setWritingItems(n);
+         await storageService.saveWritingLogs(n);
+      } else if (type === 'transcripts') {
+         const n = transcripts.filter((_, i) => i !== index); 
+         setTranscripts(n);
+         await storageService.saveTranscripts(n);
+      } else {
+         const n = classicalItems.filter((_, i) => i !== index); 
+         setClassicalItems(n);
+         await storageService.saveClassicalLogs(n);
+      }
+    } catch (e: any) {
+      alert(e.message || "刪除時發生錯誤。");
+      loadData();
     }
   };
 
   const startEditing = (index: number, tags: string[] = []) => { setEditingIndex(index); setTempTags(tags.join(', ')); };
-  const saveTags = (index: number) => {
+  const saveTags = async (index: number) => {
     const newItems = [...items];
-    newItems[index].tags = tempTags.split(',').map(t => t.trim()).filter(t => t.length > 0);
-    storageService.saveVocabulary(newItems);
+    newItems[index] = { ...newItems[index], tags: tempTags.split(',').map(t => t.trim()).filter(t => t.length > 0) };
     setItems(newItems);
     setEditingIndex(null);
+    try {
+      await storageService.saveVocabulary(newItems);
+    } catch (e: any) {
+      alert(e.message);
+      loadData();
+    }
   };
 
-  const handleExportCSV = () => {
-    if (items.length === 0) return;
-    let csvContent = "\uFEFF詞彙;釋義;翻譯/備註;記憶法;例句\n";
-    items.forEach(item => {
-      const clean = (s: string) => `"${(s || '').replace(/"/g, '""')}"`;
-      csvContent += `${clean(item.word)};${clean(item.definition)};${clean(item.chineseTranslation)};${clean(item.mnemonic)};${clean(item.exampleSentence)}\n`;
-    });
-    const link = document.createElement("a"); link.href = encodeURI("data:text/csv;charset=utf-8," + csvContent); link.download = "memoralink_chinese_vocab.csv"; link.click();
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
-  const handleSpeak = (text: string, lang: 'zh-CN' | 'zh-HK' = 'zh-HK') => {
-    if ('speechSynthesis' in window) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = lang; 
-
-      const voices = window.speechSynthesis.getVoices();
-      const targetVoice = voices.find(v => 
-        v.lang.replace('_', '-').toLowerCase() === lang.toLowerCase() || 
-        (lang === 'zh-HK' && (v.name.includes('Cantonese') || v.name.includes('Hong Kong')))
-      );
-
-      if (targetVoice) {
-        utterance.voice = targetVoice;
-      }
+  const handleExportAnki = async () => {
+    if (items.length === 0) return;
+    setIsExporting(true);
+    try {
+      await ensureDisplayScript();
+      downloadBlob(await createAnkiPackage(convertDeep(items, storageService.getDisplaySettings().script)), `memoralink_chinese_vocab_${new Date().toISOString().slice(0,10)}.apkg`);
+    } catch (e) {
+      console.error("Anki export failed", e);
+      alert("匯出 Anki 卡組失敗，請改用 TSV 格式。");
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-      window.speechSynthesis.speak(utterance);
+  const handleExportTSV = async () => {
+    if (items.length === 0) return;
+    try {
+      await ensureDisplayScript();
+    } catch (e) {
+      console.error("Could not load the Simplified Chinese tables", e);
+      alert("無法載入簡體轉換表，請連線後再試。");
+      return;
     }
+    downloadBlob(createAnkiTsv(convertDeep(items, storageService.getDisplaySettings().script)), "memoralink_chinese_vocab.txt");
   };
 
   const filteredVocab = items.filter(item => {
     if (!item) return false;
-    const s = searchTerm.toLowerCase();
-    const w = (item.word || '').toLowerCase();
-    const d = (item.definition || '').toLowerCase();
     const t = item.tags && Array.isArray(item.tags) ? item.tags : [];
     
-    return w.includes(s) || d.includes(s) || t.some(tag => (tag || '').toLowerCase().includes(s));
+    return includesEitherScript(item.word || '', searchTerm) || includesEitherScript(item.definition || '', searchTerm) || t.some(tag => includesEitherScript(tag || '', searchTerm));
   });
   
   const toggleExpand = (id: string) => { const n = new Set(expandedItem); if(n.has(id)) n.delete(id); else n.add(id); setExpandedItem(n); };
@@ -199,10 +236,16 @@ export const Library: React.FC = () => {
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <h2 className="text-2xl font-bold text-slate-900">我的資料庫</h2>
         <div className="flex flex-wrap gap-2">
-           <button onClick={handleBackupData} className="px-3 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 hover:bg-indigo-100 transition-colors"><FileJson className="w-4 h-4 inline mr-1" /> 備份</button>
+           <button onClick={() => setShowBackup(true)} className="px-3 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 hover:bg-indigo-100 transition-colors"><FileJson className="w-4 h-4 inline mr-1" /> 備份</button>
            <button onClick={handleRestoreClick} className="px-3 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 hover:bg-indigo-100 transition-colors"><Upload className="w-4 h-4 inline mr-1" /> 還原</button>
            <button onClick={handleClearAllData} className="px-3 py-2 bg-red-50 text-red-600 rounded-lg text-xs font-bold border border-red-200 hover:bg-red-100 hover:text-red-700 transition-colors"><Trash2 className="w-4 h-4 inline mr-1" /> 全部刪除</button>
-           {activeTab === 'vocabulary' && <button onClick={handleExportCSV} className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold hover:bg-slate-200 transition-colors"><Download className="w-4 h-4 inline mr-1" /> CSV</button>}
+           {activeTab === 'vocabulary' && (
+             <>
+               <button onClick={() => setShowImport(true)} title="由 CSV / TSV / 試算表匯入詞彙" className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold hover:bg-slate-200 transition-colors"><FileSpreadsheet className="w-4 h-4 inline mr-1" /> 匯入</button>
+               <button onClick={handleExportAnki} disabled={isExporting || items.length === 0} title="匯出 Anki 卡組 (連圖片)" className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold hover:bg-slate-200 transition-colors disabled:opacity-50">{isExporting ? <Loader2 className="w-4 h-4 inline mr-1 animate-spin" /> : <Download className="w-4 h-4 inline mr-1" />} Anki</button>
+               <button onClick={handleExportTSV} disabled={items.length === 0} title="Anki 純文字格式 (Tab 分隔，不含圖片)" className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold hover:bg-slate-200 transition-colors disabled:opacity-50"><Download className="w-4 h-4 inline mr-1" /> TSV</button>
+             </>
+           )}
         </div>
       </div>
 
@@ -211,6 +254,7 @@ export const Library: React.FC = () => {
          <button onClick={() => setActiveTab('vocabulary')} className={`px-6 py-3 font-medium text-sm border-b-2 whitespace-nowrap ${activeTab === 'vocabulary' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500'}`}>詞彙卡 ({items.length})</button>
          <button onClick={() => setActiveTab('classical')} className={`px-6 py-3 font-medium text-sm border-b-2 whitespace-nowrap ${activeTab === 'classical' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500'}`}>文言文解析 ({classicalItems.length})</button>
          <button onClick={() => setActiveTab('writing')} className={`px-6 py-3 font-medium text-sm border-b-2 whitespace-nowrap ${activeTab === 'writing' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500'}`}>寫作紀錄 ({writingItems.length})</button>
+         <button onClick={() => setActiveTab('transcripts')} className={`px-6 py-3 font-medium text-sm border-b-2 whitespace-nowrap ${activeTab === 'transcripts' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500'}`}>對話紀錄 ({transcripts.length})</button>
       </div>
 
       {/* Vocabulary Tab */}
@@ -232,14 +276,18 @@ export const Library: React.FC = () => {
                 <div className="flex justify-between items-start">
                   <div>
                     <div className="flex items-center gap-2 mb-1">
-                         <h3 className="text-lg font-bold">{item.word}</h3>
+                         <h3 className="text-lg font-bold">{toDisplayScript(item.word)}</h3>
+                         {mastery.has(item.word) && (() => {
+                           const m = mastery.get(item.word)!;
+                           return <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${MASTERY_STYLES[m.level]}`} title={`測驗 ${m.attempts} 次，最近一次 ${m.lastScore} 分`}>{MASTERY_LABELS[m.level]} {m.score}</span>;
+                         })()}
                     </div>
                     {/* Speak Buttons */}
                     <div className="flex gap-1 mb-1">
-                        <button onClick={(e) => { e.stopPropagation(); handleSpeak(item.word, 'zh-HK'); }} className="text-[10px] px-1.5 py-0.5 bg-slate-100 hover:bg-indigo-100 text-slate-600 hover:text-indigo-600 rounded border border-slate-200 transition-colors">粵</button>
-                        <button onClick={(e) => { e.stopPropagation(); handleSpeak(item.word, 'zh-CN'); }} className="text-[10px] px-1.5 py-0.5 bg-slate-100 hover:bg-indigo-100 text-slate-600 hover:text-indigo-600 rounded border border-slate-200 transition-colors">普</button>
+                        <button onClick={(e) => { e.stopPropagation(); speechService.speak(item.word, 'zh-HK'); }} className="text-[10px] px-1.5 py-0.5 bg-slate-100 hover:bg-indigo-100 text-slate-600 hover:text-indigo-600 rounded border border-slate-200 transition-colors">粵</button>
+                        <button onClick={(e) => { e.stopPropagation(); speechService.speak(item.word, 'zh-CN'); }} className="text-[10px] px-1.5 py-0.5 bg-slate-100 hover:bg-indigo-100 text-slate-600 hover:text-indigo-600 rounded border border-slate-200 transition-colors">普</button>
                     </div>
-                    <span className="text-xs text-slate-500 font-mono block">{item.phonetic}</span>
+                    <PhoneticText jyutping={item.jyutping} pinyin={item.pinyin} word={item.word} className="text-xs text-slate-500 font-mono" />
                   </div>
                   <div className="flex gap-1">
                      <button onClick={() => setFocusItem(item)} className="p-1.5 text-slate-400 hover:text-indigo-600 transition-colors" title="專注模式"><Maximize2 className="w-4 h-4" /></button>
@@ -275,10 +323,10 @@ export const Library: React.FC = () => {
                 </div>
 
                 {/* Mnemonic - Always visible */}
-                <div className="bg-amber-50 p-2 rounded text-xs italic text-amber-900 border border-amber-100">"{item.mnemonic}"</div>
+                <div className="bg-amber-50 p-2 rounded text-xs italic text-amber-900 border border-amber-100">"{toDisplayScript(item.mnemonic)}"</div>
                 
                 {/* Revealable Content */}
-                {revealedCards.has(index) && (<div className="text-sm space-y-1 animate-in fade-in"><p>{item.definition}</p><p className="text-indigo-700 bg-indigo-50 p-1.5 rounded text-xs border-l-2 border-indigo-400">"{item.exampleSentence}"</p></div>)}
+                {revealedCards.has(index) && (<div className="text-sm space-y-1 animate-in fade-in"><p>{toDisplayScript(item.definition)}</p><p className="text-indigo-700 bg-indigo-50 p-1.5 rounded text-xs border-l-2 border-indigo-400">"{toDisplayScript(item.exampleSentence)}"</p></div>)}
               </div>
             ))}
           </div>
@@ -308,8 +356,8 @@ export const Library: React.FC = () => {
                         <div className="flex items-center gap-2 mb-1">
                             <p className="text-xs font-bold text-slate-500">原文</p>
                             <div className="flex gap-1 ml-2">
-                                <button onClick={(e) => { e.stopPropagation(); handleSpeak(entry.originalText, 'zh-HK'); }} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">粵</button>
-                                <button onClick={(e) => { e.stopPropagation(); handleSpeak(entry.originalText, 'zh-CN'); }} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">普</button>
+                                <button onClick={(e) => { e.stopPropagation(); speechService.speak(entry.originalText, 'zh-HK'); }} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">粵</button>
+                                <button onClick={(e) => { e.stopPropagation(); speechService.speak(entry.originalText, 'zh-CN'); }} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">普</button>
                             </div>
                         </div>
                         <p className="text-sm font-serif text-slate-800 leading-relaxed">{entry.originalText}</p>
@@ -353,6 +401,58 @@ export const Library: React.FC = () => {
         </div>
       )}
 
+      {activeTab === 'transcripts' && (
+        <div className="space-y-4">
+           {transcripts.length === 0 && <div className="text-center text-slate-500 py-12 bg-slate-50 rounded-2xl border border-dashed border-slate-300">暫無對話紀錄，去「口語教練」練習吧！</div>}
+           {transcripts.map((entry, idx) => (
+             <div key={entry.id} className="bg-white rounded-xl p-4 border shadow-sm">
+                <div className="flex justify-between items-center cursor-pointer" onClick={() => toggleExpand(entry.id)}>
+                   <div className="flex-1 mr-4">
+                     <div className="flex items-center gap-2">
+                       <span className="text-xs font-bold bg-indigo-100 text-indigo-800 px-2 py-0.5 rounded">{entry.scenarioTitle}</span>
+                       <span className="text-[10px] text-slate-400">{PROVIDER_LABELS[entry.provider]}</span>
+                     </div>
+                     <p className="text-sm font-medium mt-1 text-slate-600">{new Date(entry.date).toLocaleString()} · {entry.messages.filter(m => m.role === 'user').length} 次發言</p>
+                   </div>
+                   {onResumeTranscript && (
+                     <button onClick={(e) => { e.stopPropagation(); onResumeTranscript(entry.id); }} className="mr-1 px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold hover:bg-indigo-100 transition-colors flex items-center gap-1"><MessageCircle className="w-3 h-3" /> 繼續對話</button>
+                   )}
+                   <button onClick={(e) => { e.stopPropagation(); handleDelete(idx, 'transcripts'); }} className="text-slate-400 hover:text-red-500 p-2"><Trash2 className="w-4 h-4" /></button>
+                   {expandedItem.has(entry.id) ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+                </div>
+                {expandedItem.has(entry.id) && (
+                  <div className="mt-4 pt-4 border-t space-y-2 bg-slate-50 p-3 rounded max-h-96 overflow-y-auto">
+                     {entry.messages.map(msg => (
+                       <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                         <p className={`max-w-[80%] px-3 py-2 rounded-xl text-sm whitespace-pre-wrap ${msg.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-white border text-slate-800'}`}>{msg.text}</p>
+                       </div>
+                     ))}
+                  </div>
+                )}
+             </div>
+           ))}
+        </div>
+      )}
+
+      {showBackup && <BackupDialog onClose={() => setShowBackup(false)} onCreate={handleBackupData} />}
+
+      {pendingRestore && (
+        <RestoreDialog
+          backup={pendingRestore.data}
+          fileName={pendingRestore.fileName}
+          onClose={() => setPendingRestore(null)}
+          onRestored={() => { setPendingRestore(null); loadData(); alert("資料已成功還原！"); }}
+        />
+      )}
+
+      {showImport && (
+        <ImportDialog
+          aiProvider={aiProvider}
+          onClose={() => setShowImport(false)}
+          onImported={(count) => { setShowImport(false); loadData(); alert(`已匯入 ${count} 個詞彙。`); }}
+        />
+      )}
+
       {/* Focus Mode Modal */}
       {focusItem && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4 animate-in fade-in">
@@ -379,30 +479,37 @@ export const Library: React.FC = () => {
              {/* Right: Info (1/3) */}
              <div className="md:w-1/3 p-8 overflow-y-auto bg-white flex flex-col gap-6 border-l border-slate-100">
                 <div>
-                   <h2 className="text-4xl font-bold text-slate-900 mb-2">{focusItem.word}</h2>
+                   <h2 className="text-4xl font-bold text-slate-900 mb-2">{toDisplayScript(focusItem.word)}</h2>
                    <div className="flex items-center gap-3">
-                      <span className="text-lg text-slate-500 font-mono bg-slate-100 px-2 py-0.5 rounded">{focusItem.phonetic}</span>
+                      <PhoneticText jyutping={focusItem.jyutping} pinyin={focusItem.pinyin} word={focusItem.word} className="text-lg text-slate-500 font-mono bg-slate-100 px-2 py-0.5 rounded" />
                       <div className="flex gap-2">
-                         <button onClick={() => handleSpeak(focusItem.word, 'zh-HK')} className="px-3 py-1 bg-indigo-50 text-indigo-600 rounded-full hover:bg-indigo-100 transition-colors text-xs font-bold">粵語</button>
-                         <button onClick={() => handleSpeak(focusItem.word, 'zh-CN')} className="px-3 py-1 bg-slate-50 text-slate-600 rounded-full hover:bg-slate-100 transition-colors text-xs font-bold">普通話</button>
+                         <button onClick={() => speechService.speak(focusItem.word, 'zh-HK')} className="px-3 py-1 bg-indigo-50 text-indigo-600 rounded-full hover:bg-indigo-100 transition-colors text-xs font-bold">粵語</button>
+                         <button onClick={() => speechService.speak(focusItem.word, 'zh-CN')} className="px-3 py-1 bg-slate-50 text-slate-600 rounded-full hover:bg-slate-100 transition-colors text-xs font-bold">普通話</button>
                       </div>
                    </div>
                 </div>
 
                 <div className="space-y-2">
                    <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">解釋</span>
-                   <p className="text-lg text-slate-800 leading-relaxed">{focusItem.definition}</p>
-                   {focusItem.chineseTranslation && <p className="text-slate-500">{focusItem.chineseTranslation}</p>}
+                   <p className="text-lg text-slate-800 leading-relaxed">{toDisplayScript(focusItem.definition)}</p>
+                   {focusItem.chineseTranslation && <p className="text-slate-500">{toDisplayScript(focusItem.chineseTranslation)}</p>}
                 </div>
 
                 <div className="bg-amber-50 p-4 rounded-xl border border-amber-100">
                    <span className="text-xs font-bold text-amber-700 uppercase tracking-widest block mb-2">記憶聯想</span>
-                   <p className="text-amber-900 italic leading-relaxed text-lg">{focusItem.mnemonic}</p>
+                   <p className="text-amber-900 italic leading-relaxed text-lg">{toDisplayScript(focusItem.mnemonic)}</p>
                 </div>
 
                 <div className="space-y-2">
-                   <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">例句</span>
-                   <p className="text-indigo-900 bg-indigo-50 p-4 rounded-xl border-l-4 border-indigo-400 italic">"{focusItem.exampleSentence}"</p>
+                   <div className="flex items-center justify-between">
+                      <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">例句</span>
+                      {focusItem.exampleSentence && (
+                        <button onClick={() => setIsPracticing(true)} className="px-3 py-1 bg-indigo-50 text-indigo-600 rounded-full hover:bg-indigo-100 transition-colors text-xs font-bold flex items-center gap-1">
+                          <Mic className="w-3 h-3" /> 跟讀{focusItem.pronunciation && ` · 最佳 ${focusItem.pronunciation.bestScore}%`}
+                        </button>
+                      )}
+                   </div>
+                   <p className="text-indigo-900 bg-indigo-50 p-4 rounded-xl border-l-4 border-indigo-400 italic">"{toDisplayScript(focusItem.exampleSentence)}"</p>
                 </div>
                 
                 <div className="flex flex-wrap gap-2 pt-4 mt-auto border-t border-slate-100">
@@ -414,6 +521,15 @@ export const Library: React.FC = () => {
           </div>
         </div>
       )}
+
+      {focusItem && isPracticing && (
+        <PronunciationPractice
+          target={focusItem.exampleSentence}
+          word={focusItem.word}
+          onClose={() => setIsPracticing(false)}
+          onRecorded={(pronunciation) => { setFocusItem(prev => prev && { ...prev, pronunciation }); loadData(); }}
+        />
+      )}
     </div>
   );
 };
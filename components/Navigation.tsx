@@ -1,19 +1,26 @@
 
-import React from 'react';
-import { AppView } from '../types';
-import { BookOpen, PenTool, MessageCircle, LayoutDashboard, Library, BrainCircuit, ScrollText } from 'lucide-react';
+import React, { useState } from 'react';
+import { AppView, LearnerProfile } from '../types';
+import { BookOpen, PenTool, MessageCircle, LayoutDashboard, Library, BrainCircuit, ScrollText, Repeat, ChevronsUpDown, Users, Check } from 'lucide-react';
 
 interface NavigationProps {
   currentView: AppView;
   setView: (view: AppView) => void;
+  profiles: LearnerProfile[];
+  activeProfile: LearnerProfile;
+  onSwitchProfile: (id: string) => void;
+  onManageProfiles: () => void;
 }
 
-export const Navigation: React.FC<NavigationProps> = ({ currentView, setView }) => {
+export const Navigation: React.FC<NavigationProps> = ({ currentView, setView, profiles, activeProfile, onSwitchProfile, onManageProfiles }) => {
+  const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
+
   const navItems = [
     { id: AppView.DASHBOARD, label: '學習主頁', icon: LayoutDashboard },
     { id: AppView.CLASSICAL, label: '文言文解析', icon: ScrollText },
     { id: AppView.VOCABULARY, label: '詞彙生成', icon: BookOpen },
     { id: AppView.LIBRARY, label: '我的資料庫', icon: Library },
+    { id: AppView.REVIEW, label: '記憶複習', icon: Repeat },
     { id: AppView.WRITING, label: '寫作修飾', icon: PenTool },
     { id: AppView.SPEAKING, label: '口語教練', icon: MessageCircle },
     { id: AppView.QUIZ, label: '情境測驗', icon: BrainCircuit },
@@ -29,6 +36,42 @@ export const Navigation: React.FC<NavigationProps> = ({ currentView, setView })
             <span className="text-[10px] text-slate-500 uppercase tracking-widest">MemoraLink</span>
           </div>
         </div>
+
+        {/* Profile switcher: last item of the bottom bar on mobile, under the logo on desktop */}
+        <div className="relative order-last md:order-none md:mb-4">
+          <button
+            onClick={() => setIsProfileMenuOpen(!isProfileMenuOpen)}
+            className="flex flex-col md:flex-row items-center md:gap-3 p-2 md:px-3 md:py-2 md:w-full rounded-xl text-slate-500 md:text-slate-700 md:border md:border-slate-200 hover:bg-slate-50 transition-colors"
+          >
+            <Users className="w-6 h-6 md:hidden stroke-1.5" />
+            <span className="hidden md:flex w-7 h-7 shrink-0 rounded-full bg-indigo-600 text-white text-xs font-bold items-center justify-center">{activeProfile.name.slice(0, 1)}</span>
+            <span className="text-xs md:text-sm md:font-medium truncate max-w-[4.5rem] md:max-w-none md:flex-1 md:text-left">{activeProfile.name}</span>
+            <ChevronsUpDown className="hidden md:block w-4 h-4 text-slate-400" />
+          </button>
+          {isProfileMenuOpen && (
+            <>
+              <div className="fixed inset-0 z-10" onClick={() => setIsProfileMenuOpen(false)} />
+              <div className="absolute z-20 right-0 bottom-full mb-2 md:right-auto md:left-0 md:bottom-auto md:top-full md:mt-1 md:mb-0 w-56 bg-white rounded-xl shadow-xl border border-slate-200 py-1 animate-in fade-in">
+                {profiles.map(profile => (
+                  <button
+                    key={profile.id}
+                    onClick={() => { setIsProfileMenuOpen(false); if (profile.id !== activeProfile.id) onSwitchProfile(profile.id); }}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-slate-700 hover:bg-slate-50"
+                  >
+                    <span className="flex-1 truncate">{profile.name}</span>
+                    {profile.id === activeProfile.id && <Check className="w-4 h-4 text-indigo-600" />}
+                  </button>
+                ))}
+                <button
+                  onClick={() => { setIsProfileMenuOpen(false); onManageProfiles(); }}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-indigo-600 border-t border-slate-100 hover:bg-indigo-50"
+                >
+                  <Users className="w-4 h-4" /> 管理學習者…
+                </button>
+              </div>
+            </>
+          )}
+        </div>
         
         {navItems.map((item) => {
           const Icon = item.icon;
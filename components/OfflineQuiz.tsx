@@ -0,0 +1,205 @@
+
+import React, { useState } from 'react';
+import { VocabularyItem, OfflineQuizType, QuizAttempt, WordMastery } from '../types';
+import { buildOfflineQuiz, countAskable, shuffle, OfflineQuestion, OFFLINE_QUIZ_LABELS, OFFLINE_QUIZ_TYPES, MIN_OFFLINE_CARDS } from '../services/offlineQuizService';
+import { suggestQuizWords } from '../services/masteryService';
+import { storageService } from '../services/storageService';
+import { formatPhonetic } from '../services/jyutping';
+import { toDisplayScript } from '../services/chineseScript';
+import { WifiOff, CheckCircle2, XCircle, ArrowRight, RefreshCw, Trophy } from 'lucide-react';
+import { PhoneticText } from './PhoneticText';
+
+interface OfflineQuizProps {
+  library: VocabularyItem[];
+  mastery: Map<string, WordMastery>;
+  onComplete: (attempt: QuizAttempt) => void;
+}
+
+const QUESTION_COUNTS = [5, 10, 20];
+const MODES: (OfflineQuizType | 'mixed')[] = ['mixed', ...OFFLINE_QUIZ_TYPES];
+
+const PROMPT_TITLES: Record<OfflineQuizType, string> = {
+  definition: '這個詞語是甚麼意思？',
+  jyutping: '這個粵拼是哪個詞語？',
+  reverse: '哪個詞語符合這個解釋？',
+  cloze: '選出最適合填入空格的詞語'
+};
+
+export const OfflineQuiz: React.FC<OfflineQuizProps> = ({ library, mastery, onComplete }) => {
+  const [mode, setMode] = useState<OfflineQuizType | 'mixed'>('mixed');
+  const [questionCount, setQuestionCount] = useState(10);
+  const [questions, setQuestions] = useState<OfflineQuestion[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [chosen, setChosen] = useState<number | null>(null);
+  const [answers, setAnswers] = useState<boolean[]>([]);
+  const [isFinished, setIsFinished] = useState(false);
+
+  const startRound = () => {
+    // Shuffle first so cards with equal priority come up in a different order each round
+    const targets = suggestQuizWords(shuffle(library), mastery, library.length);
+    const round = buildOfflineQuiz(targets, library, mode, questionCount);
+    if (round.length === 0) {
+      alert('沒有足夠資料的詞彙卡可用於此題型。');
+      return;
+    }
+    setQuestions(round);
+    setCurrent(0);
+    setChosen(null);
+    setAnswers([]);
+    setIsFinished(false);
+  };
+
+  const handleChoose = (index: number) => {
+    if (chosen !== null) return;
+    setChosen(index);
+    setAnswers(prev => [...prev, index === questions[current].answerIndex]);
+  };
+
+  const handleNext = () => {
+    if (current + 1 < questions.length) {
+      setCurrent(current + 1);
+      setChosen(null);
+      return;
+    }
+
+    const correct = answers.filter(Boolean).length;
+    const wordScores: Record<string, number> = {};
+    questions.forEach((q, i) => { wordScores[q.item.word] = answers[i] ? 100 : 0; });
+    onComplete({
+      id: Date.now().toString(),
+      date: new Date().toISOString(),
+      mode,
+      words: questions.map(q => q.item.word),
+      scenario: `離線練習：${OFFLINE_QUIZ_LABELS[mode]}`,
+      answer: `答對 ${correct} / ${questions.length} 題`,
+      wordScores,
+      score: Math.round(correct / questions.length * 100)
+    });
+    setIsFinished(true);
+  };
+
+  if (library.length < MIN_OFFLINE_CARDS) {
+    return (
+      <div className="p-8 text-center bg-slate-50 rounded-xl border border-dashed border-slate-300">
+        <WifiOff className="w-10 h-10 mx-auto text-slate-300 mb-2" />
+        <p className="text-slate-500">離線練習需要最少 {MIN_OFFLINE_CARDS} 張詞彙卡，才能產生干擾選項。</p>
+      </div>
+    );
+  }
+
+  // Setup screen
+  if (questions.length === 0) {
+    return (
+      <div className="bg-white p-6 rounded-2xl shadow-sm border space-y-6">
+        <div>
+          <h3 className="font-bold flex items-center gap-2"><WifiOff className="w-4 h-4 text-slate-500" /> 離線練習</h3>
+          <p className="text-sm text-slate-500 mt-1">題目全部由你的詞彙卡生成，毋須網絡。待加強的詞彙會優先出現。</p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          {MODES.map(m => {
+            const available = countAskable(library, m);
+            return (
+              <button key={m} onClick={() => setMode(m)} disabled={available === 0} className={`p-3 rounded-xl border text-sm font-bold transition-all disabled:opacity-40 ${mode === m ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 hover:border-indigo-300'}`}>
+                {OFFLINE_QUIZ_LABELS[m]}
+                <span className="block text-[10px] font-normal opacity-70">{available} 張可用</span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-slate-600">題數：</span>
+          {QUESTION_COUNTS.map(n => (
+            <button key={n} onClick={() => setQuestionCount(n)} className={`px-3 py-1 rounded-lg border ${questionCount === n ? 'bg-indigo-50 border-indigo-300 text-indigo-700 font-bold' : 'bg-white text-slate-600'}`}>{n}</button>
+          ))}
+        </div>
+
+        <button onClick={startRound} className="w-full py-3 bg-indigo-600 text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-all hover:bg-indigo-700">
+          <ArrowRight className="w-5 h-5" /> 開始練習
+        </button>
+      </div>
+    );
+  }
+
+  if (isFinished) {
+    const correct = answers.filter(Boolean).length;
+    const missed = questions.filter((_, i) => !answers[i]);
+    return (
+      <div className="bg-white p-6 rounded-2xl shadow-sm border space-y-6 animate-in fade-in">
+        <div className="text-center space-y-2">
+          <Trophy className="w-12 h-12 text-amber-400 mx-auto" />
+          <p className="text-3xl font-bold text-slate-900">{correct} / {questions.length}</p>
+          <p className="text-slate-500 text-sm">{OFFLINE_QUIZ_LABELS[mode]} · 結果已計入詞彙掌握度</p>
+        </div>
+
+        {missed.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-xs font-bold text-red-600 uppercase">答錯的詞彙</h4>
+            {missed.map(q => (
+              <div key={q.id} className="p-3 bg-red-50 rounded-lg border border-red-100 text-sm">
+                <span className="font-bold text-slate-900 mr-2">{toDisplayScript(q.item.word)}</span>
+                <PhoneticText jyutping={q.item.jyutping} pinyin={q.item.pinyin} word={q.item.word} className="text-xs text-slate-500 font-mono mr-2" />
+                <span className="text-slate-600">{toDisplayScript(q.item.definition)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={() => setQuestions([])} className="px-4 py-2 border rounded-xl hover:bg-slate-50 transition-colors">更改題型</button>
+          <button onClick={startRound} className="flex-1 py-3 bg-indigo-600 text-white font-bold rounded-xl flex items-center justify-center gap-2 hover:bg-indigo-700"><RefreshCw className="w-4 h-4" /> 再練一次</button>
+        </div>
+      </div>
+    );
+  }
+
+  const question = questions[current];
+  return (
+    <div className="space-y-4 animate-in fade-in">
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>{OFFLINE_QUIZ_LABELS[question.type]}</span>
+        <span>第 {current + 1} / {questions.length} 題 · 答對 {answers.filter(Boolean).length}</span>
+      </div>
+      <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(current / questions.length) * 100}%` }} />
+      </div>
+
+      <div className="bg-indigo-900 text-white p-6 rounded-2xl shadow-xl space-y-2">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-indigo-300">{PROMPT_TITLES[question.type]}</span>
+        <p className={`${question.type === 'definition' ? 'text-3xl font-bold' : question.type === 'jyutping' ? 'text-2xl font-mono' : 'text-lg'} leading-relaxed`}>{question.type === 'jyutping' ? formatPhonetic(question.prompt, storageService.getDisplaySettings().phoneticStyle) : question.prompt}</p>
+      </div>
+
+      <div className="grid gap-2">
+        {question.options.map((option, i) => {
+          const isAnswer = i === question.answerIndex;
+          const style = chosen === null
+            ? 'bg-white hover:border-indigo-300'
+            : isAnswer ? 'bg-emerald-50 border-emerald-400 text-emerald-800' : i === chosen ? 'bg-red-50 border-red-300 text-red-700' : 'bg-white opacity-60';
+          return (
+            <button key={i} onClick={() => handleChoose(i)} disabled={chosen !== null} className={`p-4 rounded-xl border text-left transition-all flex items-center gap-3 ${style}`}>
+              <span className="text-xs font-bold text-slate-400">{String.fromCharCode(65 + i)}</span>
+              <span className="flex-1">{option}</span>
+              {chosen !== null && isAnswer && <CheckCircle2 className="w-5 h-5 text-emerald-500" />}
+              {chosen === i && !isAnswer && <XCircle className="w-5 h-5 text-red-500" />}
+            </button>
+          );
+        })}
+      </div>
+
+      {chosen !== null && (
+        <div className="bg-white p-4 rounded-xl border space-y-2 animate-in fade-in">
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-slate-900">{toDisplayScript(question.item.word)}</span>
+            <PhoneticText jyutping={question.item.jyutping} pinyin={question.item.pinyin} word={question.item.word} className="text-xs text-slate-500 font-mono bg-slate-100 px-1 rounded" />
+          </div>
+          <p className="text-sm text-slate-600">{toDisplayScript(question.item.definition)}</p>
+          {question.item.exampleSentence && <p className="text-xs text-indigo-800 bg-indigo-50 p-2 rounded border-l-2 border-indigo-400">{toDisplayScript(question.item.exampleSentence)}</p>}
+          <button onClick={handleNext} className="w-full mt-2 py-2.5 bg-indigo-600 text-white font-bold rounded-xl flex items-center justify-center gap-2 hover:bg-indigo-700">
+            {current + 1 < questions.length ? <>下一題 <ArrowRight className="w-4 h-4" /></> : '查看結果'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
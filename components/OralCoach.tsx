@@ -1,8 +1,10 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { createChatSession, ChatSession } from '../services/geminiService';
-import { Mic, MicOff, Send, Sparkles, ArrowRight } from 'lucide-react';
-import { AiProvider } from '../types';
+import { storageService } from '../services/storageService';
+import { Mic, MicOff, Send, Sparkles, ArrowRight, Square, History } from 'lucide-react';
+import { AiProvider, ChatMessage, ChatTranscript } from '../types';
+import { AiErrorNotice } from './AiErrorNotice';
 
 const SCENARIOS = [
   { id: 'interview', title: '求職面試 (Interview)', prompt: "你是一位嚴格但專業的面試官。請針對用戶的應徵職位（假設為行政人員）進行提問。一次問一題。" },
@@ -11,30 +13,41 @@ const SCENARIOS = [
   { id: 'custom', title: '自訂場景', prompt: "" },
 ];
 
-interface Message {
-  id: string;
-  role: 'user' | 'model';
-  text: string;
-}
-
 interface OralCoachProps {
   aiProvider: AiProvider;
+  resumeTranscriptId?: string | null; // Set when the user picks "繼續對話" in the Library
 }
 
-export const OralCoach: React.FC<OralCoachProps> = ({ aiProvider }) => {
-  const [activeScenario, setActiveScenario] = useState(SCENARIOS[0]);
-  const [messages, setMessages] = useState<Message[]>([]);
+export const OralCoach: React.FC<OralCoachProps> = ({ aiProvider, resumeTranscriptId }) => {
+  const [resumeFrom, setResumeFrom] = useState<ChatTranscript | null>(() =>
+    resumeTranscriptId ? storageService.getTranscripts().find(t => t.id === resumeTranscriptId) || null : null
+  );
+  const [activeScenario, setActiveScenario] = useState(() => SCENARIOS.find(s => s.id === resumeFrom?.scenarioId) || SCENARIOS[0]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [customTopic, setCustomTopic] = useState('');
-  const [customSessionStarted, setCustomSessionStarted] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [customTopic, setCustomTopic] = useState(() => resumeFrom?.scenarioId === 'custom' ? resumeFrom.scenarioTitle : '');
+  const [customSessionStarted, setCustomSessionStarted] = useState(() => resumeFrom?.scenarioId === 'custom');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatSessionRef = useRef<ChatSession | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Identity of the transcript being recorded for the current session
+  const transcriptRef = useRef<Omit<ChatTranscript, 'messages' | 'provider'> | null>(null);
 
   useEffect(() => {
     if (activeScenario.id === 'custom' && !customSessionStarted) return;
 
+    if (resumeFrom) {
+      // Re-read so a provider switch after resuming keeps the turns saved since then
+      const latest = storageService.getTranscripts().find(t => t.id === resumeFrom.id) || resumeFrom;
+      transcriptRef.current = { id: latest.id, scenarioId: latest.scenarioId, scenarioTitle: latest.scenarioTitle, systemPrompt: latest.systemPrompt, date: latest.date };
+      chatSessionRef.current = createChatSession(aiProvider, latest.systemPrompt, latest.messages);
+      setMessages(latest.messages);
+      return () => abortRef.current?.abort();
+    }
+
     let prompt = activeScenario.prompt;
     let title = activeScenario.title;
 
@@ -45,23 +58,52 @@ export const OralCoach: React.FC<OralCoachProps> = ({ aiProvider }) => {
 
     const systemPrompt = prompt + " 重要：如果用戶的語法不通順或用詞不當，請在回應最後用括號 (建議：...) 輕微修正。保持對話簡短。";
     chatSessionRef.current = createChatSession(aiProvider, systemPrompt);
+    transcriptRef.current = { id: Date.now().toString(), scenarioId: activeScenario.id, scenarioTitle: title, systemPrompt, date: new Date().toISOString() };
     setMessages([{ id: 'init', role: 'model', text: `(場景: ${title}) 你好，我們開始吧！` }]);
-  }, [activeScenario, aiProvider, customSessionStarted]); 
+
+    // Stop any reply still streaming from the previous session
+    return () => abortRef.current?.abort();
+  }, [activeScenario, aiProvider, customSessionStarted, resumeFrom]); 
 
   useEffect(() => { messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [messages]);
 
+  // Save the transcript after every completed exchange
+  useEffect(() => {
+    if (isLoading || !transcriptRef.current || !messages.some(m => m.role === 'user')) return;
+    storageService.upsertTranscript({ ...transcriptRef.current, provider: aiProvider, messages })
+      .catch(e => console.error("Saving transcript failed", e));
+  }, [messages, isLoading]);
+
   const handleSend = async () => {
-    if (!input.trim() || !chatSessionRef.current) return;
-    const userMsg: Message = { id: Date.now().toString(), role: 'user', text: input };
-    setMessages(prev => [...prev, userMsg]);
+    if (!input.trim() || !chatSessionRef.current || isLoading) return;
+    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text: input };
+    const replyId = (Date.now() + 1).toString();
+    // Empty placeholder that fills up as tokens stream in
+    setMessages(prev => [...prev, userMsg, { id: replyId, role: 'model', text: '' }]);
     setInput('');
     setIsLoading(true);
+    setError(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      const responseText = await chatSessionRef.current.sendMessage(userMsg.text);
-      setMessages(prev => [...prev, { id: (Date.now() + 1).toString(), role: 'model', text: responseText }]);
-    } catch (error) { alert("發送失敗，請檢查網絡。"); } finally { setIsLoading(false); }
+      const responseText = await chatSessionRef.current.sendMessageStream(userMsg.text, (chunk) => {
+        setMessages(prev => prev.map(m => m.id === replyId ? { ...m, text: m.text + chunk } : m));
+      }, controller.signal);
+      if (controller.signal.aborted) {
+        setMessages(prev => prev.map(m => m.id === replyId ? { ...m, text: `${responseText} (已中止)`.trim() } : m));
+      }
+    } catch (e) {
+      setMessages(prev => prev.filter(m => m.id !== replyId || m.text));
+      setError(e);
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
   };
 
+  const handleCancel = () => { abortRef.current?.abort(); };
+
   const toggleMic = () => {
     if (!('webkitSpeechRecognition' in window)) { alert("請使用 Chrome 瀏覽器以支援語音功能。"); return; }
     if (isListening) { setIsListening(false); return; }
@@ -74,16 +116,20 @@ export const OralCoach: React.FC<OralCoachProps> = ({ aiProvider }) => {
     recognition.start();
   };
 
-  const handleStartCustom = () => { if (!customTopic.trim()) return; setMessages([]); setCustomSessionStarted(true); };
+  const handleStartCustom = () => { if (!customTopic.trim()) return; setMessages([]); setResumeFrom(null); setCustomSessionStarted(true); };
   const handleScenarioChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const selected = SCENARIOS.find(s => s.id === e.target.value);
-    if (selected) { setActiveScenario(selected); setMessages([]); setCustomSessionStarted(false); }
+    if (selected) { setActiveScenario(selected); setMessages([]); setResumeFrom(null); setCustomSessionStarted(false); }
   };
 
   return (
     <div className="max-w-4xl mx-auto md:p-8 h-[calc(100vh-80px)] md:h-screen flex flex-col space-y-4 bg-slate-900 rounded-none md:rounded-3xl">
        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 p-4 md:p-0">
-        <div><h2 className="text-2xl font-bold text-white">口語教練</h2><p className="text-slate-300 text-sm">模擬面試與職場對話。</p></div>
+        <div>
+          <h2 className="text-2xl font-bold text-white">口語教練</h2>
+          <p className="text-slate-300 text-sm">模擬面試與職場對話。對話會自動儲存至「我的資料庫 › 對話紀錄」。</p>
+          {resumeFrom && <p className="text-indigo-300 text-xs mt-1 flex items-center gap-1"><History className="w-3 h-3" /> 繼續 {new Date(resumeFrom.date).toLocaleDateString()} 的對話</p>}
+        </div>
         <select value={activeScenario.id} onChange={handleScenarioChange} className="p-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white">{SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}</select>
        </div>
 
@@ -97,18 +143,23 @@ export const OralCoach: React.FC<OralCoachProps> = ({ aiProvider }) => {
           ) : (
             <>
               <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-900/40">
-                {messages.map((msg) => (
+                {messages.filter(msg => msg.text).map((msg) => (
                   <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                     <div className={`max-w-[80%] p-4 rounded-2xl text-sm md:text-base leading-relaxed ${msg.role === 'user' ? 'bg-indigo-600 text-white rounded-tr-none' : 'bg-slate-700 text-white rounded-tl-none'}`}>{msg.text}</div>
                   </div>
                 ))}
-                {isLoading && <div className="text-slate-500 text-xs p-4">思考中...</div>}
+                {isLoading && !messages[messages.length - 1]?.text && <div className="text-slate-500 text-xs p-4">思考中...</div>}
+                {error !== null && <AiErrorNotice error={error} onDismiss={() => setError(null)} dark />}
                 <div ref={messagesEndRef} />
               </div>
               <div className="p-4 bg-slate-800 border-t border-slate-700 flex items-center gap-2">
                  <button onClick={toggleMic} className={`p-3 rounded-full ${isListening ? 'bg-red-900 text-red-100 animate-pulse' : 'bg-slate-700 text-slate-100'}`}>{isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}</button>
                  <input type="text" value={input} onChange={(e) => setInput(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSend()} placeholder="輸入回應..." className="w-full p-3 rounded-full border border-slate-600 bg-slate-900 text-white" />
-                 <button onClick={handleSend} disabled={!input.trim() || isLoading} className="p-3 bg-indigo-600 text-white rounded-full"><Send className="w-5 h-5" /></button>
+                 {isLoading ? (
+                   <button onClick={handleCancel} className="p-3 bg-red-600 hover:bg-red-700 text-white rounded-full" title="停止生成"><Square className="w-5 h-5" /></button>
+                 ) : (
+                   <button onClick={handleSend} disabled={!input.trim()} className="p-3 bg-indigo-600 text-white rounded-full"><Send className="w-5 h-5" /></button>
+                 )}
               </div>
             </>
           )}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { storageService } from '../services/storageService';
+import { checkJyutping, formatPhonetic } from '../services/jyutping';
+import { AlertTriangle } from 'lucide-react';
+
+interface PhoneticTextProps {
+  jyutping?: string; // As stored on the card
+  pinyin?: string;
+  word?: string; // Lets the check compare the syllable count with the characters
+  labelled?: boolean; // Prefix 粵/普 even when only one reading is present
+  className?: string;
+}
+
+// A card's readings: Jyutping in the style chosen in Settings (with a warning when it is not valid
+// Jyutping), then Pinyin
+export const PhoneticText: React.FC<PhoneticTextProps> = ({ jyutping, pinyin, word, labelled = false, className = '' }) => {
+  const hasJyutping = !!jyutping?.trim();
+  const hasPinyin = !!pinyin?.trim();
+  if (!hasJyutping && !hasPinyin) return null;
+  const showLabels = labelled || (hasJyutping && hasPinyin);
+  const problems = hasJyutping ? checkJyutping(jyutping!, word).problems : [];
+
+  return (
+    <span className={`${className} inline-flex flex-wrap items-center gap-x-2`}>
+      {hasJyutping && (
+        <span className="inline-flex items-center gap-1">
+          {showLabels && '粵: '}{formatPhonetic(jyutping!, storageService.getDisplaySettings().phoneticStyle)}
+          {problems.length > 0 && (
+            <span title={`粵拼可能有誤：${problems.join('；')}`} className="text-amber-500">
+              <AlertTriangle className="w-3 h-3" />
+            </span>
+          )}
+        </span>
+      )}
+      {hasPinyin && <span>{showLabels && '普: '}{pinyin}</span>}
+    </span>
+  );
+};
@@ -0,0 +1,96 @@
+
+import React, { useState } from 'react';
+import { LearnerProfile } from '../types';
+import { storageService } from '../services/storageService';
+import { X, UserPlus, Pencil, Trash2, Check, LogIn } from 'lucide-react';
+
+interface ProfileDialogProps {
+  profiles: LearnerProfile[];
+  activeProfileId: string;
+  onClose: () => void;
+  onChanged: () => void; // Profile list changed (created, renamed or deleted)
+  onSwitch: (id: string) => void;
+}
+
+const MAX_NAME_LENGTH = 20;
+
+export const ProfileDialog: React.FC<ProfileDialogProps> = ({ profiles, activeProfileId, onClose, onChanged, onSwitch }) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "操作失敗。");
+    }
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    run(async () => {
+      await storageService.createProfile(newName);
+      setNewName('');
+    });
+  };
+
+  const handleRename = (id: string) => {
+    if (!editName.trim()) return;
+    run(async () => {
+      await storageService.renameProfile(id, editName);
+      setEditingId(null);
+    });
+  };
+
+  const handleDelete = (profile: LearnerProfile) => {
+    if (!confirm(`⚠️ 刪除「${profile.name}」會永久刪除此學習者的所有詞彙卡、圖片及紀錄，無法復原。\n\n建議先切換至該檔案並建立備份。確定要刪除嗎？`)) return;
+    run(() => storageService.deleteProfile(profile.id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 animate-in fade-in" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-900">管理學習者</h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-full hover:bg-slate-100 transition-colors"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-500">每位學習者有獨立的詞彙庫、寫作、對話及測驗紀錄，適合兄弟姊妹或補習老師的多位學生共用同一部裝置。</p>
+
+          <ul className="space-y-2">
+            {profiles.map(profile => {
+              const isActive = profile.id === activeProfileId;
+              return (
+                <li key={profile.id} className={`flex items-center gap-2 p-3 rounded-xl border ${isActive ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200'}`}>
+                  <span className="w-8 h-8 shrink-0 rounded-full bg-indigo-600 text-white text-sm font-bold flex items-center justify-center">{profile.name.slice(0, 1)}</span>
+                  {editingId === profile.id ? (
+                    <>
+                      <input value={editName} onChange={e => setEditName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleRename(profile.id)} maxLength={MAX_NAME_LENGTH} autoFocus className="flex-1 min-w-0 p-1.5 rounded-lg border border-slate-300 text-sm" />
+                      <button onClick={() => handleRename(profile.id)} disabled={!editName.trim()} className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded-lg disabled:opacity-40" title="儲存"><Check className="w-4 h-4" /></button>
+                      <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg" title="取消"><X className="w-4 h-4" /></button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="flex-1 min-w-0 truncate font-medium text-slate-800">{profile.name}{isActive && <span className="ml-2 text-xs text-indigo-600">(使用中)</span>}</span>
+                      {!isActive && <button onClick={() => onSwitch(profile.id)} className="p-1.5 text-indigo-600 hover:bg-indigo-100 rounded-lg" title="切換至此學習者"><LogIn className="w-4 h-4" /></button>}
+                      <button onClick={() => { setEditingId(profile.id); setEditName(profile.name); }} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg" title="重新命名"><Pencil className="w-4 h-4" /></button>
+                      {!isActive && <button onClick={() => handleDelete(profile)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg" title="刪除"><Trash2 className="w-4 h-4" /></button>}
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex gap-2 pt-2 border-t border-slate-100">
+            <input value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleCreate()} maxLength={MAX_NAME_LENGTH} placeholder="新學習者名稱" className="flex-1 min-w-0 p-2 rounded-lg border border-slate-300 bg-slate-50 text-sm" />
+            <button onClick={handleCreate} disabled={!newName.trim()} className="flex items-center gap-1 px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"><UserPlus className="w-4 h-4" /> 新增</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
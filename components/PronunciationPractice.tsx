@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PronunciationRecord, SpeechLang } from '../types';
+import { storageService } from '../services/storageService';
+import { speechService } from '../services/speechService';
+import { loadScriptConverter, toDisplayScript } from '../services/chineseScript';
+import { alignPronunciation, isRecognitionSupported, startRecognition, AlignedChar, AlignmentStatus, PronunciationResult } from '../services/pronunciationService';
+import { X, Mic, Square, Volume2, RefreshCw } from 'lucide-react';
+
+interface PronunciationPracticeProps {
+  target: string; // Sentence or passage to read aloud
+  word?: string; // Card the score is recorded on; omitted for passages
+  onClose: () => void;
+  onRecorded?: (record: PronunciationRecord) => void;
+}
+
+const LANG_LABELS: Record<SpeechLang, string> = { 'zh-HK': '粵語', 'zh-CN': '普通話' };
+
+const STATUS_STYLES: Record<AlignmentStatus, string> = {
+  match: 'text-emerald-700',
+  wrong: 'bg-red-100 text-red-700 rounded',
+  missed: 'text-slate-400 underline decoration-dashed decoration-red-400',
+  extra: 'bg-amber-100 text-amber-800 rounded'
+};
+
+const scoreStyle = (score: number): string => score >= 85 ? 'text-emerald-600' : score >= 60 ? 'text-amber-600' : 'text-red-600';
+
+const describe = (aligned: AlignedChar): string =>
+  aligned.status === 'wrong' ? `聽到「${aligned.heard}」` : aligned.status === 'missed' ? '漏讀' : aligned.status === 'extra' ? '多讀' : '';
+
+// The target with every spoken character coloured by how it was read; punctuation stays plain
+const AlignedTarget: React.FC<{ target: string, result: PronunciationResult | null }> = ({ target, result }) => {
+  const byIndex = new Map<number, AlignedChar>();
+  result?.alignment.forEach(a => { if (a.targetIndex !== undefined) byIndex.set(a.targetIndex, a); });
+  return (
+    <p className="text-xl leading-loose font-serif text-slate-900 whitespace-pre-wrap">
+      {Array.from(target.matchAll(/./gsu)).map(match => {
+        const aligned = byIndex.get(match.index!);
+        return <span key={match.index} title={aligned && describe(aligned)} className={aligned ? STATUS_STYLES[aligned.status] : ''}>{toDisplayScript(match[0])}</span>;
+      })}
+    </p>
+  );
+};
+
+// Read a sentence or passage aloud and compare what speech recognition heard with it, character by character
+export const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({ target, word, onClose, onRecorded }) => {
+  const [lang, setLang] = useState<SpeechLang>('zh-HK');
+  const [isListening, setIsListening] = useState(false);
+  const [heard, setHeard] = useState('');
+  const [result, setResult] = useState<PronunciationResult | null>(null);
+  const [error, setError] = useState('');
+  const [record, setRecord] = useState<PronunciationRecord | undefined>(() => word ? storageService.getVocabulary().find(i => i.word === word)?.pronunciation : undefined);
+  const stopRef = useRef<(() => void) | null>(null);
+  const heardRef = useRef('');
+
+  useEffect(() => () => { stopRef.current?.(); }, []);
+
+  const handleFinished = async (lastLang: SpeechLang) => {
+    stopRef.current = null;
+    setIsListening(false);
+    const transcript = heardRef.current;
+    if (!transcript.trim()) return;
+    const assessed = alignPronunciation(target, transcript);
+    setResult(assessed);
+    if (!word) return;
+    try {
+      const updated = await storageService.recordPronunciation(word, lastLang, assessed.score);
+      if (updated) {
+        setRecord(updated);
+        onRecorded?.(updated);
+      }
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleStart = async () => {
+    // Mandarin recognition answers in Simplified; without the tables only identical characters match
+    await loadScriptConverter().catch(e => console.warn("Could not load the Simplified Chinese tables", e));
+    speechService.stop();
+    heardRef.current = '';
+    setHeard('');
+    setResult(null);
+    setError('');
+    setIsListening(true);
+    stopRef.current = startRecognition(lang, {
+      onText: text => { heardRef.current = text; setHeard(text); },
+      onError: setError,
+      onEnd: () => handleFinished(lang)
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 animate-in fade-in" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2"><Mic className="w-5 h-5 text-indigo-600" /> 跟讀練習</h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-full hover:bg-slate-100 transition-colors"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!isRecognitionSupported() ? (
+            <p className="text-sm text-slate-600">此瀏覽器不支援語音辨識，請使用 Chrome 或 Edge。</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs">
+                  {(Object.keys(LANG_LABELS) as SpeechLang[]).map(l => (
+                    <button key={l} onClick={() => setLang(l)} disabled={isListening} className={`px-3 py-1 rounded-md font-medium ${lang === l ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500'}`}>
+                      {LANG_LABELS[l]}
+                    </button>
+                  ))}
+                </div>
+                <button onClick={() => speechService.speak(target, lang)} disabled={isListening} className="text-xs px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg flex items-center gap-1 disabled:opacity-50"><Volume2 className="w-3 h-3" /> 聽示範</button>
+              </div>
+
+              <div className="bg-stone-50 p-4 rounded-xl border border-slate-200">
+                <AlignedTarget target={target} result={result} />
+              </div>
+
+              {isListening ? (
+                <button onClick={() => stopRef.current?.()} className="w-full py-3 bg-red-600 hover:bg-red-700 text-white font-bold rounded-xl flex items-center justify-center gap-2 animate-pulse"><Square className="w-4 h-4" /> 讀完了</button>
+              ) : (
+                <button onClick={handleStart} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2">
+                  {result ? <><RefreshCw className="w-4 h-4" /> 再讀一次</> : <><Mic className="w-4 h-4" /> 開始朗讀（{LANG_LABELS[lang]}）</>}
+                </button>
+              )}
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              {heard && <p className="text-sm text-slate-500">辨識結果：<span className="text-slate-800">{heard}</span></p>}
+
+              {result && (
+                <div className="bg-slate-50 p-4 rounded-xl space-y-2 animate-in fade-in">
+                  <div className="flex items-baseline justify-between">
+                    <span className="text-sm font-bold text-slate-600">準確度</span>
+                    <span className={`text-3xl font-bold ${scoreStyle(result.score)}`}>{result.score}%</span>
+                  </div>
+                  {result.alignment.some(a => a.status === 'extra') && (
+                    <p className="text-xs text-slate-500">多讀了：{result.alignment.filter(a => a.status === 'extra').map((a, i) => <span key={i} className={`${STATUS_STYLES.extra} px-0.5 mr-1`}>{a.heard}</span>)}</p>
+                  )}
+                  <p className="text-xs text-slate-400">
+                    <span className={STATUS_STYLES.match}>綠色</span> 讀對 · <span className={STATUS_STYLES.wrong}>紅底</span> 讀錯（懸停查看聽到的字） · <span className={STATUS_STYLES.missed}>虛線</span> 漏讀
+                  </p>
+                </div>
+              )}
+
+              {record && (
+                <p className="text-xs text-slate-500">此詞彙卡：最近 {record.lastScore}% · 最佳 {record.bestScore}% · 共練習 {record.attempts} 次</p>
+              )}
+              <p className="text-xs text-slate-400">評分以瀏覽器的語音辨識結果逐字比對。辨識會參考上下文，讀音略有偏差時仍可能判為讀對。</p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { QueuedAiRequest, PROVIDER_LABELS } from '../types';
+import { aiQueue } from '../services/aiQueue';
+import { Clock, Loader2, CheckCircle2, AlertCircle, RefreshCw, Trash2, WifiOff } from 'lucide-react';
+
+interface QueuedRequestsProps {
+  kind: QueuedAiRequest['kind'];
+  onOpen: (request: QueuedAiRequest) => void; // Show a finished result; the request is then removed
+}
+
+const STATUS_LABELS: Record<QueuedAiRequest['status'], string> = {
+  pending: '等待連線',
+  running: '分析中',
+  done: '已完成',
+  failed: '失敗'
+};
+
+// Analyses queued while offline, with their progress and finished results
+export const QueuedRequests: React.FC<QueuedRequestsProps> = ({ kind, onOpen }) => {
+  const [requests, setRequests] = useState<QueuedAiRequest[]>(() => aiQueue.getRequests(kind));
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const refresh = () => setRequests(aiQueue.getRequests(kind));
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    const unsubscribe = aiQueue.subscribe(refresh);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, [kind]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      alert(e.message || "操作失敗。");
+    }
+  };
+
+  const handleOpen = (request: QueuedAiRequest) => {
+    onOpen(request);
+    run(() => aiQueue.remove(request.id));
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Clock className="w-4 h-4 text-indigo-600" /> 離線排隊的分析</h3>
+        {!isOnline && <span className="text-xs text-amber-600 flex items-center gap-1"><WifiOff className="w-3 h-3" /> 離線中，恢復連線後自動分析</span>}
+      </div>
+      <ul className="space-y-2">
+        {requests.map(request => (
+          <li key={request.id} className="flex items-center gap-2 p-2 rounded-lg bg-slate-50 text-sm">
+            {request.status === 'running' ? <Loader2 className="w-4 h-4 text-indigo-500 animate-spin shrink-0" />
+              : request.status === 'done' ? <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" />
+              : request.status === 'failed' ? <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />
+              : <Clock className="w-4 h-4 text-slate-400 shrink-0" />}
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-slate-800">{request.text}</p>
+              <p className="text-[11px] text-slate-400">
+                {STATUS_LABELS[request.status]} · {PROVIDER_LABELS[request.provider]} · {new Date(request.createdAt).toLocaleString()}
+                {request.error && <span className="text-red-500"> · {request.error}</span>}
+              </p>
+            </div>
+            {request.status === 'done' && <button onClick={() => handleOpen(request)} className="px-2 py-1 text-xs font-bold text-indigo-600 bg-white border border-indigo-200 rounded hover:bg-indigo-50">查看結果</button>}
+            {request.status === 'failed' && <button onClick={() => run(() => aiQueue.retry(request.id))} className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-white rounded" title="重試"><RefreshCw className="w-4 h-4" /></button>}
+            {request.status !== 'running' && <button onClick={() => run(() => aiQueue.remove(request.id))} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-white rounded" title="移除"><Trash2 className="w-4 h-4" /></button>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,9 +1,17 @@
 
-import React, { useState, useEffect } from 'react';
-import { VocabularyItem, AiProvider } from '../types';
-import { analyzeWriting, createChatSession } from '../services/geminiService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { VocabularyItem, AiProvider, PROVIDER_LABELS, QuizFeedback, QuizAttempt } from '../types';
+import { gradeQuizAnswer, createChatSession } from '../services/geminiService';
 import { storageService } from '../services/storageService';
-import { BrainCircuit, Loader2, CheckCircle2, Bookmark, ArrowRight, RefreshCw, AlertCircle, BookOpen, Check, Mic, MicOff } from 'lucide-react';
+import { computeMastery, suggestQuizWords, MASTERY_LABELS, MASTERY_STYLES } from '../services/masteryService';
+import { toDisplayScript } from '../services/chineseScript';
+import { speechService } from '../services/speechService';
+import { AiErrorNotice, MissingFieldsNotice } from './AiErrorNotice';
+import { OfflineQuiz } from './OfflineQuiz';
+import { BrainCircuit, Loader2, CheckCircle2, Bookmark, ArrowRight, RefreshCw, AlertCircle, BookOpen, Check, Mic, MicOff, Sparkles, History, ChevronDown, ChevronUp, WifiOff } from 'lucide-react';
+import { PhoneticText } from './PhoneticText';
+
+const scoreColor = (score: number) => score >= 80 ? 'text-emerald-600' : score >= 50 ? 'text-amber-600' : 'text-red-600';
 
 interface QuizRoomProps {
   aiProvider: AiProvider;
@@ -15,7 +23,11 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
   const [scenario, setScenario] = useState<string | null>(null);
   const [userInput, setUserInput] = useState('');
   const [loading, setLoading] = useState(false);
-  const [feedback, setFeedback] = useState<any>(null);
+  const [feedback, setFeedback] = useState<QuizFeedback | null>(null);
+  const [history, setHistory] = useState<QuizAttempt[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isOfflineMode, setIsOfflineMode] = useState(() => !navigator.onLine);
+  const [error, setError] = useState<unknown>(null);
   const [savedWords, setSavedWords] = useState<Set<string>>(new Set());
   
   // Voice Input State
@@ -25,8 +37,18 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
     const vocab = storageService.getVocabulary();
     setLibrary(vocab);
     setSavedWords(new Set(vocab.map(i => i.word)));
+    setHistory(storageService.getQuizAttempts());
   }, []);
 
+  const mastery = useMemo(() => computeMastery(history), [history]);
+
+  const handleSuggest = () => setSelectedWords(suggestQuizWords(library, mastery));
+
+  const recordAttempt = (attempt: QuizAttempt) => {
+    setHistory(prev => [attempt, ...prev]);
+    storageService.addQuizAttempt(attempt).catch(e => console.error("Saving quiz attempt failed", e));
+  };
+
   const toggleWord = (word: VocabularyItem) => {
     if (selectedWords.find(w => w.word === word.word)) {
       setSelectedWords(selectedWords.filter(w => w.word !== word.word));
@@ -35,9 +57,9 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
     }
   };
 
-  const handleSaveWord = (item: VocabularyItem) => {
+  const handleSaveWord = async (item: VocabularyItem) => {
     try {
-      const success = storageService.addVocabularyItem(item);
+      const success = await storageService.addVocabularyItem(item);
       if (success) {
         setSavedWords(prev => new Set(prev).add(item.word));
       }
@@ -46,27 +68,6 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
     }
   };
 
-  const handleSpeak = (text: string, lang: 'zh-CN' | 'zh-HK' = 'zh-HK') => {
-    if ('speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = lang; 
-
-      // Improved Voice Selection Logic
-      const voices = window.speechSynthesis.getVoices();
-      const targetVoice = voices.find(v => 
-        v.lang.replace('_', '-').toLowerCase() === lang.toLowerCase() || 
-        (lang === 'zh-HK' && (v.name.includes('Cantonese') || v.name.includes('Hong Kong')))
-      );
-
-      if (targetVoice) {
-        utterance.voice = targetVoice;
-      }
-      
-      window.speechSynthesis.cancel();
-      window.speechSynthesis.speak(utterance);
-    }
-  };
-
   const toggleMic = () => {
     if (!('webkitSpeechRecognition' in window)) {
       alert("Speech recognition is not supported in this browser. Please use Chrome.");
@@ -98,6 +99,7 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
     setLoading(true);
     setScenario(null);
     setFeedback(null);
+    setError(null);
     setUserInput('');
 
     try {
@@ -106,22 +108,35 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
       // Explicitly ask for a scenario requiring sentence construction
       const res = await chat.sendMessage(`請設計一個情境，強制要求學生必須使用以下詞彙造句回答：${wordsStr}。情境請在 50 字以內。`);
       setScenario(res);
-    } catch (e: any) {
-      alert(`Failed to start quiz: ${e.message}`);
+    } catch (e) {
+      setError(e);
     } finally {
       setLoading(false);
     }
   };
 
   const handleSubmit = async () => {
-    if (!userInput.trim()) return;
+    if (!userInput.trim() || !scenario) return;
     setLoading(true);
+    setError(null);
     try {
-      // Pass the scenario in the context so AI knows what to check against
-      const res = await analyzeWriting(userInput, `情境測驗檢討 (Quiz Review). 題目情境: ${scenario}`, aiProvider);
+      const words = selectedWords.map(w => w.word);
+      const res = await gradeQuizAnswer(userInput, scenario, words, aiProvider);
       setFeedback(res);
-    } catch (e: any) {
-      alert(`Analysis failed: ${e.message}`);
+
+      const attempt: QuizAttempt = {
+        id: Date.now().toString(),
+        date: new Date().toISOString(),
+        words,
+        scenario,
+        answer: userInput,
+        feedback: res,
+        score: res.score,
+        provider: aiProvider
+      };
+      recordAttempt(attempt);
+    } catch (e) {
+      setError(e);
     } finally {
       setLoading(false);
     }
@@ -132,16 +147,30 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
       <div className="space-y-2">
         <div className="flex items-center gap-2">
           <h2 className="text-2xl font-bold">情境詞彙測驗</h2>
-          <span className="text-xs bg-indigo-50 text-indigo-600 px-2 py-1 rounded font-bold uppercase">{aiProvider}</span>
+          <span className="text-xs bg-indigo-50 text-indigo-600 px-2 py-1 rounded font-bold uppercase">{PROVIDER_LABELS[aiProvider]}</span>
         </div>
-        <p className="text-slate-600">選擇你想練習的詞彙，AI 會出題考你如何造句。</p>
+        <p className="text-slate-600">選擇你想練習的詞彙，AI 會出題考你如何造句；沒有網絡時可用離線練習。</p>
+      </div>
+
+      <div className="flex bg-slate-100 p-1 rounded-xl w-fit">
+        <button onClick={() => setIsOfflineMode(false)} className={`px-4 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-2 ${!isOfflineMode ? 'bg-white shadow text-indigo-700' : 'text-slate-500'}`}><BrainCircuit className="w-4 h-4" /> AI 情境題</button>
+        <button onClick={() => setIsOfflineMode(true)} className={`px-4 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-2 ${isOfflineMode ? 'bg-white shadow text-indigo-700' : 'text-slate-500'}`}><WifiOff className="w-4 h-4" /> 離線練習</button>
       </div>
 
-      {!scenario ? (
+      {isOfflineMode ? (
+        <OfflineQuiz library={library} mastery={mastery} onComplete={recordAttempt} />
+      ) : (!scenario ? (
         <div className="bg-white p-6 rounded-2xl shadow-sm border space-y-6">
-          <div className="flex justify-between items-center">
+          <div className="flex justify-between items-center gap-2">
             <h3 className="font-bold">選擇最多 3 個詞彙進行挑戰：</h3>
-            <span className="text-xs text-indigo-600 font-bold">{selectedWords.length}/3 已選</span>
+            <div className="flex items-center gap-3">
+              {library.length > 0 && (
+                <button onClick={handleSuggest} className="text-xs font-bold text-amber-700 bg-amber-50 hover:bg-amber-100 px-2 py-1 rounded-lg flex items-center gap-1 transition-colors" title="優先選出待加強及未測驗的詞彙">
+                  <Sparkles className="w-3 h-3" /> 推薦詞彙
+                </button>
+              )}
+              <span className="text-xs text-indigo-600 font-bold">{selectedWords.length}/3 已選</span>
+            </div>
           </div>
           
           {library.length === 0 ? (
@@ -153,13 +182,16 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
             <div className="flex flex-wrap gap-2 max-h-60 overflow-y-auto p-2 border rounded-xl bg-slate-50">
               {library.map((w, idx) => {
                 const isSelected = selectedWords.find(sw => sw.word === w.word);
+                const m = mastery.get(w.word);
                 return (
                   <button 
                     key={idx} 
                     onClick={() => toggleWord(w)}
-                    className={`px-3 py-1.5 rounded-lg text-sm transition-all border ${isSelected ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 hover:border-indigo-300'}`}
+                    title={m ? `${MASTERY_LABELS[m.level]} · ${m.score} 分 (${m.attempts} 次)` : MASTERY_LABELS.new}
+                    className={`px-3 py-1.5 rounded-lg text-sm transition-all border flex items-center gap-1.5 ${isSelected ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 hover:border-indigo-300'}`}
                   >
-                    {w.word}
+                    {toDisplayScript(w.word)}
+                    {m && <span className={`text-[10px] font-bold px-1 rounded ${isSelected ? 'bg-white/20 text-white' : MASTERY_STYLES[m.level]}`}>{m.score}</span>}
                   </button>
                 );
               })}
@@ -174,6 +206,33 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
             {loading ? <Loader2 className="animate-spin" /> : <BrainCircuit className="w-5 h-5" />}
             生成情境題
           </button>
+
+          {error !== null && <AiErrorNotice error={error} onRetry={startQuiz} onDismiss={() => setError(null)} />}
+
+          {history.length > 0 && (
+            <div className="border-t pt-4">
+              <button onClick={() => setShowHistory(!showHistory)} className="w-full flex justify-between items-center text-sm font-bold text-slate-600">
+                <span className="flex items-center gap-2"><History className="w-4 h-4" /> 測驗紀錄 ({history.length})</span>
+                {showHistory ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </button>
+              {showHistory && (
+                <div className="mt-3 space-y-2 max-h-80 overflow-y-auto">
+                  {history.map(attempt => (
+                    <div key={attempt.id} className="p-3 bg-slate-50 rounded-lg border border-slate-100 text-sm space-y-1">
+                      <div className="flex justify-between items-center">
+                        <div className="flex gap-1 flex-wrap">
+                          {attempt.words.map(word => <span key={word} className="px-1.5 py-0.5 bg-white border rounded text-xs font-bold">{word}</span>)}
+                        </div>
+                        <span className={`font-bold ${scoreColor(attempt.score)}`}>{attempt.score} 分</span>
+                      </div>
+                      <p className="text-slate-700">{attempt.answer}</p>
+                      <p className="text-[10px] text-slate-400">{new Date(attempt.date).toLocaleString()} · {attempt.provider ? PROVIDER_LABELS[attempt.provider] : '離線'}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       ) : (
         <div className="space-y-6 animate-in slide-in-from-bottom-4">
@@ -183,7 +242,7 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
                 <p className="text-lg font-medium leading-relaxed">{scenario}</p>
                 <div className="flex gap-2 pt-2">
                    <span className="text-xs text-indigo-300 mr-2">必須使用：</span>
-                   {selectedWords.map(w => <span key={w.word} className="px-2 py-1 bg-white/10 rounded text-xs font-bold border border-white/20">{w.word}</span>)}
+                   {selectedWords.map(w => <span key={w.word} className="px-2 py-1 bg-white/10 rounded text-xs font-bold border border-white/20">{toDisplayScript(w.word)}</span>)}
                 </div>
               </div>
               <div className="absolute top-0 right-0 p-4 opacity-10"><BrainCircuit className="w-24 h-24" /></div>
@@ -220,8 +279,27 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
               </div>
            </div>
 
+           {error !== null && <AiErrorNotice error={error} onRetry={handleSubmit} onDismiss={() => setError(null)} />}
+
            {feedback && (
              <div className="space-y-4 animate-in fade-in">
+                <MissingFieldsNotice fields={feedback.missingFields} onRetry={handleSubmit} />
+
+                {/* Score */}
+                <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200 flex items-center gap-6">
+                  <div className="text-center">
+                    <p className={`text-4xl font-bold ${scoreColor(feedback.score)}`}>{feedback.score}</p>
+                    <p className="text-xs text-slate-400">總分</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(feedback.wordScores).map(([word, wordScore]) => (
+                      <span key={word} className="px-2 py-1 bg-slate-50 border rounded-lg text-sm">
+                        {word} <span className={`font-bold ${scoreColor(wordScore)}`}>{wordScore}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
                 {/* Grammar Check */}
                 <div className="bg-white p-5 rounded-xl shadow-sm border border-l-4 border-l-emerald-500 border-slate-200">
                   <h3 className="text-sm font-bold text-emerald-700 uppercase tracking-wide mb-2 flex items-center gap-2">
@@ -245,23 +323,23 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
                 </div>
 
                 {/* Suggested Vocabulary */}
-                {feedback.keyVocabulary && feedback.keyVocabulary.length > 0 && (
+                {feedback.keyVocabulary.length > 0 && (
                   <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
                     <h3 className="text-sm font-bold text-amber-600 uppercase tracking-wide mb-3 flex items-center gap-2">
                       <BookOpen className="w-4 h-4" /> 建議補充詞彙
                     </h3>
                     <div className="space-y-3">
-                      {feedback.keyVocabulary.map((wordItem: any, idx: number) => {
+                      {feedback.keyVocabulary.map((wordItem, idx) => {
                         const isSaved = savedWords.has(wordItem.word);
                         return (
                           <div key={idx} className="p-3 bg-slate-50 rounded-lg border border-slate-100 flex flex-col gap-2">
                             <div className="flex justify-between items-start">
                                <div className="flex items-center gap-2">
-                                  <span className="font-bold text-slate-900">{wordItem.word}</span>
-                                  {wordItem.phonetic && <span className="text-xs text-slate-500 font-mono bg-slate-200 px-1 rounded">粵: {wordItem.phonetic}</span>}
+                                  <span className="font-bold text-slate-900">{toDisplayScript(wordItem.word)}</span>
+                                  <PhoneticText jyutping={wordItem.jyutping} pinyin={wordItem.pinyin} word={wordItem.word} labelled className="text-xs text-slate-500 font-mono bg-slate-200 px-1 rounded" />
                                   <div className="flex gap-1 ml-1">
-                                    <button onClick={() => handleSpeak(wordItem.word, 'zh-HK')} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">粵</button>
-                                    <button onClick={() => handleSpeak(wordItem.word, 'zh-CN')} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">普</button>
+                                    <button onClick={() => speechService.speak(wordItem.word, 'zh-HK')} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">粵</button>
+                                    <button onClick={() => speechService.speak(wordItem.word, 'zh-CN')} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">普</button>
                                   </div>
                                </div>
                                <button 
@@ -277,9 +355,9 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
                                  {isSaved ? <Check className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
                                </button>
                             </div>
-                            <p className="text-sm text-slate-600">{wordItem.definition}</p>
+                            <p className="text-sm text-slate-600">{toDisplayScript(wordItem.definition)}</p>
                             <div className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 italic">
-                               💡 {wordItem.mnemonic}
+                               💡 {toDisplayScript(wordItem.mnemonic)}
                             </div>
                           </div>
                         );
@@ -290,7 +368,7 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
              </div>
            )}
         </div>
-      )}
+      ))}
     </div>
   );
 };
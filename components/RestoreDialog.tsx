@@ -0,0 +1,165 @@
+
+import React, { useState, useMemo } from 'react';
+import { storageService } from '../services/storageService';
+import { isEncryptedBackup, decryptBackup } from '../services/backupCrypto';
+import { BACKUP_COLLECTIONS, BackupCollection, MERGE_STRATEGY_LABELS, MergeStrategy, RestoreOptions } from '../services/backupService';
+import { X, Upload, Loader2, AlertTriangle, GitMerge, Replace, Lock } from 'lucide-react';
+
+interface RestoreDialogProps {
+  backup: unknown; // Parsed JSON from the chosen file, possibly an encrypted envelope
+  fileName: string;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const COLLECTION_NAMES = Object.keys(BACKUP_COLLECTIONS) as BackupCollection[];
+const STRATEGIES = Object.keys(MERGE_STRATEGY_LABELS) as MergeStrategy[];
+
+export const RestoreDialog: React.FC<RestoreDialogProps> = ({ backup, fileName, onClose, onRestored }) => {
+  const [options, setOptions] = useState<RestoreOptions>({ mode: 'merge', strategy: 'newest' });
+  const [isRestoring, setIsRestoring] = useState(false);
+  // Decrypted once up front so changing options does not re-run the slow key derivation
+  const [data, setData] = useState<unknown>(() => isEncryptedBackup(backup) ? null : backup);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const activeProfileName = storageService.getActiveProfile().name;
+
+  const handleUnlock = async () => {
+    if (!isEncryptedBackup(backup)) return;
+    setIsUnlocking(true);
+    setUnlockError('');
+    try {
+      setData(await decryptBackup(backup, passphrase));
+    } catch (e: any) {
+      setUnlockError(e.message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  // Dry run, recomputed whenever the options change
+  const preview = useMemo(() => {
+    if (data === null) return { plan: null, error: null };
+    try {
+      return { plan: storageService.previewRestore(data, options), error: null };
+    } catch (e: any) {
+      return { plan: null, error: e.message as string };
+    }
+  }, [data, options]);
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      await storageService.restoreBackup(data, options);
+      onRestored();
+    } catch (e: any) {
+      alert(e.message || "還原失敗。");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const plan = preview.plan;
+  const totalRemoved = plan ? COLLECTION_NAMES.reduce((sum, name) => sum + plan.changes[name].removed, 0) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 animate-in fade-in" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">還原備份</h2>
+            <p className="text-xs text-slate-500">{fileName}{plan?.backupDate && ` · 備份於 ${new Date(plan.backupDate).toLocaleString()}`}</p>
+            <p className="text-xs text-slate-500">
+              {plan?.backupProfileName && <>來自學習者「{plan.backupProfileName}」 → </>}
+              還原至目前的學習者「<span className="font-bold text-indigo-700">{activeProfileName}</span>」
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-full hover:bg-slate-100 transition-colors"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {data === null && (
+            <div className="bg-indigo-50 border border-indigo-100 p-4 rounded-xl space-y-2">
+              <p className="text-sm font-bold text-indigo-900 flex items-center gap-2"><Lock className="w-4 h-4" /> 此備份已加密，請輸入密碼</p>
+              <div className="flex gap-2">
+                <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleUnlock()} autoFocus className="flex-1 p-2 rounded-lg border border-slate-300 bg-white text-sm" />
+                <button onClick={handleUnlock} disabled={!passphrase || isUnlocking} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50">{isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : '解鎖'}</button>
+              </div>
+              {unlockError && <p className="text-xs text-red-600">{unlockError}</p>}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={() => setOptions({ ...options, mode: 'merge' })} className={`p-3 rounded-xl border text-left transition-all ${options.mode === 'merge' ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'}`}>
+              <p className="font-bold text-sm flex items-center gap-2"><GitMerge className="w-4 h-4 text-indigo-600" /> 合併</p>
+              <p className="text-xs text-slate-500 mt-1">加入備份中的新資料，保留本機獨有的資料。</p>
+            </button>
+            <button onClick={() => setOptions({ ...options, mode: 'replace' })} className={`p-3 rounded-xl border text-left transition-all ${options.mode === 'replace' ? 'border-red-400 bg-red-50' : 'border-slate-200 hover:border-red-300'}`}>
+              <p className="font-bold text-sm flex items-center gap-2"><Replace className="w-4 h-4 text-red-500" /> 取代全部</p>
+              <p className="text-xs text-slate-500 mt-1">以備份內容完全覆蓋本機資料。</p>
+            </button>
+          </div>
+
+          {options.mode === 'merge' && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-slate-700">同一項目內容不同時：</p>
+              <div className="flex flex-wrap gap-2">
+                {STRATEGIES.map(strategy => (
+                  <button key={strategy} onClick={() => setOptions({ ...options, strategy })} className={`px-3 py-1.5 rounded-lg border text-sm transition-all ${options.strategy === strategy ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 hover:border-indigo-300'}`}>
+                    {MERGE_STRATEGY_LABELS[strategy]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {preview.error ? (
+            <div className="bg-red-50 border border-red-200 p-4 rounded-xl text-sm text-red-700 flex items-start gap-2"><AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" /> {preview.error}</div>
+          ) : plan && (
+            <div className="border rounded-xl overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-xs text-slate-500">
+                  <tr>
+                    <th className="p-2 text-left font-medium">預覽變更</th>
+                    <th className="p-2 font-medium">新增</th>
+                    <th className="p-2 font-medium">更新</th>
+                    {options.mode === 'merge' && <th className="p-2 font-medium">保留本機</th>}
+                    <th className="p-2 font-medium">相同</th>
+                    {options.mode === 'replace' && <th className="p-2 font-medium">刪除</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {COLLECTION_NAMES.map(name => {
+                    const c = plan.changes[name];
+                    return (
+                      <tr key={name} className="border-t text-center">
+                        <td className="p-2 text-left font-medium text-slate-700">{BACKUP_COLLECTIONS[name].label}</td>
+                        <td className={`p-2 ${c.added ? 'text-emerald-600 font-bold' : 'text-slate-300'}`}>{c.added}</td>
+                        <td className={`p-2 ${c.updated ? 'text-indigo-600 font-bold' : 'text-slate-300'}`}>{c.updated}</td>
+                        {options.mode === 'merge' && <td className={`p-2 ${c.keptLocal ? 'text-amber-600 font-bold' : 'text-slate-300'}`}>{c.keptLocal}</td>}
+                        <td className="p-2 text-slate-400">{c.unchanged}</td>
+                        {options.mode === 'replace' && <td className={`p-2 ${c.removed ? 'text-red-600 font-bold' : 'text-slate-300'}`}>{c.removed}</td>}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {plan && options.mode === 'replace' && totalRemoved > 0 && (
+            <p className="text-sm text-red-600 flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> 將刪除 {totalRemoved} 項不在備份中的本機資料，無法復原。</p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-slate-600 hover:bg-slate-100">取消</button>
+          <button onClick={handleRestore} disabled={!plan || isRestoring} className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white disabled:opacity-50 ${options.mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}>
+            {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} {options.mode === 'replace' ? '取代並還原' : '合併還原'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
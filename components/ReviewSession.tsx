@@ -0,0 +1,122 @@
+
+import React, { useState, useEffect } from 'react';
+import { VocabularyItem, ReviewGrade } from '../types';
+import { storageService } from '../services/storageService';
+import { scheduleReview, formatInterval, GRADE_LABELS } from '../services/srsService';
+import { toDisplayScript } from '../services/chineseScript';
+import { speechService } from '../services/speechService';
+import { Repeat, Eye, CheckCircle2, CalendarClock } from 'lucide-react';
+import { PhoneticText } from './PhoneticText';
+
+const GRADES: { grade: ReviewGrade, style: string }[] = [
+  { grade: 'again', style: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100' },
+  { grade: 'hard', style: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100' },
+  { grade: 'good', style: 'bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-100' },
+  { grade: 'easy', style: 'bg-indigo-50 text-indigo-700 border-indigo-200 hover:bg-indigo-100' },
+];
+
+export const ReviewSession: React.FC = () => {
+  const [queue, setQueue] = useState<VocabularyItem[]>([]);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [stats, setStats] = useState(() => storageService.getReviewStats());
+
+  useEffect(() => {
+    setQueue(storageService.getDueVocabulary());
+  }, []);
+
+  const current = queue[0];
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!current) return;
+    const review = scheduleReview(current.review, grade);
+    try {
+      await storageService.updateReviewState(current.word, review);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+
+    const rest = queue.slice(1);
+    // "重來" cards are shown again at the end of today's session
+    setQueue(grade === 'again' ? [...rest, { ...current, review }] : rest);
+    setIsRevealed(false);
+    setReviewedCount(c => c + 1);
+    setStats(storageService.getReviewStats());
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 md:p-8 space-y-6 pb-24 md:pb-8">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <h2 className="text-2xl font-bold text-slate-900">記憶複習</h2>
+          <span className="text-xs bg-emerald-50 text-emerald-700 px-2 py-1 rounded-full font-medium">間隔重複</span>
+        </div>
+        <p className="text-slate-600">根據遺忘曲線安排複習。先回想詞義，再按記憶程度評分。</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="bg-white p-3 rounded-xl border border-slate-200"><p className="text-2xl font-bold text-indigo-600">{stats.due}</p><p className="text-xs text-slate-500">待複習</p></div>
+        <div className="bg-white p-3 rounded-xl border border-slate-200"><p className="text-2xl font-bold text-emerald-600">{stats.new}</p><p className="text-xs text-slate-500">未學習</p></div>
+        <div className="bg-white p-3 rounded-xl border border-slate-200"><p className="text-2xl font-bold text-slate-700">{reviewedCount}</p><p className="text-xs text-slate-500">今次已複習</p></div>
+      </div>
+
+      {!current ? (
+        <div className="text-center py-16 bg-slate-50 rounded-2xl border border-dashed border-slate-300">
+          {stats.total === 0 ? (
+            <>
+              <CalendarClock className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+              <p className="text-slate-500">資料庫是空的。請先去「詞彙生成」建立詞彙卡！</p>
+            </>
+          ) : (
+            <>
+              <CheckCircle2 className="w-12 h-12 text-emerald-400 mx-auto mb-3" />
+              <p className="text-slate-700 font-bold">今日複習已完成！</p>
+              <p className="text-slate-500 text-sm mt-1">明天再來，保持記憶。</p>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="bg-white rounded-2xl shadow-md border border-slate-200 overflow-hidden animate-in fade-in">
+          <div className="p-8 text-center bg-slate-50 border-b border-slate-100 space-y-2">
+            <div className="flex justify-between text-xs text-slate-400">
+              <span>{current.review ? `已遺忘 ${current.review.lapses} 次` : '新卡片'}</span>
+              <span>餘下 {queue.length} 張</span>
+            </div>
+            <h3 className="text-4xl font-bold text-slate-900">{toDisplayScript(current.word)}</h3>
+            <div className="flex justify-center gap-1">
+              <button onClick={() => speechService.speak(current.word, 'zh-HK')} className="text-[10px] px-1.5 py-0.5 bg-white border rounded hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 transition-colors">粵</button>
+              <button onClick={() => speechService.speak(current.word, 'zh-CN')} className="text-[10px] px-1.5 py-0.5 bg-white border rounded hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 transition-colors">普</button>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {isRevealed ? (
+              <div className="space-y-4 animate-in fade-in">
+                {(current.jyutping || current.pinyin) && <p className="text-center text-sm text-slate-500 font-mono"><PhoneticText jyutping={current.jyutping} pinyin={current.pinyin} word={current.word} /></p>}
+                <p className="text-slate-900 font-bold leading-relaxed">{toDisplayScript(current.definition)}</p>
+                <p className="text-indigo-900 bg-indigo-50 p-2 rounded text-sm border-l-4 border-indigo-400">{toDisplayScript(current.exampleSentence)}</p>
+                <div className="bg-amber-50 p-3 rounded-lg border border-amber-100 text-sm text-amber-900 italic">💡 {toDisplayScript(current.mnemonic)}</div>
+
+                <div className="grid grid-cols-4 gap-2 pt-2">
+                  {GRADES.map(({ grade, style }) => (
+                    <button key={grade} onClick={() => handleGrade(grade)} className={`py-3 rounded-xl border text-sm font-bold transition-colors flex flex-col items-center ${style}`}>
+                      {GRADE_LABELS[grade]}
+                      <span className="text-[10px] font-normal opacity-70">{formatInterval(scheduleReview(current.review, grade))}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <button onClick={() => setIsRevealed(true)} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-xl flex items-center justify-center gap-2 transition-colors">
+                <Eye className="w-5 h-5" /> 顯示答案
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-400 flex items-center gap-1 justify-center"><Repeat className="w-3 h-3" /> 「重來」的卡片會在本次複習稍後再次出現。</p>
+    </div>
+  );
+};
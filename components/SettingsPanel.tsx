@@ -0,0 +1,225 @@
+
+import React, { useState, useEffect } from 'react';
+import { OpenAiCompatibleConfig, DisplaySettings, PhoneticStyle, ChineseScript } from '../types';
+import { storageService } from '../services/storageService';
+import { syncService } from '../services/syncService';
+import { aiCache, AiCacheStats } from '../services/aiCache';
+import { AiUsagePanel } from './AiUsagePanel';
+import { SpeechSettingsPanel } from './SpeechSettingsPanel';
+import { toYale } from '../services/jyutping';
+import { loadScriptConverter } from '../services/chineseScript';
+import { X, Server, Save, Check, RefreshCw, Languages, Loader2, History, Trash2 } from 'lucide-react';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  onSynced: (pulled: number) => void; // A sync finished; views should reload when anything was pulled
+  onDisplayChanged: (settings: DisplaySettings) => void;
+}
+
+const PHONETIC_SAMPLE = 'gwong2 dung1 waa2';
+
+const PHONETIC_STYLE_OPTIONS: { value: PhoneticStyle, label: string, sample: string }[] = [
+  { value: 'jyutping', label: '粵拼 (Jyutping)', sample: PHONETIC_SAMPLE },
+  { value: 'yale', label: '耶魯拼音 (Yale，附聲調符號)', sample: toYale(PHONETIC_SAMPLE) }
+];
+
+const SCRIPT_OPTIONS: { value: ChineseScript, label: string, sample: string }[] = [
+  { value: 'traditional', label: '繁體', sample: '學習語文' },
+  { value: 'simplified', label: '簡體', sample: '学习语文' }
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, onSynced, onDisplayChanged }) => {
+  const [openAiConfig, setOpenAiConfig] = useState<OpenAiCompatibleConfig>(() => storageService.getOpenAiConfig());
+  const [isSaved, setIsSaved] = useState(false);
+  const [syncState, setSyncState] = useState(() => syncService.getState());
+  const [spaceInput, setSpaceInput] = useState(syncState.space);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncMessage, setSyncMessage] = useState('');
+  const [cacheStats, setCacheStats] = useState<AiCacheStats | null>(null);
+  const [displaySettings, setDisplaySettings] = useState(() => storageService.getDisplaySettings());
+
+  useEffect(() => {
+    aiCache.getStats().then(setCacheStats).catch(e => console.warn('Could not read AI cache', e));
+  }, []);
+
+  const updateOpenAiConfig = (patch: Partial<OpenAiCompatibleConfig>) => {
+    setOpenAiConfig(prev => ({ ...prev, ...patch }));
+    setIsSaved(false);
+  };
+
+  const handleSave = async () => {
+    try {
+      await storageService.saveOpenAiConfig(openAiConfig);
+      setIsSaved(true);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const updateDisplaySettings = async (patch: Partial<DisplaySettings>) => {
+    const next = { ...displaySettings, ...patch };
+    try {
+      await storageService.saveDisplaySettings(next);
+      setDisplaySettings(next);
+      onDisplayChanged(next);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleScriptChange = async (script: ChineseScript) => {
+    if (script === 'simplified') {
+      try {
+        await loadScriptConverter(); // Cards render in Simplified straight after saving
+      } catch (e) {
+        console.error("Could not load the Simplified Chinese tables", e);
+        alert("無法載入簡體轉換表，請連線後再試。");
+        return;
+      }
+    }
+    await updateDisplaySettings({ script });
+  };
+
+  const handleClearCache = async () => {
+    if (!confirm("確定清除所有已快取的 AI 結果？之後相同的請求會再次使用 AI 額度。")) return;
+    try {
+      await aiCache.clear();
+      setCacheStats({ entries: 0, bytes: 0 });
+    } catch (e: any) {
+      alert(e.message || "清除快取失敗。");
+    }
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    setSyncMessage('');
+    try {
+      if (spaceInput.trim() !== syncState.space || !storageService.getSyncState()) await syncService.setSpace(spaceInput);
+      const { pushed, pulled } = await syncService.sync();
+      setSyncMessage(`已同步：上載 ${pushed} 項，下載 ${pulled} 項。`);
+      onSynced(pulled);
+    } catch (e: any) {
+      setSyncMessage(e.message || "同步失敗。");
+    } finally {
+      setSyncState(syncService.getState());
+      setIsSyncing(false);
+    }
+  };
+
+  const handleAutoSync = async (autoSync: boolean) => {
+    try {
+      await syncService.setAutoSync(autoSync);
+      setSyncState(syncService.getState());
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 animate-in fade-in" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100 sticky top-0 bg-white">
+          <h2 className="text-lg font-bold text-slate-900">設定</h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-full hover:bg-slate-100 transition-colors"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Display */}
+          <section className="space-y-2">
+            <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Languages className="w-4 h-4 text-indigo-600" /> 讀音顯示</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {PHONETIC_STYLE_OPTIONS.map(option => (
+                <button key={option.value} onClick={() => updateDisplaySettings({ phoneticStyle: option.value })} className={`p-3 rounded-lg border text-left transition-colors ${displaySettings.phoneticStyle === option.value ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'}`}>
+                  <span className="block text-xs font-bold text-slate-700">{option.label}</span>
+                  <span className="block text-sm font-mono text-slate-500 mt-1">{option.sample}</span>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400">詞彙卡一律以粵拼儲存及匯出。無效的粵拼會以 <span className="text-amber-500">⚠</span> 標示。</p>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Languages className="w-4 h-4 text-indigo-600" /> 字體</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {SCRIPT_OPTIONS.map(option => (
+                <button key={option.value} onClick={() => handleScriptChange(option.value)} className={`p-3 rounded-lg border text-left transition-colors ${displaySettings.script === option.value ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'}`}>
+                  <span className="block text-xs font-bold text-slate-700">{option.label}</span>
+                  <span className="block text-sm text-slate-500 mt-1">{option.sample}</span>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400">詞彙卡照舊以繁體儲存；選擇簡體時，卡片顯示及 TSV / Anki 匯出會轉為簡體；備份檔保留繁體原文，還原後資料不變。搜尋同時比對繁簡兩種寫法。</p>
+          </section>
+
+          <SpeechSettingsPanel />
+
+          <AiUsagePanel />
+
+          {/* AI result cache */}
+          {cacheStats && (
+            <section className="space-y-2">
+              <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><History className="w-4 h-4 text-indigo-600" /> AI 結果快取</h3>
+              <p className="text-xs text-slate-500">相同的詞彙列表或文言文段落會直接使用上次的結果，不再重複收費。快取保留 30 天，結果頁上的「重新生成」可要求 AI 重新回答。</p>
+              <div className="flex items-center justify-between gap-3 bg-slate-50 p-3 rounded-lg text-sm text-slate-600">
+                <span><span className="font-bold text-slate-800">{cacheStats.entries}</span> 項結果，約 {(cacheStats.bytes / 1024).toFixed(0)} KB</span>
+                <button onClick={handleClearCache} disabled={cacheStats.entries === 0} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium text-red-600 bg-white border border-red-200 hover:bg-red-50 disabled:opacity-50"><Trash2 className="w-3 h-3" /> 清除快取</button>
+              </div>
+            </section>
+          )}
+
+          {/* Cross-device sync */}
+          <section className="space-y-3">
+            <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><RefreshCw className="w-4 h-4 text-indigo-600" /> 跨裝置同步</h3>
+            <p className="text-xs text-slate-500">把「{storageService.getActiveProfile().name}」的詞彙卡、寫作及文言文紀錄同步到此帳戶的伺服器。其他裝置登入同一帳戶並使用相同的同步名稱，即可共用資料。圖片不會同步。</p>
+            <label className="block">
+              <span className="text-xs font-medium text-slate-600">同步名稱</span>
+              <input value={spaceInput} onChange={e => setSpaceInput(e.target.value)} maxLength={64} className="w-full mt-1 p-2 rounded-lg border border-slate-300 bg-slate-50 text-sm" />
+            </label>
+            {storageService.getSyncState() && spaceInput.trim() !== syncState.space && (
+              <p className="text-xs text-amber-600">更改名稱後會與新的資料集重新完整同步。</p>
+            )}
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={syncState.autoSync} onChange={e => handleAutoSync(e.target.checked)} className="accent-indigo-600" />
+              開啟程式及切換學習者時自動同步
+            </label>
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-xs text-slate-400">{syncState.lastSyncedAt ? `上次同步：${new Date(syncState.lastSyncedAt).toLocaleString()}` : '尚未同步'}</span>
+              <button onClick={handleSync} disabled={isSyncing || !spaceInput.trim()} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+                {isSyncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />} 立即同步
+              </button>
+            </div>
+            {syncMessage && <p className="text-xs text-slate-600 bg-slate-50 p-2 rounded-lg">{syncMessage}</p>}
+          </section>
+
+          {/* OpenAI-compatible provider */}
+          <section className="space-y-3">
+            <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Server className="w-4 h-4 text-indigo-600" /> 自訂模型 (OpenAI 相容)</h3>
+            <p className="text-xs text-slate-500">可連接校內的 Ollama、llama.cpp 或 vLLM 伺服器，資料不會傳送至境外。伺服器需允許此網站的跨域請求 (CORS)，例如 Ollama 需設定 <code className="bg-slate-100 px-1 rounded">OLLAMA_ORIGINS</code>。</p>
+            <label className="block">
+              <span className="text-xs font-medium text-slate-600">Base URL</span>
+              <input value={openAiConfig.baseUrl} onChange={e => updateOpenAiConfig({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className="w-full mt-1 p-2 rounded-lg border border-slate-300 bg-slate-50 text-sm font-mono" />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-slate-600">模型名稱</span>
+              <input value={openAiConfig.model} onChange={e => updateOpenAiConfig({ model: e.target.value })} placeholder="qwen2.5:7b" className="w-full mt-1 p-2 rounded-lg border border-slate-300 bg-slate-50 text-sm font-mono" />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-slate-600">API Key (選填)</span>
+              <input type="password" value={openAiConfig.apiKey} onChange={e => updateOpenAiConfig({ apiKey: e.target.value })} placeholder="本地伺服器通常毋須填寫" className="w-full mt-1 p-2 rounded-lg border border-slate-300 bg-slate-50 text-sm font-mono" />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={openAiConfig.jsonMode} onChange={e => updateOpenAiConfig({ jsonMode: e.target.checked })} className="accent-indigo-600" />
+              使用 JSON 模式 (response_format)
+            </label>
+          </section>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end">
+          <button onClick={handleSave} disabled={isSaved} className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${isSaved ? 'bg-emerald-100 text-emerald-700' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}>
+            {isSaved ? <><Check className="w-4 h-4" /> 已儲存</> : <><Save className="w-4 h-4" /> 儲存設定</>}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useState, useEffect } from 'react';
+import { SpeechLang, SpeechSettings } from '../types';
+import { storageService } from '../services/storageService';
+import { speechService } from '../services/speechService';
+import { Volume2 } from 'lucide-react';
+
+const LANG_OPTIONS: { value: SpeechLang, label: string, sample: string }[] = [
+  { value: 'zh-HK', label: '粵語', sample: '學而時習之，不亦說乎？' },
+  { value: 'zh-CN', label: '普通話', sample: '學而時習之，不亦說乎？' }
+];
+
+// Read-aloud voice, rate and pitch (Settings); used by speechService in every view
+export const SpeechSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<SpeechSettings>(() => storageService.getSpeechSettings());
+  const [, setVoicesVersion] = useState(0);
+
+  useEffect(() => speechService.subscribeVoices(() => setVoicesVersion(v => v + 1)), []);
+
+  if (!speechService.isSupported()) return null;
+
+  const update = async (patch: Partial<SpeechSettings>) => {
+    const next = { ...settings, ...patch };
+    try {
+      await storageService.saveSpeechSettings(next);
+      setSettings(next);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Volume2 className="w-4 h-4 text-indigo-600" /> 朗讀</h3>
+      {LANG_OPTIONS.map(option => {
+        const voices = speechService.getVoices(option.value);
+        return (
+          <div key={option.value} className="flex items-center gap-2">
+            <span className="text-xs font-bold text-slate-600 w-12 shrink-0">{option.label}</span>
+            <select
+              value={settings.voices[option.value]}
+              onChange={e => update({ voices: { ...settings.voices, [option.value]: e.target.value } })}
+              className="flex-1 min-w-0 p-2 rounded-lg border border-slate-300 text-sm bg-white"
+            >
+              <option value="">自動選擇{voices.length === 0 ? '（未找到語音）' : ''}</option>
+              {voices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>)}
+            </select>
+            <button onClick={() => speechService.speak(option.sample, option.value)} className="text-xs px-2 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg shrink-0">試聽</button>
+          </div>
+        );
+      })}
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <span className="w-12 shrink-0 font-bold">語速</span>
+        <input type="range" min={0.5} max={1.5} step={0.1} value={settings.rate} onChange={e => update({ rate: Number(e.target.value) })} className="flex-1 accent-indigo-600" />
+        <span className="w-8 text-right font-mono">{settings.rate.toFixed(1)}</span>
+      </label>
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <span className="w-12 shrink-0 font-bold">音調</span>
+        <input type="range" min={0.5} max={1.5} step={0.1} value={settings.pitch} onChange={e => update({ pitch: Number(e.target.value) })} className="flex-1 accent-indigo-600" />
+        <span className="w-8 text-right font-mono">{settings.pitch.toFixed(1)}</span>
+      </label>
+      <p className="text-xs text-slate-400">可選語音視乎瀏覽器及作業系統。找不到粵語語音時，請在系統設定加裝「中文（香港）」語音。</p>
+    </section>
+  );
+};
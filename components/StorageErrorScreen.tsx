@@ -0,0 +1,21 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+
+interface StorageErrorScreenProps {
+  error: unknown;
+}
+
+// Shown instead of the app when storageService.init fails, so nothing is saved over data that was not loaded
+export const StorageErrorScreen: React.FC<StorageErrorScreenProps> = ({ error }) => (
+  <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+    <div className="bg-white max-w-md w-full rounded-2xl shadow-2xl p-8 space-y-4 text-center">
+      <AlertTriangle className="w-12 h-12 text-amber-500 mx-auto" />
+      <h1 className="text-xl font-bold text-slate-900">無法載入學習資料</h1>
+      <p className="text-sm text-slate-600">瀏覽器資料庫讀取失敗。為免覆蓋現有資料，程式暫停運作。請關閉其他已開啟本程式的分頁後重試；如問題持續，請檢查瀏覽器的儲存空間設定。</p>
+      {error instanceof Error && <p className="text-xs text-slate-400 font-mono break-all">{error.message}</p>}
+      <button onClick={() => window.location.reload()} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2">
+        <RefreshCw className="w-4 h-4" /> 重試
+      </button>
+    </div>
+  </div>
+);
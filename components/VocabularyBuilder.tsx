@@ -1,9 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
-import { TOPICS, VocabularyItem, AiProvider } from '../types';
+import { TOPICS, VocabularyItem, AiProvider, PROVIDER_LABELS } from '../types';
 import { generateVocabularyByTopic, generateVocabularyFromList } from '../services/geminiService';
 import { storageService } from '../services/storageService';
+import { AiError } from '../services/aiRequest';
+import { toDisplayScript } from '../services/chineseScript';
+import { speechService } from '../services/speechService';
+import { AiErrorNotice, CachedResultNotice } from './AiErrorNotice';
 import { Loader2, Eye, EyeOff, BrainCircuit, Bookmark, Check, Upload, Zap, RefreshCw, AlertCircle } from 'lucide-react';
+import { PhoneticText } from './PhoneticText';
 
 interface VocabularyBuilderProps {
   aiProvider: AiProvider;
@@ -20,6 +25,8 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
   const [importText, setImportText] = useState('');
   const [words, setWords] = useState<VocabularyItem[]>(() => storageService.getVocabCache());
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
   const [revealedCards, setRevealedCards] = useState<Set<number>>(new Set());
   const [savedWords, setSavedWords] = useState<Set<string>>(new Set());
 
@@ -34,8 +41,11 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
     storageService.setVocabMode(mode);
   }, [words, mode]);
 
-  const handleGenerate = async () => {
+  // refresh bypasses the AI result cache (word lists only; topic generation is never cached)
+  const handleGenerate = async (refresh = false) => {
     setLoading(true);
+    setError(null);
+    setCachedAt(null);
     setRevealedCards(new Set());
     
     try {
@@ -46,17 +56,17 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
       } else {
         const rawList = importText.split(/[\n,]+/).map(w => w.trim()).filter(w => w.length > 0);
         if (rawList.length === 0) { alert("請先輸入詞彙"); setLoading(false); return; }
-        newWords = await generateVocabularyFromList(rawList, aiProvider);
+        newWords = await generateVocabularyFromList(rawList, aiProvider, { refresh, onCacheHit: setCachedAt });
       }
       
       const uniqueWords = newWords.filter((v, i, a) => a.findIndex(t => t.word === v.word) === i);
       setWords(uniqueWords);
       
       if (uniqueWords.length === 0) {
-          alert("生成失敗，AI 未能回傳有效資料，請重試。");
+          setError(new AiError('malformed', "AI 未能回傳有效的詞彙卡。", { provider: aiProvider }));
       }
-    } catch (error: any) {
-      alert(`生成失敗 (${aiProvider}): ${error.message}`);
+    } catch (e) {
+      setError(e);
     } finally {
       setLoading(false);
     }
@@ -65,6 +75,7 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
   const handleClear = () => {
     if (confirm("確定清除所有卡片？")) {
       setWords([]);
+      setCachedAt(null);
       setRevealedCards(new Set());
       storageService.clearVocabCache();
     }
@@ -76,9 +87,9 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
     setRevealedCards(newRevealed);
   };
 
-  const handleSave = (item: VocabularyItem) => {
+  const handleSave = async (item: VocabularyItem) => {
     try {
-      const success = storageService.addVocabularyItem(item);
+      const success = await storageService.addVocabularyItem(item);
       if (success) {
         setSavedWords(prev => new Set(prev).add(item.word));
       } else {
@@ -89,34 +100,13 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
     }
   };
 
-  const handleSpeak = (text: string, lang: 'zh-HK' | 'zh-CN', e: React.MouseEvent) => {
-    e.stopPropagation();
-    if ('speechSynthesis' in window) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = lang;
-
-      const voices = window.speechSynthesis.getVoices();
-      const targetVoice = voices.find(v => 
-        v.lang.replace('_', '-').toLowerCase() === lang.toLowerCase() || 
-        (lang === 'zh-HK' && (v.name.includes('Cantonese') || v.name.includes('Hong Kong')))
-      );
-
-      if (targetVoice) {
-        utterance.voice = targetVoice;
-      }
-
-      window.speechSynthesis.speak(utterance);
-    }
-  };
-
   return (
     <div className="max-w-4xl mx-auto p-4 md:p-8 space-y-8 pb-24 md:pb-8">
       <div className="flex justify-between items-start">
         <div className="space-y-2">
           <div className="flex items-center gap-2">
              <h2 className="text-2xl font-bold text-slate-900">詞彙聯想記憶生成</h2>
-             <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded-full uppercase font-medium">{aiProvider}</span>
+             <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded-full uppercase font-medium">{PROVIDER_LABELS[aiProvider]}</span>
           </div>
           <p className="text-slate-600">針對記憶力薄弱者，生成帶有「聯想故事」與「應用場景」的詞彙卡。</p>
         </div>
@@ -153,12 +143,15 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
           <textarea value={importText} onChange={(e) => setImportText(e.target.value)} placeholder="輸入詞彙，用逗號分隔..." className="w-full p-4 rounded-xl border border-slate-300 bg-slate-50 h-40" />
         )}
 
-        <button onClick={handleGenerate} disabled={loading} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-xl flex items-center justify-center gap-2 transition-colors disabled:opacity-50">
+        <button onClick={() => handleGenerate()} disabled={loading} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-xl flex items-center justify-center gap-2 transition-colors disabled:opacity-50">
           {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <BrainCircuit className="w-5 h-5" />}
           {mode === 'topic' ? 'AI 智能生成' : '製作記憶卡'}
         </button>
       </div>
 
+      {error !== null && <AiErrorNotice error={error} onRetry={() => handleGenerate()} onDismiss={() => setError(null)} />}
+      <CachedResultNotice cachedAt={cachedAt} onRegenerate={() => handleGenerate(true)} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {words.map((item, index) => {
           const isRevealed = revealedCards.has(index);
@@ -167,14 +160,14 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
             <div key={index} className="bg-white rounded-xl shadow-md border border-slate-200 overflow-hidden flex flex-col h-full transition-all hover:shadow-lg">
               <div className="p-5 bg-slate-50 border-b border-slate-100 flex justify-between items-start">
                 <div>
-                  <h3 className="text-xl font-bold text-slate-900 mb-1">{item.word}</h3>
+                  <h3 className="text-xl font-bold text-slate-900 mb-1">{toDisplayScript(item.word)}</h3>
                   <div className="flex items-center gap-2 flex-wrap mb-1">
                      <div className="flex gap-1">
-                        <button onClick={(e) => handleSpeak(item.word, 'zh-HK', e)} className="text-[10px] px-1.5 py-0.5 bg-white border rounded hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 transition-colors">粵</button>
-                        <button onClick={(e) => handleSpeak(item.word, 'zh-CN', e)} className="text-[10px] px-1.5 py-0.5 bg-white border rounded hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 transition-colors">普</button>
+                        <button onClick={(e) => { e.stopPropagation(); speechService.speak(item.word, 'zh-HK'); }} className="text-[10px] px-1.5 py-0.5 bg-white border rounded hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 transition-colors">粵</button>
+                        <button onClick={(e) => { e.stopPropagation(); speechService.speak(item.word, 'zh-CN'); }} className="text-[10px] px-1.5 py-0.5 bg-white border rounded hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 transition-colors">普</button>
                      </div>
                   </div>
-                  {item.phonetic && <span className="text-xs text-slate-500 font-mono bg-slate-200 px-1 rounded">粵: {item.phonetic}</span>}
+                  <PhoneticText jyutping={item.jyutping} pinyin={item.pinyin} word={item.word} labelled className="text-xs text-slate-500 font-mono bg-slate-200 px-1 rounded" />
                 </div>
                 <div className="flex gap-2">
                   <button onClick={() => handleSave(item)} disabled={isSaved} className={`p-1 rounded-full transition-colors ${isSaved ? 'text-emerald-500 bg-emerald-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}>
@@ -189,7 +182,7 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
                  <div className="bg-amber-50 p-3 rounded-lg border border-amber-100">
                     <span className="text-xs font-bold text-amber-700 uppercase tracking-wider block mb-1">🧠 記憶聯想</span>
                     {item.mnemonic ? (
-                        <p className="text-sm text-amber-900 italic leading-relaxed">{item.mnemonic}</p>
+                        <p className="text-sm text-amber-900 italic leading-relaxed">{toDisplayScript(item.mnemonic)}</p>
                     ) : (
                         <p className="text-sm text-amber-900/50 italic flex items-center gap-2"><AlertCircle className="w-3 h-3" /> 暫無聯想內容</p>
                     )}
@@ -199,12 +192,12 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
                     <div>
                       {/* Bolded definition for better visibility on iOS */}
                       <p className="text-slate-900 font-bold leading-relaxed">{item.definition || <span className="text-slate-400 italic font-normal">暫無解釋 (AI 未提供)</span>}</p>
-                      {item.chineseTranslation && <p className="text-slate-500 text-xs mt-1">{item.chineseTranslation}</p>}
+                      {item.chineseTranslation && <p className="text-slate-500 text-xs mt-1">{toDisplayScript(item.chineseTranslation)}</p>}
                     </div>
                     <div>
                       <span className="text-xs font-semibold text-slate-400 uppercase">例句</span>
                       {item.exampleSentence ? (
-                         <p className="text-indigo-900 bg-indigo-50 p-2 rounded text-sm border-l-4 border-indigo-400 mt-1">{item.exampleSentence}</p>
+                         <p className="text-indigo-900 bg-indigo-50 p-2 rounded text-sm border-l-4 border-indigo-400 mt-1">{toDisplayScript(item.exampleSentence)}</p>
                       ) : (
                          <p className="text-slate-400 italic text-sm mt-1">暫無例句</p>
                       )}
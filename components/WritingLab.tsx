@@ -2,27 +2,43 @@
 import React, { useState, useEffect } from 'react';
 import { analyzeWriting } from '../services/geminiService';
 import { storageService } from '../services/storageService';
-import { Loader2, CheckCircle2, ArrowRight, BookOpen, Bookmark, Check, Save, AlertCircle } from 'lucide-react';
-import { AiProvider, VocabularyItem, WritingEntry } from '../types';
+import { aiQueue } from '../services/aiQueue';
+import { toAiError } from '../services/aiRequest';
+import { toDisplayScript } from '../services/chineseScript';
+import { speechService } from '../services/speechService';
+import { AiErrorNotice, MissingFieldsNotice } from './AiErrorNotice';
+import { QueuedRequests } from './QueuedRequests';
+import { Loader2, CheckCircle2, ArrowRight, BookOpen, Bookmark, Check, Save, WifiOff } from 'lucide-react';
+import { AiProvider, PROVIDER_LABELS, VocabularyItem, WritingEntry, WritingAnalysis, QueuedAiRequest } from '../types';
+import { PhoneticText } from './PhoneticText';
 
 interface WritingLabProps {
   aiProvider: AiProvider;
 }
 
+const CUSTOM_CONTEXT = '自訂 (Custom)';
+
+const WRITING_CONTEXTS = [
+  '議論文 (Argumentative Essay)',
+  '記敍文 (Narrative)',
+  '實用文 (Practical Writing)',
+  '商業書信/電郵 (Business Email)',
+  '政府公文 (Official Document)',
+  '求職信 (Cover Letter)',
+  '演講辭 (Speech)',
+  CUSTOM_CONTEXT
+];
+
 export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
   const [text, setText] = useState('');
-  const [context, setContext] = useState('議論文 (Argumentative Essay)');
+  const [context, setContext] = useState(WRITING_CONTEXTS[0]);
   const [customContext, setCustomContext] = useState('');
-  const [result, setResult] = useState<{ 
-    correction: string, 
-    explanation: string, 
-    improvedVersion: string,
-    keyVocabulary?: VocabularyItem[]
-  } | null>(null);
+  const [result, setResult] = useState<WritingAnalysis | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [savedWords, setSavedWords] = useState<Set<string>>(new Set());
   const [isAnalysisSaved, setIsAnalysisSaved] = useState(false);
+  const [isQueued, setIsQueued] = useState(false);
 
   useEffect(() => {
     const library = storageService.getVocabulary();
@@ -35,28 +51,54 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
     setResult(null);
     setError(null);
     setIsAnalysisSaved(false);
+    setIsQueued(false);
     
-    const finalContext = context === '自訂 (Custom)' ? customContext : context;
+    const finalContext = context === CUSTOM_CONTEXT ? customContext : context;
     if (!finalContext.trim()) {
         alert("請輸入寫作情境");
         setLoading(false);
         return;
     }
 
+    // Offline: queue the analysis, it runs once the connection is back
+    const queue = async () => {
+      await aiQueue.enqueue({ kind: 'writing', provider: aiProvider, text, context: finalContext });
+      setIsQueued(true);
+    };
+
     try {
+      if (!navigator.onLine) {
+        await queue();
+        return;
+      }
       const analysis = await analyzeWriting(text, finalContext, aiProvider);
       setResult(analysis);
-    } catch (e: any) {
+    } catch (e) {
       console.error(e);
-      setError(e.message || "分析失敗，請檢查網絡或 API 金鑰。");
+      if (toAiError(e).kind === 'network' && !navigator.onLine) {
+        await queue().catch(setError);
+      } else {
+        setError(e);
+      }
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSaveWord = (item: VocabularyItem) => {
+  const handleOpenQueued = (request: QueuedAiRequest) => {
+    const queuedContext = request.context || '';
+    setText(request.text);
+    setContext(WRITING_CONTEXTS.includes(queuedContext) ? queuedContext : CUSTOM_CONTEXT);
+    setCustomContext(WRITING_CONTEXTS.includes(queuedContext) ? '' : queuedContext);
+    setResult(request.result as WritingAnalysis);
+    setError(null);
+    setIsAnalysisSaved(false);
+    setIsQueued(false);
+  };
+
+  const handleSaveWord = async (item: VocabularyItem) => {
     try {
-      const success = storageService.addVocabularyItem(item);
+      const success = await storageService.addVocabularyItem(item);
       if (success) {
         setSavedWords(prev => new Set(prev).add(item.word));
       }
@@ -65,7 +107,7 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
     }
   };
 
-  const handleSaveAnalysis = () => {
+  const handleSaveAnalysis = async () => {
     if (!result) return;
     try {
       const entry: WritingEntry = {
@@ -74,43 +116,23 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
         correction: result.correction,
         improvedVersion: result.improvedVersion,
         explanation: result.explanation,
-        context: context === '自訂 (Custom)' ? customContext : context,
+        context: context === CUSTOM_CONTEXT ? customContext : context,
         date: new Date().toLocaleDateString()
       };
       
-      storageService.addWritingEntry(entry);
+      await storageService.addWritingEntry(entry);
       setIsAnalysisSaved(true);
     } catch (e: any) {
       alert(e.message);
     }
   };
 
-  const handleSpeak = (text: string, lang: 'zh-CN' | 'zh-HK' = 'zh-HK') => {
-    if ('speechSynthesis' in window) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = lang;
-
-      const voices = window.speechSynthesis.getVoices();
-      const targetVoice = voices.find(v => 
-        v.lang.replace('_', '-').toLowerCase() === lang.toLowerCase() || 
-        (lang === 'zh-HK' && (v.name.includes('Cantonese') || v.name.includes('Hong Kong')))
-      );
-
-      if (targetVoice) {
-        utterance.voice = targetVoice;
-      }
-
-      window.speechSynthesis.speak(utterance);
-    }
-  };
-
   return (
     <div className="max-w-4xl mx-auto p-4 md:p-8 space-y-6 pb-24 md:pb-8">
       <div className="space-y-2">
         <div className="flex items-center gap-2">
            <h2 className="text-2xl font-bold text-slate-900">寫作修飾實驗室</h2>
-           <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded-full uppercase font-medium">{aiProvider}</span>
+           <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded-full uppercase font-medium">{PROVIDER_LABELS[aiProvider]}</span>
         </div>
         <p className="text-slate-600">輸入你的文章草稿（議論文、記敍文、公文等），AI 將協助潤飾文筆並提供高級詞彙建議。</p>
       </div>
@@ -124,17 +146,10 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
               onChange={(e) => setContext(e.target.value)}
               className="w-full p-2 mb-2 rounded-lg border border-slate-300 bg-slate-50 text-sm"
             >
-              <option>議論文 (Argumentative Essay)</option>
-              <option>記敍文 (Narrative)</option>
-              <option>實用文 (Practical Writing)</option>
-              <option>商業書信/電郵 (Business Email)</option>
-              <option>政府公文 (Official Document)</option>
-              <option>求職信 (Cover Letter)</option>
-              <option>演講辭 (Speech)</option>
-              <option>自訂 (Custom)</option>
+              {WRITING_CONTEXTS.map(option => <option key={option}>{option}</option>)}
             </select>
             
-            {context === '自訂 (Custom)' && (
+            {context === CUSTOM_CONTEXT && (
                 <input 
                     type="text"
                     value={customContext}
@@ -163,12 +178,14 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
         </div>
 
         <div className="space-y-4">
-          {error && (
-            <div className="bg-red-50 border border-red-200 p-4 rounded-xl flex items-start gap-3">
-              <AlertCircle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
-              <div className="text-sm text-red-700"><p className="font-bold">錯誤</p><p>{error}</p></div>
+          {error !== null && <AiErrorNotice error={error} onRetry={handleAnalyze} onDismiss={() => setError(null)} />}
+          {isQueued && (
+            <div className="bg-amber-50 border border-amber-200 p-3 rounded-xl text-sm text-amber-800 flex items-start gap-2 animate-in fade-in">
+              <WifiOff className="w-4 h-4 shrink-0 mt-0.5" />
+              <p>目前離線，已把這篇文章加入佇列。恢復連線後會自動分析，完成後可在下方「查看結果」。</p>
             </div>
           )}
+          <QueuedRequests kind="writing" onOpen={handleOpenQueued} />
 
           {result ? (
             <div className="space-y-4 animate-in slide-in-from-bottom-4 duration-500">
@@ -183,6 +200,8 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
                  </button>
               </div>
 
+              <MissingFieldsNotice fields={result.missingFields} onRetry={handleAnalyze} />
+
               <div className="bg-white p-5 rounded-xl shadow-sm border border-l-4 border-l-emerald-500 border-slate-200">
                 <h3 className="text-sm font-bold text-emerald-700 uppercase tracking-wide mb-2 flex items-center gap-2"><CheckCircle2 className="w-4 h-4" /> 語法修正</h3>
                 <p className="text-slate-800 text-lg leading-relaxed">{result.correction}</p>
@@ -193,7 +212,7 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
                 <p className="text-slate-800 italic leading-relaxed">"{result.improvedVersion}"</p>
               </div>
 
-              {result.keyVocabulary && result.keyVocabulary.length > 0 && (
+              {result.keyVocabulary.length > 0 && (
                 <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
                   <h3 className="text-sm font-bold text-amber-600 uppercase tracking-wide mb-3 flex items-center gap-2"><BookOpen className="w-4 h-4" /> 建議高級詞彙</h3>
                   <div className="space-y-3">
@@ -203,17 +222,17 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
                         <div key={idx} className="p-3 bg-slate-50 rounded-lg border border-slate-100 flex flex-col gap-2">
                           <div className="flex justify-between items-start">
                              <div className="flex items-center gap-2">
-                                <span className="font-bold text-slate-900">{wordItem.word}</span>
-                                {wordItem.phonetic && <span className="text-xs text-slate-500 font-mono bg-slate-200 px-1 rounded">粵: {wordItem.phonetic}</span>}
+                                <span className="font-bold text-slate-900">{toDisplayScript(wordItem.word)}</span>
+                                <PhoneticText jyutping={wordItem.jyutping} pinyin={wordItem.pinyin} word={wordItem.word} labelled className="text-xs text-slate-500 font-mono bg-slate-200 px-1 rounded" />
                                 <div className="flex gap-1 ml-1">
-                                    <button onClick={() => handleSpeak(wordItem.word, 'zh-HK')} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">粵</button>
-                                    <button onClick={() => handleSpeak(wordItem.word, 'zh-CN')} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">普</button>
+                                    <button onClick={() => speechService.speak(wordItem.word, 'zh-HK')} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">粵</button>
+                                    <button onClick={() => speechService.speak(wordItem.word, 'zh-CN')} className="text-[10px] px-1.5 border rounded hover:bg-slate-100">普</button>
                                 </div>
                              </div>
                              <button onClick={() => handleSaveWord(wordItem)} disabled={isSaved} className={`p-1.5 rounded-full ${isSaved ? 'text-emerald-500 bg-emerald-50' : 'text-indigo-600 border border-slate-200'}`}>{isSaved ? <Check className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}</button>
                           </div>
-                          <p className="text-sm text-slate-600">{wordItem.definition}</p>
-                          <div className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 italic">💡 {wordItem.mnemonic}</div>
+                          <p className="text-sm text-slate-600">{toDisplayScript(wordItem.definition)}</p>
+                          <div className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 italic">💡 {toDisplayScript(wordItem.mnemonic)}</div>
                         </div>
                       );
                     })}
@@ -221,7 +240,7 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
                 </div>
               )}
             </div>
-          ) : !loading && !error && (
+          ) : !loading && error === null && (
             <div className="h-full flex flex-col items-center justify-center text-slate-400 bg-slate-100/50 rounded-xl border border-dashed border-slate-300 p-8">
               <p className="text-center">請在左側輸入文字以獲得專業建議。</p>
             </div>
@@ -1,6 +1,16 @@
+/// <reference types="vite/client" />
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import '@fontsource/inter/latin-300.css';
+import '@fontsource/inter/latin-400.css';
+import '@fontsource/inter/latin-500.css';
+import '@fontsource/inter/latin-600.css';
+import '@fontsource/inter/latin-700.css';
+import './index.css';
 import App from './App';
+import { StorageErrorScreen } from './components/StorageErrorScreen';
+import { storageService } from './services/storageService';
+import { ensureDisplayScript } from './services/chineseScript';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,8 +18,25 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+
+// Load IndexedDB data (and migrate old localStorage data) before the first render
+storageService.init()
+  .then(() => ensureDisplayScript().catch(e => console.warn("Could not load the Simplified Chinese tables", e)))
+  .then(() => {
+    root.render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>
+    );
+  })
+  .catch(e => {
+    console.error("Storage initialisation failed", e);
+    root.render(<StorageErrorScreen error={e} />);
+  });
+
+// The service worker only exists in production builds (see pwaPlugin in vite.config.ts)
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./sw.js').catch(e => console.warn("Service worker registration failed", e));
+  });
+}
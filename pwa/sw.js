@@ -0,0 +1,43 @@
+// Service worker template. pwaPlugin in vite.config.ts emits it as sw.js at build time, filling in the
+// list of built files and a build id derived from it, so every deployment installs a fresh cache
+// and drops the old one.
+
+const PRECACHE = __PRECACHE__;
+const CACHE_NAME = 'memoralink-' + __BUILD_ID__;
+const INDEX_URL = new URL('./index.html', self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE.map(path => new URL(path, self.registration.scope).href)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('memoralink-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // API calls (auth, AI proxy, sync) always go to the network; the app handles being offline itself
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Pages: network first so deployments show up, the cached app shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match(INDEX_URL).then(cached => cached || Response.error()))
+    );
+    return;
+  }
+
+  // Built files are fingerprinted, so the cached copy is always current
+  event.respondWith(
+    caches.match(request).then(cached => cached || fetch(request))
+  );
+});
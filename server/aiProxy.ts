@@ -0,0 +1,218 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from './config';
+import { HttpError, readJsonBody, sendJson } from './http';
+import { requireSession } from './authRoutes';
+import { countRequest, estimateCost, getDailyUsage, recordUsage, summarizeUsage, toFeature, today, ProxiedProvider } from './usageLog';
+
+// Forwards the browser's DeepSeek and Gemini calls with the server-held API keys:
+//   POST /api/ai/deepseek/chat/completions                              (OpenAI chat completions)
+//   POST /api/ai/gemini/v1beta/models/<model>:generateContent           (used by @google/genai)
+//   POST /api/ai/gemini/v1beta/models/<model>:streamGenerateContent
+//   GET  /api/ai/usage                                                  (usage, cost and limits)
+// Requests need a session, count against the user's daily quota and the team's budget and are
+// size-limited. The X-MemoraLink-Feature header names the part of the app that made the call.
+
+interface ProxyTarget {
+  provider: ProxiedProvider;
+  url: string;
+  model: string;
+}
+
+const GEMINI_PATH = /^\/api\/ai\/gemini\/v1beta\/models\/([\w.-]+):(generateContent|streamGenerateContent)$/;
+
+const resolveTarget = (pathname: string, search: string, body: any): ProxyTarget | null => {
+  if (pathname === '/api/ai/deepseek/chat/completions') {
+    return { provider: 'deepseek', url: `${config.ai.deepseek.baseUrl}/chat/completions`, model: String(body.model || '') };
+  }
+  const gemini = pathname.match(GEMINI_PATH);
+  if (gemini) {
+    // Only the alt=sse switch is passed on; any key in the query string is dropped
+    const alt = new URLSearchParams(search).get('alt') === 'sse' ? '?alt=sse' : '';
+    return { provider: 'gemini', url: `${config.ai.gemini.baseUrl}/v1beta/models/${gemini[1]}:${gemini[2]}${alt}`, model: gemini[1] };
+  }
+  return null;
+};
+
+const msUntilMidnight = (): number => {
+  const midnight = new Date();
+  midnight.setHours(24, 0, 0, 0);
+  return midnight.getTime() - Date.now();
+};
+
+const checkQuota = (username: string): void => {
+  const usage = getDailyUsage(username);
+  const { dailyRequestLimit, dailyTokenLimit } = config.ai;
+  if ((dailyRequestLimit && usage.requests >= dailyRequestLimit) || (dailyTokenLimit && usage.tokens >= dailyTokenLimit)) {
+    throw new HttpError(429, '今日的 AI 用量已達上限，額度將於午夜重設。', { code: 'daily_limit', retryAfterMs: msUntilMidnight() });
+  }
+};
+
+const msUntilNextMonth = (): number => {
+  const next = new Date();
+  next.setMonth(next.getMonth() + 1, 1);
+  next.setHours(0, 0, 0, 0);
+  return next.getTime() - Date.now();
+};
+
+// Costs are only known once a response arrives, so calls already running can overshoot the cap slightly
+const checkBudget = (): void => {
+  const { dailyBudgetUsd, monthlyBudgetUsd } = config.ai;
+  if (monthlyBudgetUsd && summarizeUsage('month').costUsd >= monthlyBudgetUsd) {
+    throw new HttpError(429, '本月的 AI 預算已用完，將於下月一日重設。', { code: 'budget', retryAfterMs: msUntilNextMonth() });
+  }
+  if (dailyBudgetUsd && summarizeUsage('day').costUsd >= dailyBudgetUsd) {
+    throw new HttpError(429, '今日的 AI 預算已用完，將於午夜重設。', { code: 'budget', retryAfterMs: msUntilMidnight() });
+  }
+};
+
+type TokenCounts = { promptTokens: number, completionTokens: number };
+
+// Reads token counts from either provider's response (or one stream chunk of it)
+const extractUsage = (provider: ProxiedProvider, data: any): TokenCounts | null => {
+  if (provider === 'deepseek' && data?.usage) {
+    return { promptTokens: data.usage.prompt_tokens || 0, completionTokens: data.usage.completion_tokens || 0 };
+  }
+  const meta = data?.usageMetadata;
+  if (provider === 'gemini' && meta) {
+    const promptTokens = meta.promptTokenCount || 0;
+    return { promptTokens, completionTokens: Math.max(0, (meta.totalTokenCount || 0) - promptTokens) };
+  }
+  return null;
+};
+
+// Gemini repeats cumulative usage on every chunk and DeepSeek sends it on the last one, so the last match wins
+const usageFromEventStream = (provider: ProxiedProvider, text: string): TokenCounts | null => {
+  let usage: TokenCounts | null = null;
+  for (const line of text.split('\n')) {
+    const payload = line.trim().startsWith('data:') ? line.trim().slice(5).trim() : '';
+    if (!payload || payload === '[DONE]') continue;
+    try {
+      usage = extractUsage(provider, JSON.parse(payload)) || usage;
+    } catch {
+      // Partial or non-JSON line
+    }
+  }
+  return usage;
+};
+
+const forward = async (req: IncomingMessage, res: ServerResponse, pathname: string, search: string) => {
+  const session = await requireSession(req);
+  const body = await readJsonBody(req, config.ai.maxRequestBytes);
+  const target = resolveTarget(pathname, search, body);
+  if (!target) throw new HttpError(404, '找不到此 API。');
+
+  const provider = config.ai[target.provider];
+  if (!provider.apiKey) {
+    throw new HttpError(503, `伺服器尚未設定 ${target.provider === 'deepseek' ? 'DEEPSEEK_API_KEY' : 'GEMINI_API_KEY'}，請聯絡管理員。`, { code: 'config' });
+  }
+  if (!provider.models.includes(target.model)) {
+    throw new HttpError(400, `伺服器不允許使用模型「${target.model}」。`);
+  }
+
+  const isStream = target.provider === 'deepseek' ? body.stream === true : target.url.includes(':streamGenerateContent');
+  if (target.provider === 'deepseek' && isStream) body.stream_options = { include_usage: true };
+  const payload = JSON.stringify(body);
+
+  const feature = toFeature(req.headers['x-memoralink-feature']);
+  // Checked and counted with no await in between, so parallel requests cannot all pass the limit
+  checkQuota(session.username);
+  checkBudget();
+  countRequest(session.username, target.provider, feature);
+  const started = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.ai.upstreamTimeoutMs);
+  // Stop paying for tokens nobody will read when the browser goes away
+  res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+  let status = 502;
+  let usage: TokenCounts | null = null;
+  try {
+    let upstream: Response;
+    try {
+      upstream = await fetch(target.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(target.provider === 'deepseek' ? { Authorization: `Bearer ${provider.apiKey}` } : { 'x-goog-api-key': provider.apiKey })
+        },
+        body: payload,
+        signal: controller.signal
+      });
+    } catch {
+      throw new HttpError(controller.signal.aborted ? 504 : 502, '無法連接 AI 供應商，請稍後再試。');
+    }
+    status = upstream.status;
+
+    const headers: Record<string, string> = { 'Content-Type': upstream.headers.get('content-type') || 'application/json', 'Cache-Control': 'no-store' };
+    const retryAfter = upstream.headers.get('retry-after');
+    if (retryAfter) headers['Retry-After'] = retryAfter;
+
+    if (isStream && upstream.ok && upstream.body) {
+      res.writeHead(status, headers);
+      const reader = upstream.body.getReader();
+      const decoder = new TextDecoder();
+      let text = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value, { stream: true });
+        res.write(value);
+      }
+      res.end();
+      usage = usageFromEventStream(target.provider, text);
+    } else {
+      const text = await upstream.text();
+      res.writeHead(status, headers);
+      res.end(text);
+      try {
+        usage = extractUsage(target.provider, JSON.parse(text));
+      } catch {
+        // Error pages from the provider are not always JSON
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+    recordUsage({
+      time: new Date(started).toISOString(),
+      day: today(),
+      username: session.username,
+      provider: target.provider,
+      feature,
+      model: target.model,
+      stream: isStream,
+      status,
+      durationMs: Date.now() - started,
+      requestBytes: Buffer.byteLength(payload),
+      promptTokens: usage?.promptTokens || 0,
+      completionTokens: usage?.completionTokens || 0,
+      costUsd: estimateCost(target.model, usage?.promptTokens || 0, usage?.completionTokens || 0)
+    }).catch(err => console.error('Could not write the AI usage log', err));
+  }
+};
+
+const handleUsage = async (req: IncomingMessage, res: ServerResponse) => {
+  const session = await requireSession(req);
+  sendJson(res, 200, {
+    day: today(),
+    ...getDailyUsage(session.username),
+    requestLimit: config.ai.dailyRequestLimit,
+    tokenLimit: config.ai.dailyTokenLimit,
+    dailyBudgetUsd: config.ai.dailyBudgetUsd,
+    monthlyBudgetUsd: config.ai.monthlyBudgetUsd,
+    today: { user: summarizeUsage('day', session.username), team: summarizeUsage('day') },
+    month: { user: summarizeUsage('month', session.username), team: summarizeUsage('month') }
+  });
+};
+
+// Returns false when the path is not an AI route
+export const handleAiRoute = async (req: IncomingMessage, res: ServerResponse, pathname: string, search: string): Promise<boolean> => {
+  if (!pathname.startsWith('/api/ai/')) return false;
+  if (pathname === '/api/ai/usage') {
+    if (req.method !== 'GET') throw new HttpError(405, '不支援此請求方法。');
+    await handleUsage(req, res);
+    return true;
+  }
+  if (req.method !== 'POST') throw new HttpError(405, '不支援此請求方法。');
+  await forward(req, res, pathname, search);
+  return true;
+};
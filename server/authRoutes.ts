@@ -0,0 +1,92 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from './config';
+import { HttpError, clientIp, parseCookies, readJsonBody, sendJson } from './http';
+import { getDummyHash, verifyPassword } from './passwords';
+import { findUser, normaliseUsername } from './userStore';
+import { createSession, deleteSession, getSession, Session } from './sessionStore';
+import { recordLoginFailure, recordLoginSuccess, registerLoginAttempt } from './loginGuard';
+
+// POST /api/auth/login, POST /api/auth/logout, GET /api/auth/session
+
+export const SESSION_COOKIE = 'memoralink_session';
+
+const sessionCookie = (token: string, maxAgeMs: number): string => [
+  `${SESSION_COOKIE}=${token}`,
+  'Path=/api',
+  'HttpOnly',
+  'SameSite=Strict',
+  `Max-Age=${Math.max(0, Math.floor(maxAgeMs / 1000))}`,
+  ...(config.cookieSecure ? ['Secure'] : [])
+].join('; ');
+
+const sessionInfo = (session: Session) => ({ username: session.username, expiresAt: new Date(session.expiresAt).toISOString() });
+
+const minutes = (ms: number) => Math.ceil(ms / 60000);
+
+// For other API routes: resolves the signed-in user or throws 401. The account is re-read on every
+// request because `npm run users` changes it from another process, whose session cleanup this server
+// does not see: a removed account or a password changed after sign-in ends the session.
+export const requireSession = async (req: IncomingMessage): Promise<Session> => {
+  const token = parseCookies(req)[SESSION_COOKIE];
+  const session = await getSession(token);
+  if (!session) throw new HttpError(401, '登入已過期，請重新登入。', { code: 'session' });
+  const user = await findUser(session.username);
+  if (!user || session.createdAt < Date.parse(user.passwordChangedAt)) {
+    await deleteSession(token);
+    throw new HttpError(401, '登入已失效，請重新登入。', { code: 'session' });
+  }
+  return session;
+};
+
+const handleLogin = async (req: IncomingMessage, res: ServerResponse) => {
+  const body = await readJsonBody<{ username?: unknown, password?: unknown }>(req);
+  if (typeof body.username !== 'string' || typeof body.password !== 'string' || !body.username.trim() || !body.password) {
+    throw new HttpError(400, '請輸入用戶名稱及密碼。');
+  }
+  const username = normaliseUsername(body.username);
+
+  const block = registerLoginAttempt(clientIp(req), username);
+  if (block) {
+    const message = block.reason === 'locked'
+      ? `登入失敗次數過多，帳戶已暫時鎖定，請於 ${minutes(block.retryAfterMs)} 分鐘後再試。`
+      : `嘗試次數過多，請於 ${minutes(block.retryAfterMs)} 分鐘後再試。`;
+    throw new HttpError(429, message, { retryAfterMs: block.retryAfterMs });
+  }
+
+  const user = await findUser(username);
+  // Unknown users still pay for a hash check so timing does not reveal which names exist
+  const valid = await verifyPassword(body.password, user?.passwordHash || await getDummyHash());
+  if (!user || !valid) {
+    const lockoutMs = recordLoginFailure(username);
+    if (lockoutMs) throw new HttpError(429, `登入失敗次數過多，帳戶已暫時鎖定 ${minutes(lockoutMs)} 分鐘。`, { retryAfterMs: lockoutMs });
+    throw new HttpError(401, '用戶名稱或密碼錯誤。');
+  }
+
+  recordLoginSuccess(username);
+  const { token, session } = await createSession(user.username);
+  sendJson(res, 200, sessionInfo(session), { 'Set-Cookie': sessionCookie(token, config.sessionTtlMs) });
+};
+
+const handleLogout = async (req: IncomingMessage, res: ServerResponse) => {
+  await deleteSession(parseCookies(req)[SESSION_COOKIE]);
+  sendJson(res, 200, { ok: true }, { 'Set-Cookie': sessionCookie('', 0) });
+};
+
+const handleSession = async (req: IncomingMessage, res: ServerResponse) => {
+  const session = await requireSession(req);
+  sendJson(res, 200, sessionInfo(session));
+};
+
+// Returns false when the path is not an auth route
+export const handleAuthRoute = async (req: IncomingMessage, res: ServerResponse, pathname: string): Promise<boolean> => {
+  const routes: Record<string, { method: string, handler: (req: IncomingMessage, res: ServerResponse) => Promise<void> }> = {
+    '/api/auth/login': { method: 'POST', handler: handleLogin },
+    '/api/auth/logout': { method: 'POST', handler: handleLogout },
+    '/api/auth/session': { method: 'GET', handler: handleSession }
+  };
+  const route = routes[pathname];
+  if (!route) return false;
+  if (req.method !== route.method) throw new HttpError(405, '不支援此請求方法。');
+  await route.handler(req, res);
+  return true;
+};
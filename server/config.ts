@@ -0,0 +1,95 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+
+// Server settings, read once from the environment. Secrets never reach the browser bundle.
+
+// KEY=value lines of an env file; # comments, an optional "export " and matching quotes are allowed.
+// Parsed here because process.loadEnvFile needs Node 20.12 and the server supports Node 18.
+const loadEnvFile = (file: string) => {
+  for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+    if (!match) continue;
+    const [, name, raw] = match;
+    const quoted = raw.match(/^(['"`])(.*)\1$/);
+    const value = quoted ? quoted[2] : raw.replace(/\s+#.*$/, '');
+    if (process.env[name] === undefined) process.env[name] = quoted?.[1] === '"' ? value.replace(/\\n/g, '\n') : value;
+  }
+};
+
+// The env files Vite used to read; variables already set in the environment take precedence
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) loadEnvFile(file);
+}
+
+const intFromEnv = (name: string, fallback: number): number => {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const listFromEnv = (name: string, fallback: string[]): string[] =>
+  process.env[name] ? process.env[name]!.split(',').map(s => s.trim()).filter(Boolean) : fallback;
+
+const amountFromEnv = (name: string, fallback: number): number => {
+  const value = Number.parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export interface ModelPrice {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+// AI_PRICES="deepseek-chat=0.28/0.42,gemini-3-flash-preview=0.5/3" overrides or adds entries
+const pricesFromEnv = (name: string, fallback: Record<string, ModelPrice>): Record<string, ModelPrice> => {
+  const prices = { ...fallback };
+  for (const item of listFromEnv(name, [])) {
+    const match = item.match(/^([\w.@-]+)=([\d.]+)\/([\d.]+)$/);
+    if (match) prices[match[1]] = { input: Number(match[2]), output: Number(match[3]) };
+    else console.warn(`Ignoring malformed ${name} entry "${item}"`);
+  }
+  return prices;
+};
+
+export const config = {
+  port: intFromEnv('PORT', 8787),
+  dataDir: path.resolve(process.env.DATA_DIR || 'server/data'),
+  staticDir: path.resolve(process.env.STATIC_DIR || 'dist'), // Built front end, served when present
+  sessionTtlMs: intFromEnv('SESSION_TTL_HOURS', 24 * 7) * 60 * 60 * 1000,
+  // Set COOKIE_SECURE=false only for plain-http local testing
+  cookieSecure: process.env.COOKIE_SECURE !== 'false' && process.env.NODE_ENV === 'production',
+  // Behind a reverse proxy (Render, nginx) the client address comes from X-Forwarded-For
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  login: {
+    ipWindowMs: 15 * 60 * 1000,
+    ipMaxAttempts: intFromEnv('LOGIN_MAX_ATTEMPTS_PER_IP', 20),
+    userMaxFailures: intFromEnv('LOGIN_MAX_FAILURES', 5),
+    lockoutMs: intFromEnv('LOGIN_LOCKOUT_MINUTES', 15) * 60 * 1000
+  },
+  // AI proxy: provider keys stay here; base URLs can point at a fake upstream for testing
+  ai: {
+    deepseek: {
+      baseUrl: (process.env.DEEPSEEK_BASE_URL || 'https://api.deepseek.com').replace(/\/+$/, ''),
+      apiKey: process.env.DEEPSEEK_API_KEY || '',
+      models: listFromEnv('DEEPSEEK_MODELS', ['deepseek-chat'])
+    },
+    gemini: {
+      baseUrl: (process.env.GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com').replace(/\/+$/, ''),
+      apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || '',
+      models: listFromEnv('GEMINI_MODELS', ['gemini-3-flash-preview'])
+    },
+    dailyRequestLimit: intFromEnv('AI_DAILY_REQUEST_LIMIT', 300), // Per user; 0 = unlimited
+    dailyTokenLimit: intFromEnv('AI_DAILY_TOKEN_LIMIT', 0), // Per user; 0 = unlimited
+    // Estimated cost per model, from the providers' list prices; models missing here count as free
+    prices: pricesFromEnv('AI_PRICES', {
+      'deepseek-chat': { input: 0.28, output: 0.42 },
+      'gemini-3-flash-preview': { input: 0.5, output: 3 }
+    }),
+    dailyBudgetUsd: amountFromEnv('AI_DAILY_BUDGET_USD', 0), // All users together; 0 = no cap
+    monthlyBudgetUsd: amountFromEnv('AI_MONTHLY_BUDGET_USD', 0),
+    maxRequestBytes: intFromEnv('AI_MAX_REQUEST_KB', 64) * 1024,
+    upstreamTimeoutMs: intFromEnv('AI_UPSTREAM_TIMEOUT_SECONDS', 120) * 1000
+  },
+  sync: {
+    maxRequestBytes: intFromEnv('SYNC_MAX_REQUEST_MB', 8) * 1024 * 1024 // One push of changed records (images are never synced)
+  }
+};
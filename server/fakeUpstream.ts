@@ -0,0 +1,90 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readJsonBody, sendJson } from './http';
+
+// Stand-in for the DeepSeek and Gemini APIs, for testing the proxy without real keys or cost:
+//   npm run fake-upstream
+//   DEEPSEEK_BASE_URL=http://localhost:8788 GEMINI_BASE_URL=http://localhost:8788 \
+//   DEEPSEEK_API_KEY=test-key GEMINI_API_KEY=test-key npm run dev:server
+// Replies echo the last user message. Put "[fake:429]" or "[fake:500]" in a prompt to get that error.
+
+const PORT = Number(process.env.FAKE_UPSTREAM_PORT) || 8788;
+const API_KEY = process.env.FAKE_UPSTREAM_KEY || 'test-key';
+
+const sendEvents = async (res: ServerResponse, events: unknown[], done: boolean) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  for (const event of events) {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  if (done) res.write('data: [DONE]\n\n');
+  res.end();
+};
+
+// Roughly one token per two characters, enough to exercise the usage log
+const countTokens = (text: string) => Math.ceil(text.length / 2);
+
+const fakeError = (res: ServerResponse, prompt: string): boolean => {
+  const match = prompt.match(/\[fake:(\d{3})\]/);
+  if (!match) return false;
+  const status = Number(match[1]);
+  sendJson(res, status, { error: { message: `Fake upstream error ${status}` } }, status === 429 ? { 'Retry-After': '1' } : {});
+  return true;
+};
+
+const handleChatCompletions = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.headers.authorization !== `Bearer ${API_KEY}`) return sendJson(res, 401, { error: { message: 'Invalid API key' } });
+  const body = await readJsonBody(req, 1024 * 1024);
+  const prompt = [...(body.messages || [])].reverse().find((m: any) => m.role === 'user')?.content || '';
+  if (fakeError(res, prompt)) return;
+
+  const reply = body.response_format?.type === 'json_object' ? JSON.stringify({ echo: prompt }) : `（模擬回覆）${prompt}`;
+  const promptTokens = countTokens(JSON.stringify(body.messages));
+  const usage = { prompt_tokens: promptTokens, completion_tokens: countTokens(reply), total_tokens: promptTokens + countTokens(reply) };
+
+  if (!body.stream) {
+    return sendJson(res, 200, { id: 'fake', model: body.model, choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }], usage });
+  }
+  const chunks = reply.match(/.{1,4}/gs) || [];
+  const events: unknown[] = chunks.map(text => ({ id: 'fake', choices: [{ index: 0, delta: { content: text } }] }));
+  if (body.stream_options?.include_usage) events.push({ id: 'fake', choices: [], usage });
+  await sendEvents(res, events, true);
+};
+
+const handleGemini = async (req: IncomingMessage, res: ServerResponse, stream: boolean) => {
+  if (req.headers['x-goog-api-key'] !== API_KEY) return sendJson(res, 401, { error: { code: 401, message: 'API key not valid', status: 'UNAUTHENTICATED' } });
+  const body = await readJsonBody(req, 1024 * 1024);
+  const turns = body.contents || [];
+  const prompt = turns[turns.length - 1]?.parts?.map((p: any) => p.text).join('') || '';
+  if (fakeError(res, prompt)) return;
+
+  const reply = body.generationConfig?.responseMimeType === 'application/json' ? JSON.stringify({ echo: prompt }) : `（模擬回覆）${prompt}`;
+  const promptTokenCount = countTokens(JSON.stringify(turns));
+  const candidate = (text: string) => ({ content: { role: 'model', parts: [{ text }] }, index: 0 });
+
+  if (!stream) {
+    const candidatesTokenCount = countTokens(reply);
+    return sendJson(res, 200, {
+      candidates: [{ ...candidate(reply), finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount }
+    });
+  }
+  let sent = '';
+  const events = (reply.match(/.{1,4}/gs) || []).map(text => {
+    sent += text;
+    const candidatesTokenCount = countTokens(sent);
+    return { candidates: [candidate(text)], usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount } };
+  });
+  await sendEvents(res, events, false);
+};
+
+createServer(async (req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  try {
+    if (req.method === 'POST' && pathname === '/chat/completions') return await handleChatCompletions(req, res);
+    const gemini = pathname.match(/^\/v1beta\/models\/[\w.-]+:(generateContent|streamGenerateContent)$/);
+    if (req.method === 'POST' && gemini) return await handleGemini(req, res, gemini[1] === 'streamGenerateContent');
+    sendJson(res, 404, { error: { message: 'Not found' } });
+  } catch (err: any) {
+    sendJson(res, err.status || 500, { error: { message: err.message } });
+  }
+}).listen(PORT, () => console.log(`Fake AI upstream listening on http://localhost:${PORT} (key: ${API_KEY})`));
@@ -0,0 +1,77 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from './config';
+
+// Request/response helpers shared by the API routes.
+
+// Machine-readable reason (X-MemoraLink-Error header and `code` in the body), so the client can tell
+// the proxy's own errors from errors passed through from the AI provider
+export type ErrorCode = 'session' | 'daily_limit' | 'budget' | 'too_large' | 'config';
+
+export class HttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+  code?: ErrorCode;
+
+  constructor(status: number, message: string, options: { retryAfterMs?: number, code?: ErrorCode } = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.code = options.code;
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string | string[]> = {}): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, err: unknown): void => {
+  if (err instanceof HttpError) {
+    const headers: Record<string, string> = {};
+    if (err.retryAfterMs) headers['Retry-After'] = String(Math.ceil(err.retryAfterMs / 1000));
+    if (err.code) headers['X-MemoraLink-Error'] = err.code;
+    sendJson(res, err.status, { error: err.message, code: err.code, retryAfterMs: err.retryAfterMs }, headers);
+    return;
+  }
+  console.error(err);
+  sendJson(res, 500, { error: '伺服器發生錯誤，請稍後再試。' });
+};
+
+// Reads a JSON body, rejecting anything larger than limitBytes before it is buffered in full
+export const readJsonBody = async <T = any>(req: IncomingMessage, limitBytes = 16 * 1024): Promise<T> => {
+  const tooLarge = () => new HttpError(413, `請求內容過大 (上限 ${Math.round(limitBytes / 1024)} KB)，請縮短輸入內容。`, { code: 'too_large' });
+  if (Number(req.headers['content-length'] || 0) > limitBytes) throw tooLarge();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limitBytes) throw tooLarge();
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, '請求格式錯誤。');
+  }
+};
+
+export const parseCookies = (req: IncomingMessage): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index <= 0) continue;
+    try {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // Malformed percent-encoding: treat the cookie as absent
+    }
+  }
+  return cookies;
+};
+
+export const clientIp = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (config.trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
@@ -0,0 +1,112 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createReadStream, promises as fs } from 'node:fs';
+import path from 'node:path';
+import { config } from './config';
+import { HttpError, sendError } from './http';
+import { handleAuthRoute } from './authRoutes';
+import { handleAiRoute } from './aiProxy';
+import { handleSyncRoute } from './syncRoutes';
+import { loadMonthUsage } from './usageLog';
+import { pruneExpiredSessions } from './sessionStore';
+import { pruneLoginGuard } from './loginGuard';
+import { listUsers } from './userStore';
+
+// API server. In production it also serves the built front end from STATIC_DIR, so the app and
+// /api share one origin; in development Vite proxies /api here (see vite.config.ts).
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm',
+  '.woff2': 'font/woff2'
+};
+
+const serveStatic = async (res: ServerResponse, pathname: string): Promise<void> => {
+  const root = config.staticDir;
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    throw new HttpError(400, 'Bad request'); // Malformed percent-encoding
+  }
+  let file = path.join(root, path.normalize(decoded));
+  if (!file.startsWith(root)) throw new HttpError(404, 'Not found');
+
+  const stat = await fs.stat(file).catch(() => null);
+  if (!stat || stat.isDirectory()) {
+    // Single-page app: unknown paths fall back to index.html
+    file = path.join(root, 'index.html');
+    if (!await fs.stat(file).catch(() => null)) throw new HttpError(404, '找不到前端檔案，請先執行 npm run build。');
+  }
+  // Opened before the headers go out, so a file removed since the stat still gets a proper 404 or 500
+  const stream = createReadStream(file);
+  await new Promise<void>((resolve, reject) => {
+    stream.once('open', () => resolve());
+    stream.once('error', reject);
+  }).catch((err: NodeJS.ErrnoException) => {
+    if (err.code === 'ENOENT') throw new HttpError(404, 'Not found');
+    throw err;
+  });
+  const ext = path.extname(file);
+  res.writeHead(200, {
+    'Content-Type': MIME_TYPES[ext] || 'application/octet-stream',
+    // Vite fingerprints everything under assets/, so those can be cached for good
+    'Cache-Control': file.includes(`${path.sep}assets${path.sep}`) ? 'public, max-age=31536000, immutable' : 'no-cache'
+  });
+  stream.on('error', err => {
+    console.error(`Could not read ${file}`, err);
+    res.destroy(); // Headers are out, so the client sees a cut-off response
+  });
+  stream.pipe(res);
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const { pathname, search } = new URL(req.url || '/', 'http://localhost');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Referrer-Policy', 'same-origin');
+  try {
+    if (pathname.startsWith('/api/')) {
+      if (await handleAuthRoute(req, res, pathname)) return;
+      if (await handleAiRoute(req, res, pathname, search)) return;
+      if (await handleSyncRoute(req, res, pathname)) return;
+      throw new HttpError(404, '找不到此 API。');
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') throw new HttpError(405, '不支援此請求方法。');
+    await serveStatic(res, pathname);
+  } catch (err) {
+    if (!res.headersSent) sendError(res, err);
+    else res.destroy();
+  }
+};
+
+const start = async () => {
+  if ((await listUsers()).length === 0) {
+    console.warn('No accounts yet. Create one with: npm run users -- add <username>');
+  }
+  await loadMonthUsage();
+  setInterval(() => {
+    pruneLoginGuard();
+    pruneExpiredSessions().catch(err => console.error('Session cleanup failed', err));
+  }, 10 * 60 * 1000).unref();
+
+  const server = createServer(handleRequest);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject); // e.g. the port is taken
+    server.listen(config.port, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  console.log(`MemoraLink server listening on http://localhost:${config.port}`);
+};
+
+start().catch(err => {
+  console.error('Server failed to start:', err);
+  process.exit(1);
+});
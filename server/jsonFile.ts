@@ -0,0 +1,41 @@
+import { promises as fs } from 'node:fs';
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+import { config } from './config';
+
+// Small JSON files under DATA_DIR. Writes go to a temp file first and are renamed into place,
+// so a crash mid-write never leaves a truncated file behind.
+
+export const readJsonFile = async <T>(name: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await fs.readFile(path.join(config.dataDir, name), 'utf8')) as T;
+  } catch (err: any) {
+    if (err.code === 'ENOENT') return fallback;
+    throw err;
+  }
+};
+
+// Writes to the same file run one after another, in call order, so the last call always wins
+const pendingWrites = new Map<string, Promise<void>>();
+
+export const writeJsonFile = (name: string, value: unknown): Promise<void> => {
+  const target = path.join(config.dataDir, name);
+  const content = JSON.stringify(value, null, 2); // Snapshot now; the caller may keep changing value
+  const write = async () => {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await fs.writeFile(temp, content, { mode: 0o600 });
+      await fs.rename(temp, target);
+    } catch (err) {
+      await fs.rm(temp, { force: true });
+      throw err;
+    }
+  };
+  const previous = pendingWrites.get(target) || Promise.resolve();
+  const current = previous.catch(() => {}).then(write);
+  pendingWrites.set(target, current);
+  // Forget the chain once it is idle, so the map does not grow with every file ever written
+  current.catch(() => {}).finally(() => { if (pendingWrites.get(target) === current) pendingWrites.delete(target); });
+  return current;
+};
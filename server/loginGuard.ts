@@ -0,0 +1,57 @@
+import { config } from './config';
+
+// Brute-force protection for the login endpoint:
+// - every attempt counts against the client IP within a fixed window
+// - consecutive failures lock the account for a while, whichever IP they come from
+
+interface IpWindow { count: number; resetAt: number; }
+interface UserFailures { count: number; lockedUntil: number; lastFailureAt: number; }
+
+const ipAttempts = new Map<string, IpWindow>();
+const userFailures = new Map<string, UserFailures>();
+
+export type LoginBlock = { reason: 'ip' | 'locked', retryAfterMs: number };
+
+// Call before checking the password; counts the attempt against the IP
+export const registerLoginAttempt = (ip: string, username: string): LoginBlock | null => {
+  const now = Date.now();
+  const lock = userFailures.get(username);
+  if (lock && lock.lockedUntil > now) return { reason: 'locked', retryAfterMs: lock.lockedUntil - now };
+
+  let window = ipAttempts.get(ip);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + config.login.ipWindowMs };
+    ipAttempts.set(ip, window);
+  }
+  if (window.count >= config.login.ipMaxAttempts) return { reason: 'ip', retryAfterMs: window.resetAt - now };
+  window.count++;
+  return null;
+};
+
+// Returns the lockout length when this failure locked the account
+export const recordLoginFailure = (username: string): number | null => {
+  const now = Date.now();
+  const entry = userFailures.get(username) || { count: 0, lockedUntil: 0, lastFailureAt: 0 };
+  // Old failures are forgotten, so occasional typos spread over days never add up to a lockout
+  if (now - entry.lastFailureAt > config.login.lockoutMs) entry.count = 0;
+  entry.count++;
+  entry.lastFailureAt = now;
+  if (entry.count >= config.login.userMaxFailures) {
+    entry.count = 0;
+    entry.lockedUntil = now + config.login.lockoutMs;
+    userFailures.set(username, entry);
+    return config.login.lockoutMs;
+  }
+  userFailures.set(username, entry);
+  return null;
+};
+
+export const recordLoginSuccess = (username: string): void => {
+  userFailures.delete(username);
+};
+
+export const pruneLoginGuard = (): void => {
+  const now = Date.now();
+  for (const [ip, window] of ipAttempts) if (window.resetAt <= now) ipAttempts.delete(ip);
+  for (const [name, entry] of userFailures) if (entry.lockedUntil <= now && now - entry.lastFailureAt > config.login.lockoutMs) userFailures.delete(name);
+};
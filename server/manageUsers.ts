@@ -0,0 +1,63 @@
+import { createInterface } from 'node:readline/promises';
+import { hashPassword, MIN_PASSWORD_LENGTH } from './passwords';
+import { findUser, listUsers, normaliseUsername, removeUser, saveUser } from './userStore';
+import { deleteUserSessions } from './sessionStore';
+
+// Account management from the command line:
+//   npm run users -- add <username>      create an account, or reset its password
+//   npm run users -- remove <username>
+//   npm run users -- list
+// The password is read from the terminal (or MEMORALINK_PASSWORD for scripted setups).
+
+const readPassword = async (): Promise<string> => {
+  if (process.env.MEMORALINK_PASSWORD) return process.env.MEMORALINK_PASSWORD;
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const password = await rl.question('Password: ');
+    const confirm = await rl.question('Confirm password: ');
+    if (password !== confirm) throw new Error('Passwords do not match.');
+    return password;
+  } finally {
+    rl.close();
+  }
+};
+
+const addUser = async (rawName: string) => {
+  const username = normaliseUsername(rawName);
+  if (!/^[a-z0-9._-]{2,32}$/.test(username)) {
+    throw new Error('Username must be 2-32 characters: letters, digits, ".", "_" or "-".');
+  }
+  const password = await readPassword();
+  if (password.length < MIN_PASSWORD_LENGTH) throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+
+  const existing = await findUser(username);
+  const now = new Date().toISOString();
+  await saveUser({ username, passwordHash: await hashPassword(password), createdAt: existing?.createdAt || now, passwordChangedAt: now });
+  // A new password signs out every existing session of this account
+  if (existing) await deleteUserSessions(username);
+  console.log(existing ? `Password updated for "${username}".` : `Created "${username}".`);
+};
+
+const main = async () => {
+  const [command, name] = process.argv.slice(2);
+  if (command === 'add' && name) return addUser(name);
+  if (command === 'remove' && name) {
+    const removed = await removeUser(name);
+    if (removed) await deleteUserSessions(normaliseUsername(name));
+    console.log(removed ? `Removed "${normaliseUsername(name)}".` : 'No such user.');
+    return;
+  }
+  if (command === 'list') {
+    const users = await listUsers();
+    users.forEach(u => console.log(`${u.username}\tcreated ${u.createdAt}\tpassword changed ${u.passwordChangedAt}`));
+    if (users.length === 0) console.log('No accounts.');
+    return;
+  }
+  console.log('Usage: npm run users -- add <username> | remove <username> | list');
+  process.exitCode = 1;
+};
+
+main().catch(err => {
+  console.error(err.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,32 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+
+// Password hashing with scrypt. Stored format: scrypt$N$r$p$salt$hash (salt and hash in base64),
+// so the cost can be raised later without breaking existing hashes.
+
+const KEY_LENGTH = 64;
+const COST = { N: 16384, r: 8, p: 1 };
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const derive = (password: string, salt: Buffer, params: typeof COST): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, KEY_LENGTH, { ...params, maxmem: 64 * 1024 * 1024 }, (err, key) => err ? reject(err) : resolve(key));
+  });
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt, COST);
+  return ['scrypt', COST.N, COST.r, COST.p, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const key = await derive(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+  return key.length === expected.length && timingSafeEqual(key, expected);
+};
+
+// Verified against when the username does not exist, so response time does not reveal valid names
+let dummyHash: Promise<string> | null = null;
+export const getDummyHash = (): Promise<string> => dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
@@ -0,0 +1,87 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { config } from './config';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+// Opaque session tokens with a fixed lifetime. Only a SHA-256 of each token is kept (in memory and
+// in DATA_DIR/sessions.json), so a leaked sessions file cannot be replayed as a cookie.
+
+export interface Session {
+  username: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const SESSIONS_FILE = 'sessions.json';
+
+let sessions: Map<string, Session> | null = null;
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+const load = async (): Promise<Map<string, Session>> => {
+  if (!sessions) {
+    const stored = await readJsonFile<Record<string, Session>>(SESSIONS_FILE, {});
+    const now = Date.now();
+    sessions = new Map(Object.entries(stored).filter(([, s]) => s.expiresAt > now));
+  }
+  return sessions;
+};
+
+const persist = async (): Promise<void> => {
+  if (sessions) await writeJsonFile(SESSIONS_FILE, Object.fromEntries(sessions));
+};
+
+export const createSession = async (username: string): Promise<{ token: string, session: Session }> => {
+  const store = await load();
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const session: Session = { username, createdAt: now, expiresAt: now + config.sessionTtlMs };
+  store.set(hashToken(token), session);
+  await persist();
+  return { token, session };
+};
+
+export const getSession = async (token: string | undefined): Promise<Session | null> => {
+  if (!token) return null;
+  const store = await load();
+  const key = hashToken(token);
+  const session = store.get(key);
+  if (!session) return null;
+  if (session.expiresAt <= Date.now()) {
+    store.delete(key);
+    await persist();
+    return null;
+  }
+  return session;
+};
+
+export const deleteSession = async (token: string | undefined): Promise<void> => {
+  if (!token) return;
+  const store = await load();
+  if (store.delete(hashToken(token))) await persist();
+};
+
+// Used when a password is changed or an account removed
+export const deleteUserSessions = async (username: string): Promise<void> => {
+  const store = await load();
+  let changed = false;
+  for (const [key, session] of store) {
+    if (session.username === username) {
+      store.delete(key);
+      changed = true;
+    }
+  }
+  if (changed) await persist();
+};
+
+export const pruneExpiredSessions = async (): Promise<void> => {
+  const store = await load();
+  const now = Date.now();
+  let changed = false;
+  for (const [key, session] of store) {
+    if (session.expiresAt <= now) {
+      store.delete(key);
+      changed = true;
+    }
+  }
+  if (changed) await persist();
+};
@@ -0,0 +1,91 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from './config';
+import { HttpError, readJsonBody, sendJson } from './http';
+import { requireSession } from './authRoutes';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+import { SyncRecord, SyncRequest, SyncResponse, compareVersions, isValidSyncRecord, recordId } from '../services/syncProtocol';
+
+// POST /api/sync: push local changes, pull everything newer than the client's cursor.
+// Each (user, space) pair is one file under DATA_DIR/sync/; every accepted change gets the next
+// sequence number, which is what the cursor counts.
+
+interface StoredRecord extends SyncRecord {
+  seq: number;
+}
+
+interface SyncSpace {
+  seq: number;
+  records: Record<string, StoredRecord>;
+}
+
+const MAX_SPACE_NAME = 64;
+
+const spaceFile = (username: string, space: string) =>
+  `sync/u_${username}/${createHash('sha256').update(space).digest('hex').slice(0, 32)}.json`;
+
+// One sync at a time per file, so two devices syncing together cannot lose each other's writes
+const locks = new Map<string, Promise<unknown>>();
+const withLock = async <T>(file: string, task: () => Promise<T>): Promise<T> => {
+  const previous = locks.get(file) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  locks.set(file, run);
+  try {
+    return await run;
+  } finally {
+    if (locks.get(file) === run) locks.delete(file);
+  }
+};
+
+const handleSync = async (req: IncomingMessage, res: ServerResponse) => {
+  const session = await requireSession(req);
+  const body = await readJsonBody<Partial<SyncRequest>>(req, config.sync.maxRequestBytes);
+  const space = typeof body.space === 'string' ? body.space.trim() : '';
+  if (!space || space.length > MAX_SPACE_NAME) throw new HttpError(400, '同步空間名稱無效。');
+  const since = typeof body.since === 'number' && body.since >= 0 ? body.since : 0;
+  if (!Array.isArray(body.changes) || !body.changes.every(isValidSyncRecord)) throw new HttpError(400, '同步資料格式錯誤。');
+  const changes = body.changes;
+
+  const file = spaceFile(session.username, space);
+  const response = await withLock(file, async (): Promise<SyncResponse> => {
+    const stored = await readJsonFile<SyncSpace>(file, { seq: 0, records: {} });
+    const pushed = new Set(changes.map(recordId));
+    const accepted = new Set<string>();
+
+    for (const change of changes) {
+      const id = recordId(change);
+      const current = stored.records[id];
+      // Equal versions are treated as accepted too, so they are not echoed back
+      const comparison = current ? compareVersions(change, current) : 1;
+      if (comparison >= 0) accepted.add(id);
+      if (comparison > 0) {
+        stored.seq++;
+        stored.records[id] = {
+          collection: change.collection,
+          key: change.key,
+          updatedAt: change.updatedAt,
+          deleted: change.deleted,
+          ...(change.deleted ? {} : { data: change.data }),
+          seq: stored.seq
+        };
+      }
+    }
+    if (accepted.size > 0) await writeJsonFile(file, stored);
+
+    // Rejected pushes get the winning version back even when the client had already seen it
+    const outgoing = Object.entries(stored.records)
+      .filter(([id, record]) => !accepted.has(id) && (record.seq > since || pushed.has(id)))
+      .map(([, { seq, ...record }]) => record);
+    return { cursor: stored.seq, changes: outgoing };
+  });
+
+  sendJson(res, 200, response);
+};
+
+// Returns false when the path is not a sync route
+export const handleSyncRoute = async (req: IncomingMessage, res: ServerResponse, pathname: string): Promise<boolean> => {
+  if (pathname !== '/api/sync') return false;
+  if (req.method !== 'POST') throw new HttpError(405, '不支援此請求方法。');
+  await handleSync(req, res);
+  return true;
+};
@@ -0,0 +1,164 @@
+import { createReadStream, promises as fs } from 'node:fs';
+import { createInterface } from 'node:readline';
+import path from 'node:path';
+import { config } from './config';
+import { AI_FEATURE_LABELS, type AiFeature } from '../types';
+
+// Every proxied AI call is appended to DATA_DIR/ai-usage.jsonl (one JSON object per line).
+// This month's totals per day, user, provider and feature are kept in memory for the quota and budget
+// checks and the usage report, and rebuilt from the log on start.
+
+export type ProxiedProvider = 'deepseek' | 'gemini';
+
+export interface UsageEntry {
+  time: string;
+  day: string;
+  username: string;
+  provider: ProxiedProvider;
+  feature: AiFeature;
+  model: string;
+  stream: boolean;
+  status: number;
+  durationMs: number;
+  requestBytes: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number; // Estimated with the prices configured at the time of the call
+}
+
+export interface DailyUsage {
+  requests: number;
+  tokens: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byProvider: Partial<Record<ProxiedProvider, UsageTotals>>;
+  byFeature: Partial<Record<AiFeature, UsageTotals>>;
+}
+
+interface UsageBucket extends UsageTotals {
+  day: string;
+  username: string;
+  provider: ProxiedProvider;
+  feature: AiFeature;
+}
+
+const USAGE_FILE = 'ai-usage.jsonl';
+
+// Quotas reset at local midnight on the server, budgets at midnight and on the first of the month
+export const today = (): string => new Date().toLocaleDateString('en-CA');
+
+let currentMonth = '';
+let buckets = new Map<string, UsageBucket>();
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 });
+
+const addTotals = (target: UsageTotals, source: UsageTotals): void => {
+  target.requests += source.requests;
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.costUsd += source.costUsd;
+};
+
+// Starts over when the month changes
+const rollMonth = (): string => {
+  const month = today().slice(0, 7);
+  if (month !== currentMonth) {
+    currentMonth = month;
+    buckets = new Map();
+  }
+  return month;
+};
+
+// Returns null for entries outside the current month
+const bucketFor = (day: string, username: string, provider: ProxiedProvider, feature: AiFeature): UsageBucket | null => {
+  if (!day.startsWith(rollMonth())) return null;
+  const key = [day, username, provider, feature].join('|');
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = { day, username, provider, feature, ...emptyTotals() };
+    buckets.set(key, bucket);
+  }
+  return bucket;
+};
+
+const currentBuckets = (): UsageBucket[] => {
+  rollMonth();
+  return [...buckets.values()];
+};
+
+export const toFeature = (value: unknown): AiFeature =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(AI_FEATURE_LABELS, value) ? value as AiFeature : 'other';
+
+export const estimateCost = (model: string, promptTokens: number, completionTokens: number): number => {
+  const price = config.ai.prices[model];
+  return price ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000 : 0;
+};
+
+export const getDailyUsage = (username: string): DailyUsage => {
+  const day = today();
+  const usage: DailyUsage = { requests: 0, tokens: 0 };
+  for (const bucket of currentBuckets()) {
+    if (bucket.day !== day || bucket.username !== username) continue;
+    usage.requests += bucket.requests;
+    usage.tokens += bucket.promptTokens + bucket.completionTokens;
+  }
+  return usage;
+};
+
+// Today's or this month's totals, for one user or (without username) everyone
+export const summarizeUsage = (period: 'day' | 'month', username?: string): UsageSummary => {
+  const day = today();
+  const summary: UsageSummary = { ...emptyTotals(), byProvider: {}, byFeature: {} };
+  for (const bucket of currentBuckets()) {
+    if ((period === 'day' && bucket.day !== day) || (username && bucket.username !== username)) continue;
+    addTotals(summary, bucket);
+    addTotals(summary.byProvider[bucket.provider] ??= emptyTotals(), bucket);
+    addTotals(summary.byFeature[bucket.feature] ??= emptyTotals(), bucket);
+  }
+  return summary;
+};
+
+// Call in the same synchronous step as the quota check, before any await, or parallel requests overshoot the limit
+export const countRequest = (username: string, provider: ProxiedProvider, feature: AiFeature): void => {
+  bucketFor(today(), username, provider, feature)!.requests++;
+};
+
+export const recordUsage = async (entry: UsageEntry): Promise<void> => {
+  const bucket = bucketFor(entry.day, entry.username, entry.provider, entry.feature);
+  if (bucket) addTotals(bucket, { ...entry, requests: 0 });
+  await fs.mkdir(config.dataDir, { recursive: true });
+  await fs.appendFile(path.join(config.dataDir, USAGE_FILE), JSON.stringify(entry) + '\n', { mode: 0o600 });
+};
+
+export const loadMonthUsage = async (): Promise<void> => {
+  const file = path.join(config.dataDir, USAGE_FILE);
+  if (!await fs.stat(file).catch(() => null)) return;
+  const month = today().slice(0, 7);
+  const lines = createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.includes(`"day":"${month}-`)) continue;
+    try {
+      const entry = JSON.parse(line) as Partial<UsageEntry>;
+      const promptTokens = entry.promptTokens || 0;
+      const completionTokens = entry.completionTokens || 0;
+      // Entries written before features and costs were tracked count as 'other' at today's prices
+      const bucket = bucketFor(entry.day!, entry.username!, entry.provider!, toFeature(entry.feature));
+      if (bucket) addTotals(bucket, {
+        requests: 1,
+        promptTokens,
+        completionTokens,
+        costUsd: entry.costUsd ?? estimateCost(entry.model || '', promptTokens, completionTokens)
+      });
+    } catch {
+      // Ignore a partially written last line
+    }
+  }
+};
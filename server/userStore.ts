@@ -0,0 +1,35 @@
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+// Accounts live in DATA_DIR/users.json and are managed with `npm run users` (see manageUsers.ts).
+
+export interface UserRecord {
+  username: string;
+  passwordHash: string;
+  createdAt: string;
+  passwordChangedAt: string;
+}
+
+const USERS_FILE = 'users.json';
+
+export const normaliseUsername = (username: string): string => username.trim().toLowerCase();
+
+export const listUsers = (): Promise<UserRecord[]> => readJsonFile<UserRecord[]>(USERS_FILE, []);
+
+export const findUser = async (username: string): Promise<UserRecord | undefined> => {
+  const name = normaliseUsername(username);
+  return (await listUsers()).find(u => u.username === name);
+};
+
+export const saveUser = async (user: UserRecord): Promise<void> => {
+  const users = (await listUsers()).filter(u => u.username !== user.username);
+  await writeJsonFile(USERS_FILE, [...users, user]);
+};
+
+export const removeUser = async (username: string): Promise<boolean> => {
+  const name = normaliseUsername(username);
+  const users = await listUsers();
+  const remaining = users.filter(u => u.username !== name);
+  if (remaining.length === users.length) return false;
+  await writeJsonFile(USERS_FILE, remaining);
+  return true;
+};
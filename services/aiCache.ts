@@ -0,0 +1,95 @@
+import { STORES, idbGet, idbPut, idbDelete, idbEntries, idbClear } from './idbStore';
+
+// Device-wide cache of AI results, so asking again about the same words or passage does not bill the
+// provider twice. Entries are keyed by provider, model and a hash of the full prompt, expire after
+// CACHE_TTL_MS and are evicted least-recently-used once the cache grows past CACHE_MAX_BYTES.
+// The cache is best effort: when IndexedDB or crypto.subtle is unavailable every call is a miss.
+
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const CACHE_MAX_BYTES = 5 * 1024 * 1024;
+
+interface CacheEntry {
+  value: unknown;
+  createdAt: number;
+  lastUsedAt: number;
+  bytes: number; // Size of the JSON value, for the size cap
+}
+
+export interface AiCacheHit<T> {
+  value: T;
+  cachedAt: Date;
+}
+
+export interface AiCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const isExpired = (entry: CacheEntry, now: number) => now - entry.createdAt > CACHE_TTL_MS;
+
+// Drops expired entries, then the least recently used ones until the cache fits CACHE_MAX_BYTES
+const prune = async (): Promise<void> => {
+  const now = Date.now();
+  const live: [string, CacheEntry][] = [];
+  for (const [key, entry] of await idbEntries<CacheEntry>(STORES.AI_CACHE)) {
+    if (isExpired(entry, now)) await idbDelete(STORES.AI_CACHE, key);
+    else live.push([key, entry]);
+  }
+  let total = live.reduce((sum, [, entry]) => sum + entry.bytes, 0);
+  live.sort((a, b) => a[1].lastUsedAt - b[1].lastUsedAt);
+  for (const [key, entry] of live) {
+    if (total <= CACHE_MAX_BYTES) break;
+    await idbDelete(STORES.AI_CACHE, key);
+    total -= entry.bytes;
+  }
+};
+
+export const aiCache = {
+  // Identifies a request; parts should cover everything that shapes the answer (system prompt, input...)
+  buildKey: async (provider: string, model: string, parts: string[]): Promise<string | null> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return null; // Insecure context (plain http)
+    return `${provider}:${model}:${await sha256(JSON.stringify(parts))}`;
+  },
+
+  get: async <T>(key: string): Promise<AiCacheHit<T> | null> => {
+    try {
+      const entry = await idbGet<CacheEntry>(STORES.AI_CACHE, key);
+      if (!entry) return null;
+      const now = Date.now();
+      if (isExpired(entry, now)) {
+        await idbDelete(STORES.AI_CACHE, key);
+        return null;
+      }
+      await idbPut(STORES.AI_CACHE, key, { ...entry, lastUsedAt: now });
+      return { value: entry.value as T, cachedAt: new Date(entry.createdAt) };
+    } catch (e) {
+      console.warn('AI cache read failed', e);
+      return null;
+    }
+  },
+
+  set: async (key: string, value: unknown): Promise<void> => {
+    const bytes = new Blob([JSON.stringify(value)]).size;
+    if (bytes > CACHE_MAX_BYTES) return;
+    const now = Date.now();
+    try {
+      await idbPut(STORES.AI_CACHE, key, { value, createdAt: now, lastUsedAt: now, bytes } satisfies CacheEntry);
+      await prune();
+    } catch (e) {
+      console.warn('AI cache write failed', e);
+    }
+  },
+
+  getStats: async (): Promise<AiCacheStats> => {
+    const now = Date.now();
+    const entries = (await idbEntries<CacheEntry>(STORES.AI_CACHE)).filter(([, entry]) => !isExpired(entry, now));
+    return { entries: entries.length, bytes: entries.reduce((sum, [, entry]) => sum + entry.bytes, 0) };
+  },
+
+  clear: (): Promise<void> => idbClear(STORES.AI_CACHE)
+};
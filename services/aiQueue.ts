@@ -0,0 +1,108 @@
+import { QueuedAiRequest, WritingAnalysis, ClassicalAnalysis } from '../types';
+import { storageService } from './storageService';
+import { analyzeWriting, analyzeClassicalChinese } from './geminiService';
+import { AI_ERROR_MESSAGES, toAiError } from './aiRequest';
+
+// Analyses asked for while offline (WritingLab, ClassicalMode) wait here and run by themselves once the
+// browser is back online. The queue belongs to the profile; another profile's requests run when it is
+// active again. Finished results stay queued until the user opens or removes them.
+
+type QueueListener = () => void;
+
+const listeners = new Set<QueueListener>();
+let processing: Promise<void> | null = null;
+let started = false;
+
+const notify = () => listeners.forEach(listener => listener());
+
+const update = async (id: string, patch: Partial<QueuedAiRequest>): Promise<void> => {
+  await storageService.saveAiQueue(storageService.getAiQueue().map(r => r.id === id ? { ...r, ...patch } : r));
+  notify();
+};
+
+const run = (request: QueuedAiRequest): Promise<WritingAnalysis | ClassicalAnalysis> =>
+  request.kind === 'writing'
+    ? analyzeWriting(request.text, request.context || '', request.provider)
+    : analyzeClassicalChinese(request.text, request.provider);
+
+const processQueue = async (): Promise<void> => {
+  const profileId = storageService.getActiveProfile().id;
+  // Only one run at a time, so a request still marked running was interrupted (e.g. the tab closed)
+  const queue = storageService.getAiQueue();
+  if (queue.some(r => r.status === 'running')) {
+    await storageService.saveAiQueue(queue.map(r => r.status === 'running' ? { ...r, status: 'pending' } : r));
+    notify();
+  }
+
+  while (navigator.onLine) {
+    const next = storageService.getAiQueue().find(r => r.status === 'pending');
+    if (!next) return;
+    await update(next.id, { status: 'running', error: undefined });
+    let patch: Partial<QueuedAiRequest>;
+    try {
+      patch = { status: 'done', result: await run(next) };
+    } catch (e) {
+      const error = toAiError(e);
+      // Lost the connection again: wait for the next online event
+      patch = error.kind === 'network' && !navigator.onLine
+        ? { status: 'pending' }
+        : { status: 'failed', error: AI_ERROR_MESSAGES[error.kind].title };
+    }
+    // Writes go to the active profile, so stop if the user switched while the request ran
+    if (storageService.getActiveProfile().id !== profileId) return;
+    await update(next.id, patch);
+    if (patch.status === 'pending') return;
+  }
+};
+
+export const aiQueue = {
+  getRequests: (kind: QueuedAiRequest['kind']): QueuedAiRequest[] => {
+    return storageService.getAiQueue().filter(r => r.kind === kind);
+  },
+
+  enqueue: async (request: Pick<QueuedAiRequest, 'kind' | 'provider' | 'text' | 'context'>): Promise<void> => {
+    const queued: QueuedAiRequest = {
+      ...request,
+      id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+      createdAt: new Date().toISOString(),
+      status: 'pending'
+    };
+    await storageService.saveAiQueue([...storageService.getAiQueue(), queued]);
+    notify();
+    aiQueue.process();
+  },
+
+  retry: async (id: string): Promise<void> => {
+    await update(id, { status: 'pending', error: undefined });
+    aiQueue.process();
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await storageService.saveAiQueue(storageService.getAiQueue().filter(r => r.id !== id));
+    notify();
+  },
+
+  // Runs pending requests of the active profile; calls during a run share it
+  process: (): Promise<void> => {
+    if (!processing) {
+      processing = processQueue()
+        .catch(e => console.warn("AI queue processing failed", e))
+        .finally(() => { processing = null; });
+    }
+    return processing;
+  },
+
+  // Called once signed in: runs the queue now and whenever the connection comes back
+  start: () => {
+    if (!started) {
+      started = true;
+      window.addEventListener('online', () => { aiQueue.process(); });
+    }
+    aiQueue.process();
+  },
+
+  subscribe: (listener: QueueListener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  }
+};
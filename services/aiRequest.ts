@@ -0,0 +1,178 @@
+import { AiProvider, PROVIDER_LABELS } from '../types';
+
+// Shared request layer for every AI call: timeouts, retries with exponential backoff,
+// cancellation and typed errors that the UI can turn into actionable messages.
+
+export type AiErrorKind =
+  | 'auth'        // 401/403, missing or invalid key
+  | 'quota'       // 429 rate limit, or 402 exhausted credit (not retried)
+  | 'network'     // fetch failed, offline, CORS
+  | 'timeout'     // no answer within timeoutMs
+  | 'server'      // 5xx from the provider
+  | 'bad_request' // other 4xx, e.g. wrong model name or input too long
+  | 'malformed'   // response was not the JSON we asked for
+  | 'config'      // provider not configured in settings (or no key on the server)
+  | 'signed_out'  // the app's own login session expired, reported by the AI proxy
+  | 'daily_limit' // the user's daily AI quota on the proxy is used up
+  | 'budget'      // the team's daily or monthly AI budget on the proxy is spent
+  | 'cancelled'   // aborted by the user
+  | 'unknown';
+
+const RETRYABLE: AiErrorKind[] = ['quota', 'network', 'timeout', 'server'];
+
+export class AiError extends Error {
+  kind: AiErrorKind;
+  provider?: AiProvider;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(kind: AiErrorKind, message: string, options: { provider?: AiProvider, status?: number, retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AiError';
+    this.kind = kind;
+    this.provider = options.provider;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  // A 402 quota error is exhausted credit, not a rate limit, so asking again cannot succeed
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind) && this.status !== 402;
+  }
+}
+
+export const AI_ERROR_MESSAGES: Record<AiErrorKind, { title: string, hint: string }> = {
+  auth: { title: 'API 金鑰無效或未獲授權', hint: '請檢查 API Key 是否正確；如使用自訂模型，請在「設定」中更新金鑰。' },
+  quota: { title: '請求過於頻繁或額度已用完', hint: '請稍候一分鐘再試，或在右上角切換至其他 AI 供應商。' },
+  network: { title: '無法連接 AI 服務', hint: '請檢查網絡連線；如使用自訂模型，請確認伺服器已啟動並允許跨域請求 (CORS)。' },
+  timeout: { title: 'AI 回應逾時', hint: '伺服器回應太慢，請稍後重試，或縮短輸入內容。' },
+  server: { title: 'AI 服務暫時故障', hint: '供應商伺服器出錯，請稍後重試或切換供應商。' },
+  bad_request: { title: 'AI 拒絕了這個請求', hint: '輸入內容可能過長，或模型名稱有誤，請檢查「設定」。' },
+  malformed: { title: 'AI 回傳的格式無法解讀', hint: '模型未有按要求回傳資料，請再試一次；如持續出現，可切換供應商。' },
+  config: { title: '尚未完成設定', hint: '請按右上角齒輪圖示，填寫 AI 服務的連線資料。' },
+  signed_out: { title: '登入已過期', hint: '請重新整理頁面並再次登入，然後重試。' },
+  daily_limit: { title: '今日 AI 用量已達上限', hint: '每日額度會在午夜重設；如需更多額度，請聯絡管理員。' },
+  budget: { title: 'AI 預算已用完', hint: '團隊的 AI 預算已達上限，請聯絡管理員，或在右上角改用自訂模型。' },
+  cancelled: { title: '已取消', hint: '請求已被中止。' },
+  unknown: { title: '發生未預期的錯誤', hint: '請重試；如問題持續，請重新整理頁面。' }
+};
+
+export interface AiRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  refresh?: boolean; // Cached calls only: ask the provider again instead of reusing a cached result
+  onCacheHit?: (cachedAt: Date) => void; // Cached calls only: the result came from the cache
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const errorFromStatus = (status: number, provider: AiProvider, detail: string = '', retryAfterMs?: number): AiError => {
+  const message = `${PROVIDER_LABELS[provider]} API error: ${status}${detail ? ` ${detail}` : ''}`;
+  if (status === 401 || status === 403) return new AiError('auth', message, { provider, status });
+  if (status === 402 || status === 429) return new AiError('quota', message, { provider, status, retryAfterMs });
+  if (status === 408) return new AiError('timeout', message, { provider, status });
+  if (status >= 500) return new AiError('server', message, { provider, status });
+  return new AiError('bad_request', message, { provider, status });
+};
+
+// Errors raised by the server's AI proxy itself carry a `code` (see server/http.ts); the message is user-facing
+const PROXY_ERROR_KINDS: Record<string, AiErrorKind> = {
+  session: 'signed_out',
+  daily_limit: 'daily_limit',
+  budget: 'budget',
+  too_large: 'bad_request',
+  config: 'config'
+};
+
+const fromProxyError = (text: string, provider: AiProvider, status: number): AiError | null => {
+  try {
+    const body = JSON.parse(text);
+    const kind = PROXY_ERROR_KINDS[body?.code];
+    return kind ? new AiError(kind, body.error || text, { provider, status }) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Throws a typed AiError for non-2xx fetch responses.
+export const ensureOk = async (response: Response, provider: AiProvider): Promise<Response> => {
+  if (response.ok) return response;
+  let detail = '';
+  try { detail = await response.text(); } catch { /* body unavailable */ }
+  throw fromProxyError(detail, provider, response.status)
+    || errorFromStatus(response.status, provider, detail.slice(0, 200), parseRetryAfter(response.headers.get('Retry-After')));
+};
+
+// Normalises anything thrown by fetch or the Gemini SDK into an AiError.
+export const toAiError = (e: unknown, provider?: AiProvider): AiError => {
+  if (e instanceof AiError) return e;
+  const err = e as any;
+  if (err?.name === 'AbortError') return new AiError('cancelled', '請求已取消', { provider });
+  // The Gemini SDK puts the JSON error body in the message
+  if (typeof err?.status === 'number' && provider) return fromProxyError(err.message, provider, err.status) || errorFromStatus(err.status, provider, err.message);
+  if (err instanceof SyntaxError) return new AiError('malformed', err.message, { provider });
+  if (err instanceof TypeError) return new AiError('network', err.message, { provider });
+  return new AiError('unknown', err?.message || String(e), { provider });
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AiError('cancelled', '請求已取消'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs operation with a per-attempt timeout, retrying retryable failures with exponential backoff.
+// The signal handed to operation aborts on timeout or when the caller's signal aborts.
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  provider: AiProvider,
+  options: AiRequestOptions = {}
+): Promise<T> => {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new AiError('cancelled', '請求已取消', { provider });
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await operation(controller.signal);
+    } catch (e) {
+      const error = timedOut
+        ? new AiError('timeout', `${PROVIDER_LABELS[provider]} did not respond within ${timeoutMs / 1000}s`, { provider })
+        : signal?.aborted ? new AiError('cancelled', '請求已取消', { provider }) : toAiError(e, provider);
+
+      if (!error.retryable || attempt >= retries) throw error;
+
+      const backoff = Math.min(MAX_BACKOFF_MS, error.retryAfterMs ?? BASE_BACKOFF_MS * 2 ** attempt);
+      console.warn(`AI request failed (${error.kind}), retrying in ${backoff}ms`, error);
+      await sleep(backoff + Math.random() * 250, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort); // A long-lived caller signal would otherwise keep every attempt's listener
+    }
+  }
+};
@@ -0,0 +1,202 @@
+/// <reference types="vite/client" />
+import { VocabularyItem } from '../types';
+
+// Exports the vocabulary library as an Anki package (.apkg) or as Anki's tab-separated text format.
+// An .apkg is a zip holding a legacy (schema 11) SQLite collection, a "media" index and numbered media files.
+// sql.js and JSZip are loaded on demand so the main bundle stays small.
+
+// Fixed so re-importing updates the same note type instead of cloning it. Changes whenever FIELDS change:
+// 1718000000000 was the note type without Pinyin.
+const MODEL_ID = 1718000000002;
+const DECK_ID = 1718000000001;
+const DECK_NAME = 'MemoraLink 中文詞彙';
+const MODEL_NAME = 'MemoraLink 中文詞彙卡';
+const APP_TAG = 'MemoraLink';
+
+const FIELDS = ['Word', 'Jyutping', 'Pinyin', 'Definition', 'Translation', 'Example', 'Mnemonic', 'Context', 'Image'] as const;
+
+const CARD_CSS = `.card { font-family: "PingFang HK", "Microsoft JhengHei", sans-serif; font-size: 20px; text-align: center; color: #0f172a; background: #fff; }
+.word { font-size: 42px; font-weight: bold; }
+.jyutping, .pinyin { font-family: monospace; color: #64748b; }
+.definition { margin-top: 12px; }
+.translation { color: #64748b; font-size: 16px; }
+.example { margin-top: 12px; padding: 8px; background: #eef2ff; border-left: 4px solid #818cf8; text-align: left; }
+.mnemonic { margin-top: 12px; padding: 8px; background: #fffbeb; color: #78350f; font-style: italic; }
+.context { color: #94a3b8; font-size: 14px; }
+img { max-width: 100%; max-height: 240px; margin-top: 12px; }`;
+
+// {{tts}} makes Anki (2.1.20+) read the word aloud with the device's Cantonese voice
+const FRONT_TEMPLATE = `<div class="word">{{Word}}</div>{{tts zh_HK:Word}}`;
+const BACK_TEMPLATE = `{{FrontSide}}<hr id="answer">
+{{#Jyutping}}<div class="jyutping">{{Jyutping}}</div>{{/Jyutping}}
+{{#Pinyin}}<div class="pinyin">{{Pinyin}}</div>{{/Pinyin}}
+<div class="definition">{{Definition}}</div>
+{{#Translation}}<div class="translation">{{Translation}}</div>{{/Translation}}
+{{#Example}}<div class="example">{{Example}}</div>{{/Example}}
+{{#Mnemonic}}<div class="mnemonic">💡 {{Mnemonic}}</div>{{/Mnemonic}}
+{{#Context}}<div class="context">{{Context}}</div>{{/Context}}
+{{Image}}`;
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const escapeHtml = (text: string = ''): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r?\n/g, '<br>');
+
+const stripHtml = (html: string): string => html.replace(/<[^>]*>/g, '');
+
+// Anki tags cannot contain spaces
+const toAnkiTags = (item: VocabularyItem): string[] =>
+  [APP_TAG, ...(item.tags || []).map(t => t.trim().replace(/\s+/g, '_')).filter(Boolean)];
+
+const sha1Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Stable per word, so importing a newer export updates notes instead of duplicating them
+const noteGuid = async (word: string): Promise<string> => btoa((await sha1Hex(`memoralink:${word}`)).slice(0, 15));
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/gif': 'gif', 'image/webp': 'webp', 'image/svg+xml': 'svg' };
+
+const noteFields = (item: VocabularyItem, imageFile?: string): string[] => [
+  escapeHtml(item.word),
+  escapeHtml(item.jyutping),
+  escapeHtml(item.pinyin),
+  escapeHtml(item.definition),
+  escapeHtml(item.chineseTranslation),
+  escapeHtml(item.exampleSentence),
+  escapeHtml(item.mnemonic),
+  escapeHtml(item.context),
+  imageFile ? `<img src="${imageFile}">` : ''
+];
+
+const buildModels = (now: number) => ({
+  [MODEL_ID]: {
+    id: MODEL_ID, name: MODEL_NAME, type: 0, mod: now, usn: -1, sortf: 0, did: DECK_ID,
+    tmpls: [{ name: '詞彙 → 解釋', ord: 0, qfmt: FRONT_TEMPLATE, afmt: BACK_TEMPLATE, did: null, bqfmt: '', bafmt: '' }],
+    flds: FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [], vers: []
+  }
+});
+
+const deckEntry = (id: number, name: string, now: number) => ({
+  id, name, desc: '', mod: now, usn: -1, collapsed: false, browserCollapsed: false, dyn: 0, conf: 1, extendNew: 10, extendRev: 50,
+  newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0]
+});
+
+const DECK_CONFIG = {
+  1: {
+    id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 }
+  }
+};
+
+const COLLECTION_CONFIG = {
+  activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true,
+  curModel: null, nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true
+};
+
+export const createAnkiPackage = async (items: VocabularyItem[]): Promise<Blob> => {
+  const [{ default: initSqlJs }, { default: JSZip }, { default: wasmUrl }] = await Promise.all([
+    import('sql.js'),
+    import('jszip'),
+    import('sql.js/dist/sql-wasm-browser.wasm?url')
+  ]);
+  const SQL = await initSqlJs({ locateFile: () => wasmUrl });
+  const db = new SQL.Database();
+  const zip = new JSZip();
+
+  try {
+    db.run(SCHEMA);
+    const nowMs = Date.now();
+    const now = Math.floor(nowMs / 1000);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      now, nowMs, nowMs,
+      JSON.stringify(COLLECTION_CONFIG),
+      JSON.stringify(buildModels(now)),
+      JSON.stringify({ 1: deckEntry(1, 'Default', now), [DECK_ID]: deckEntry(DECK_ID, DECK_NAME, now) }),
+      JSON.stringify(DECK_CONFIG),
+      '{}'
+    ]);
+
+    const media: Record<string, string> = {};
+    for (const [i, item] of items.entries()) {
+      let imageFile: string | undefined;
+      if (item.image) {
+        try {
+          // Library items hold object URLs (or data URLs from older data); both can be fetched
+          const blob = await (await fetch(item.image)).blob();
+          const index = String(Object.keys(media).length);
+          imageFile = `memoralink_${(await sha1Hex(item.word)).slice(0, 12)}.${IMAGE_EXTENSIONS[blob.type] || 'png'}`;
+          media[index] = imageFile;
+          zip.file(index, blob);
+        } catch (e) {
+          console.warn(`Skipping image for ${item.word}`, e);
+        }
+      }
+
+      const fields = noteFields(item, imageFile);
+      const noteId = nowMs + i;
+      const checksum = parseInt((await sha1Hex(stripHtml(fields[0]))).slice(0, 8), 16);
+      const tags = ` ${toAnkiTags(item).join(' ')} `;
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        noteId, await noteGuid(item.word), MODEL_ID, now, tags, fields.join('\x1f'), stripHtml(fields[0]), checksum
+      ]);
+      // New card, queued in library order
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+        noteId, noteId, DECK_ID, now, i + 1
+      ]);
+    }
+
+    zip.file('collection.anki2', db.export());
+    zip.file('media', JSON.stringify(media));
+    return await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+};
+
+// Anki "Notes in Plain Text" import format; the header lines tell Anki the separator and tag column.
+// No BOM: Anki expects the first line to be a header.
+export const createAnkiTsv = (items: VocabularyItem[]): Blob => {
+  const columns = FIELDS.filter(f => f !== 'Image');
+  const clean = (text: string = '') => escapeHtml(text).replace(/\t/g, ' ');
+  const lines = [
+    '#separator:tab',
+    '#html:true',
+    `#columns:${[...columns, 'Tags'].join('\t')}`,
+    `#tags column:${columns.length + 1}`,
+    ...items.map(item => [
+      clean(item.word),
+      clean(item.jyutping),
+      clean(item.pinyin),
+      clean(item.definition),
+      clean(item.chineseTranslation),
+      clean(item.exampleSentence),
+      clean(item.mnemonic),
+      clean(item.context),
+      toAnkiTags(item).join(' ')
+    ].join('\t'))
+  ];
+  return new Blob([lines.join('\n') + '\n'], { type: 'text/tab-separated-values;charset=utf-8' });
+};
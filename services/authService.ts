@@ -0,0 +1,78 @@
+// Talks to the auth endpoints of the bundled server (server/authRoutes.ts).
+// The session token lives in an HttpOnly cookie, so nothing secret is kept in the browser storage.
+// Only the username and expiry are remembered, so the installed app can open offline.
+
+export interface AuthSession {
+  username: string;
+  expiresAt: string;
+}
+
+export class AuthError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+const OFFLINE_SESSION_KEY = 'memoralink_offline_session';
+
+const rememberSession = (session: AuthSession | null) => {
+  if (session) localStorage.setItem(OFFLINE_SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(OFFLINE_SESSION_KEY);
+};
+
+// The last session the server confirmed, while it has not expired
+const getRememberedSession = (): AuthSession | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(OFFLINE_SESSION_KEY) || 'null') as AuthSession | null;
+    return session && new Date(session.expiresAt).getTime() > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(path, { credentials: 'same-origin', ...init, headers: { 'Content-Type': 'application/json', ...init.headers } });
+  } catch {
+    throw new AuthError(0, '無法連接伺服器，請檢查網絡連線。');
+  }
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new AuthError(response.status, body.error || `伺服器錯誤 (${response.status})`);
+  return body as T;
+};
+
+export const authService = {
+  // Resolves to null when not signed in or the session has expired.
+  // When the server cannot be reached, the last confirmed session is used so local features keep working.
+  getSession: async (): Promise<AuthSession | null> => {
+    try {
+      const session = await request<AuthSession>('/api/auth/session');
+      rememberSession(session);
+      return session;
+    } catch (e) {
+      if (e instanceof AuthError && e.status === 401) {
+        rememberSession(null);
+        return null;
+      }
+      const remembered = e instanceof AuthError && e.status === 0 ? getRememberedSession() : null;
+      if (remembered) return remembered;
+      throw e;
+    }
+  },
+
+  login: async (username: string, password: string): Promise<AuthSession> => {
+    const session = await request<AuthSession>('/api/auth/login', { method: 'POST', body: JSON.stringify({ username, password }) });
+    rememberSession(session);
+    return session;
+  },
+
+  logout: async (): Promise<void> => {
+    await request('/api/auth/logout', { method: 'POST' });
+    rememberSession(null);
+  }
+};
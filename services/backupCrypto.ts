@@ -0,0 +1,80 @@
+// Passphrase-encrypted backup envelope: PBKDF2 (SHA-256) derives an AES-GCM key from the passphrase.
+// The envelope is plain JSON so it can be recognised before decrypting; only `data` is secret.
+
+export const ENCRYPTED_BACKUP_FORMAT = 'memoralink-encrypted-backup';
+
+const PBKDF2_ITERATIONS = 310000; // OWASP 2023 recommendation for PBKDF2-HMAC-SHA256
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: number, salt: string };
+  cipher: { name: 'AES-GCM', iv: string };
+  data: string; // Base64 ciphertext of the backup JSON (includes the GCM tag)
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large backups do not overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedBackup = (data: unknown): data is EncryptedBackup =>
+  !!data && typeof data === 'object' && (data as any).format === ENCRYPTED_BACKUP_FORMAT;
+
+export const encryptBackup = async (json: string, passphrase: string): Promise<EncryptedBackup> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`密碼最少需要 ${MIN_PASSPHRASE_LENGTH} 個字元。`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(json));
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext))
+  };
+};
+
+// Returns the parsed backup JSON. AES-GCM authenticates the data, so a wrong passphrase fails here.
+export const decryptBackup = async (envelope: EncryptedBackup, passphrase: string): Promise<unknown> => {
+  if (envelope.version !== 1 || envelope.kdf?.name !== 'PBKDF2' || envelope.cipher?.name !== 'AES-GCM') {
+    throw new Error("不支援此加密備份格式，請更新程式後再試。");
+  }
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) }, key, fromBase64(envelope.data));
+  } catch {
+    throw new Error("密碼錯誤，或備份檔案已損壞。");
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
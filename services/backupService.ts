@@ -0,0 +1,205 @@
+import { VocabularyItem, WritingEntry, ClassicalEntry, ChatTranscript, QuizAttempt } from '../types';
+
+// Backup file format: versioned migrations for old files, and planning of replace/merge restores.
+// Everything here is pure; storageService reads the local data and applies the plan.
+
+export const CURRENT_BACKUP_VERSION = 3;
+
+export interface BackupData {
+  version: number;
+  date: string;
+  profileName?: string; // Learner profile the backup was made from
+  vocabulary: VocabularyItem[];
+  writingLogs: WritingEntry[];
+  classicalLogs: ClassicalEntry[];
+  transcripts: ChatTranscript[];
+  quizAttempts: QuizAttempt[];
+}
+
+export type BackupCollection = 'vocabulary' | 'writingLogs' | 'classicalLogs' | 'transcripts' | 'quizAttempts';
+
+interface CollectionSpec<T> {
+  label: string;
+  keyOf: (item: T) => string; // Identity used to match local and backup records
+  timeOf: (item: T) => string; // ISO timestamp for "keep newest"; '' when unknown
+}
+
+// Writing and classical logs: their date is a locale string, so the version time is updatedAt, or for
+// entries saved before it existed the creation time in their Date.now() id
+export const logTimeOf = (entry: { id: string, updatedAt?: string }): string => {
+  if (entry.updatedAt) return entry.updatedAt;
+  const created = /^\d{12,}$/.test(entry.id) ? new Date(Number(entry.id)) : null;
+  return created && !isNaN(created.getTime()) ? created.toISOString() : '';
+};
+
+export const BACKUP_COLLECTIONS: { [K in BackupCollection]: CollectionSpec<BackupData[K][number]> } = {
+  vocabulary: { label: '詞彙卡', keyOf: i => i.word, timeOf: i => i.updatedAt || i.review?.lastReviewed || '' },
+  writingLogs: { label: '寫作紀錄', keyOf: e => e.id, timeOf: logTimeOf },
+  classicalLogs: { label: '文言文解析', keyOf: e => e.id, timeOf: logTimeOf },
+  transcripts: { label: '對話紀錄', keyOf: t => t.id, timeOf: t => t.updatedAt || t.date },
+  quizAttempts: { label: '測驗紀錄', keyOf: a => a.id, timeOf: a => a.date }
+};
+
+const COLLECTION_NAMES = Object.keys(BACKUP_COLLECTIONS) as BackupCollection[];
+
+// --- Migrations ---
+// MIGRATIONS[n] upgrades a version n file to version n + 1. Add a step here whenever the data model changes.
+
+const asArray = (value: unknown): any[] => Array.isArray(value) ? value : [];
+
+// Cards from before Pinyin was added keep their Jyutping in "phonetic". Also used for stored and synced cards.
+export const upgradeVocabularyItem = (item: any): VocabularyItem => {
+  if (!('phonetic' in item)) return item;
+  const { phonetic, ...rest } = item;
+  return { ...rest, jyutping: rest.jyutping || phonetic || '' };
+};
+
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // 0 → 1: files from before backups were versioned, possibly a bare vocabulary array
+  0: (data) => Array.isArray(data) ? { vocabulary: data } : data,
+  // 1 → 2: transcripts and quiz history are always present; vocabulary fields are normalised
+  1: (data) => ({
+    ...data,
+    vocabulary: asArray(data.vocabulary).filter(i => i && typeof i.word === 'string').map(i => ({
+      ...i,
+      definition: i.definition || '',
+      chineseTranslation: i.chineseTranslation || '',
+      exampleSentence: i.exampleSentence || '',
+      mnemonic: i.mnemonic || '',
+      context: i.context || '',
+      tags: Array.isArray(i.tags) ? i.tags : []
+    })),
+    writingLogs: asArray(data.writingLogs),
+    classicalLogs: asArray(data.classicalLogs),
+    transcripts: asArray(data.transcripts),
+    quizAttempts: asArray(data.quizAttempts)
+  }),
+  // 2 → 3: "phonetic" becomes "jyutping", next to the new "pinyin"
+  2: (data) => ({ ...data, vocabulary: asArray(data.vocabulary).map(upgradeVocabularyItem) })
+};
+
+// Brings any supported backup file up to CURRENT_BACKUP_VERSION
+export const migrateBackup = (raw: unknown): BackupData => {
+  if (!raw || typeof raw !== 'object') throw new Error("無效的備份檔案格式");
+
+  let data: any = raw;
+  let version = Array.isArray(raw) ? 0 : typeof (raw as any).version === 'number' ? (raw as any).version : 1;
+  if (!Number.isInteger(version) || version < 0) throw new Error("無效的備份檔案格式");
+  if (version > CURRENT_BACKUP_VERSION) {
+    throw new Error(`此備份來自較新版本的程式 (格式版本 ${version})，請先更新程式再還原。`);
+  }
+  while (version < CURRENT_BACKUP_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error("無效的備份檔案格式");
+    data = migrate(data);
+    version++;
+  }
+  return { ...data, version, date: typeof data.date === 'string' ? data.date : '' };
+};
+
+// --- Restore planning ---
+
+export type MergeStrategy = 'newest' | 'local' | 'backup';
+
+export const MERGE_STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  newest: '保留較新版本',
+  local: '保留本機版本',
+  backup: '使用備份版本'
+};
+
+export interface RestoreOptions {
+  mode: 'replace' | 'merge';
+  strategy: MergeStrategy; // Merge only: which side wins for records that differ
+}
+
+export interface CollectionChanges {
+  added: number; // Only in the backup
+  updated: number; // In both, backup version wins
+  keptLocal: number; // In both, local version wins
+  unchanged: number; // In both, identical
+  removed: number; // Only local; dropped by "replace"
+}
+
+export interface RestorePlan {
+  backupDate: string;
+  backupVersion: number;
+  backupProfileName?: string;
+  changes: Record<BackupCollection, CollectionChanges>;
+  result: Omit<BackupData, 'version' | 'date' | 'profileName'>;
+}
+
+// Compares content, ignoring bookkeeping fields. Images are compared by presence only because
+// local items hold object URLs while backups embed data URLs.
+const sameContent = (a: unknown, b: unknown): boolean => {
+  const normalise = (value: any) => {
+    const { updatedAt, image, ...rest } = value || {};
+    return JSON.stringify({ ...rest, hasImage: !!image });
+  };
+  return normalise(a) === normalise(b);
+};
+
+// "Keep newest": compares instants, not strings; a missing or unreadable time counts as oldest
+const isNewer = (time: string, than: string): boolean => {
+  const parsed = Date.parse(time);
+  const parsedThan = Date.parse(than);
+  if (isNaN(parsed)) return false;
+  return isNaN(parsedThan) || parsed > parsedThan;
+};
+
+const mergeCollection = <T>(
+  local: T[],
+  incoming: T[],
+  spec: CollectionSpec<T>,
+  options: RestoreOptions
+): { items: T[], changes: CollectionChanges } => {
+  const changes: CollectionChanges = { added: 0, updated: 0, keptLocal: 0, unchanged: 0, removed: 0 };
+  const localByKey = new Map(local.map(item => [spec.keyOf(item), item]));
+  const incomingKeys = new Set<string>();
+  const fromBackup: T[] = [];
+
+  for (const item of incoming) {
+    const key = spec.keyOf(item);
+    if (incomingKeys.has(key)) continue; // Duplicate inside the backup file
+    incomingKeys.add(key);
+
+    const existing = localByKey.get(key);
+    if (existing === undefined) {
+      changes.added++;
+      fromBackup.push(item);
+    } else if (sameContent(existing, item)) {
+      changes.unchanged++;
+      fromBackup.push(existing);
+    } else {
+      const takeBackup = options.mode === 'replace' || options.strategy === 'backup'
+        || (options.strategy === 'newest' && isNewer(spec.timeOf(item), spec.timeOf(existing)));
+      changes[takeBackup ? 'updated' : 'keptLocal']++;
+      fromBackup.push(takeBackup ? item : existing);
+    }
+  }
+
+  const localOnly = local.filter(item => !incomingKeys.has(spec.keyOf(item)));
+  if (options.mode === 'replace') {
+    changes.removed = localOnly.length;
+    return { items: fromBackup, changes };
+  }
+  // Merge keeps local-only records first, so recent local work stays at the top of lists
+  return { items: [...localOnly, ...fromBackup], changes };
+};
+
+// Dry run: works out what restoring would change without touching storage
+export const planRestore = (local: Omit<BackupData, 'version' | 'date' | 'profileName'>, backup: BackupData, options: RestoreOptions): RestorePlan => {
+  const changes = {} as Record<BackupCollection, CollectionChanges>;
+  const result = {} as Record<BackupCollection, unknown[]>;
+  for (const name of COLLECTION_NAMES) {
+    const merged = mergeCollection<any>(local[name], backup[name], BACKUP_COLLECTIONS[name], options);
+    changes[name] = merged.changes;
+    result[name] = merged.items;
+  }
+  return {
+    backupDate: backup.date,
+    backupVersion: backup.version,
+    backupProfileName: typeof backup.profileName === 'string' ? backup.profileName : undefined,
+    changes,
+    result: result as RestorePlan['result']
+  };
+};
@@ -0,0 +1,54 @@
+import { ChineseScript } from '../types';
+import { storageService } from './storageService';
+
+// Traditional → Simplified conversion with OpenCC's phrase and character tables (opencc-js, Hong Kong
+// standard to mainland). Cards and logs stay Traditional; Simplified is produced for display, search and
+// exports. The tables (about 100 KB) load on demand and are precached by the service worker, so they work offline.
+
+const HAN_PATTERN = /\p{Script=Han}/u;
+
+let simplifyText: ((text: string) => string) | null = null;
+let loading: Promise<void> | null = null;
+
+export const loadScriptConverter = (): Promise<void> => {
+  if (!loading) {
+    loading = import('opencc-js/t2cn')
+      .then(({ Converter }) => { simplifyText = Converter({ from: 'hk', to: 'cn' }); })
+      .catch(e => {
+        loading = null; // Let a later call retry, e.g. once back online
+        throw e;
+      });
+  }
+  return loading;
+};
+
+// The converter is needed before rendering or exporting in Simplified
+export const ensureDisplayScript = async (): Promise<void> => {
+  if (storageService.getDisplaySettings().script === 'simplified') await loadScriptConverter();
+};
+
+// Returns the text unchanged until loadScriptConverter has finished
+export const toSimplified = (text: string): string => simplifyText ? simplifyText(text) : text;
+
+export const toScript = (text: string, script: ChineseScript): string => script === 'simplified' ? toSimplified(text) : text;
+
+// For rendering only; never save the result
+export const toDisplayScript = (text: string = ''): string => toScript(text, storageService.getDisplaySettings().script);
+
+// Every string inside value, e.g. a list of cards; ids, dates and URLs contain no Chinese and stay as they are
+export const convertDeep = <T>(value: T, script: ChineseScript): T => {
+  if (script === 'traditional') return value;
+  if (typeof value === 'string') return (HAN_PATTERN.test(value) ? toSimplified(value) : value) as T; // Skips image data URLs quickly
+  if (Array.isArray(value)) return value.map(v => convertDeep(v, script)) as T;
+  if (value && typeof value === 'object' && !(value instanceof Blob)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, convertDeep(v, script)])) as T;
+  }
+  return value;
+};
+
+// Case-insensitive match that ignores the script difference, so 语文 finds 語文 and the other way round
+export const includesEitherScript = (text: string, query: string): boolean => {
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  return haystack.includes(needle) || toSimplified(haystack).includes(toSimplified(needle));
+};
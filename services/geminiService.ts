@@ -1,30 +1,68 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { VocabularyItem, AiProvider } from "../types";
+import { GoogleGenAI, Type, Chat } from "@google/genai";
+import { VocabularyItem, AiProvider, AiFeature, WritingAnalysis, ClassicalAnalysis, QuizFeedback, ChatMessage } from "../types";
+import { storageService } from "./storageService";
+import { AiError, AiRequestOptions, withRetry, ensureOk, toAiError } from "./aiRequest";
+import { ResultSchema, validateResult, describeIssues, mergeValidFields } from "./resultValidation";
+import { aiCache } from "./aiCache";
+import { normalizeJyutping } from "./jyutping";
 
 const GEMINI_MODEL = 'gemini-3-flash-preview';
 const DEEPSEEK_MODEL = 'deepseek-chat'; 
 
 export interface ChatSession {
   sendMessage: (msg: string) => Promise<string>;
+  // Streams the reply: onToken receives each new chunk, the promise resolves with the full text.
+  // Aborting the signal stops the stream and resolves with whatever arrived so far.
+  sendMessageStream: (msg: string, onToken: (chunk: string) => void, signal?: AbortSignal) => Promise<string>;
 }
 
 declare global {
   interface Window {
-    API_KEY?: string;
-    DEEPSEEK_API_KEY?: string;
+    SpeechRecognition?: any;
     webkitSpeechRecognition?: any;
   }
 }
 
-const getApiKey = (provider: AiProvider) => {
-  if (provider === 'deepseek') {
-    const key = window.DEEPSEEK_API_KEY || process.env.DEEPSEEK_API_KEY;
-    if (!key) throw new Error("DeepSeek API Key is missing.");
-    return key;
-  }
-  const key = window.API_KEY || process.env.API_KEY;
-  return key;
+// DeepSeek and Gemini calls go through the server's AI proxy (server/aiProxy.ts), which holds the API keys
+// and bills each call to the feature named in this header
+const AI_PROXY_PATH = '/api/ai';
+const FEATURE_HEADER = 'X-MemoraLink-Feature';
+
+// The SDK refuses to run in a browser without a key; the proxy replaces this placeholder with the real one
+const createGeminiClient = (feature: AiFeature) => new GoogleGenAI({
+  apiKey: 'server-side',
+  httpOptions: { baseUrl: `${window.location.origin}${AI_PROXY_PATH}/gemini`, headers: { [FEATURE_HEADER]: feature } }
+});
+
+export interface AiUsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number; // Estimated by the server from list prices
+}
+
+export interface AiUsageSummary extends AiUsageTotals {
+  byProvider: Partial<Record<AiProvider, AiUsageTotals>>;
+  byFeature: Partial<Record<AiFeature, AiUsageTotals>>;
+}
+
+export interface AiUsageReport {
+  day: string;
+  requests: number; // Today, signed-in user: what the daily quota counts
+  tokens: number;
+  requestLimit: number; // 0 = unlimited
+  tokenLimit: number;
+  dailyBudgetUsd: number; // All users together; 0 = no cap
+  monthlyBudgetUsd: number;
+  today: { user: AiUsageSummary, team: AiUsageSummary };
+  month: { user: AiUsageSummary, team: AiUsageSummary };
+}
+
+// Proxied DeepSeek/Gemini usage and estimated cost, for the signed-in user and the whole team
+export const getAiUsage = async (): Promise<AiUsageReport> => {
+  const response = await ensureOk(await fetch(`${AI_PROXY_PATH}/usage`), 'deepseek');
+  return response.json();
 };
 
 // Data Sanitizer (Enhanced: Fixes missing definitions AND missing words AND missing examples)
@@ -55,7 +93,9 @@ const sanitizeVocabularyItems = (items: any[]): VocabularyItem[] => {
     return {
       word,
       definition,
-      phonetic: item.phonetic || item.jyutping || item.pinyin || "",
+      // Older prompts (and some models) still answer with a single "phonetic" field holding Jyutping
+      jyutping: normalizeJyutping(String(item.jyutping || item.phonetic || "")),
+      pinyin: String(item.pinyin || "").trim().replace(/\s+/g, ' '),
       chineseTranslation: item.chineseTranslation || "",
       exampleSentence,
       mnemonic: (item.mnemonic && item.mnemonic.trim() !== "") ? item.mnemonic : "暫無聯想記憶",
@@ -104,7 +144,7 @@ const extractJsonArray = (text: string) => {
     if (matchObj) {
         try { return JSON.parse(matchObj[0]).items; } catch (e3) {}
     }
-    return [];
+    throw new AiError('malformed', "AI response is not a valid JSON array.");
   }
 };
 
@@ -130,43 +170,264 @@ const extractJsonObject = (text: string) => {
     return typeof parsed === 'object' ? parsed : {};
   } catch (e) {
     console.error("JSON Object Parse Error:", e);
-    return {};
+    throw new AiError('malformed', "AI response is not a valid JSON object.");
   }
 };
 
-async function callDeepSeek(prompt: string, systemInstruction: string, jsonMode: boolean = true) {
-  const apiKey = getApiKey('deepseek');
-  const response = await fetch('https://api.deepseek.com/chat/completions', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
-    body: JSON.stringify({
-      model: DEEPSEEK_MODEL,
-      messages: [
-          { role: "system", content: systemInstruction }, 
-          { role: "user", content: prompt }
-      ],
-      response_format: jsonMode ? { type: "json_object" } : undefined,
-      temperature: 0.7 
-    })
-  });
-  if (!response.ok) throw new Error(`DeepSeek API error: ${response.status}`);
-  const data = await response.json();
-  return data.choices[0].message.content;
+interface OpenAiEndpoint {
+  provider: Exclude<AiProvider, 'gemini'>;
+  url: string;
+  model: string;
+  apiKey?: string;
+  jsonMode: boolean;
+}
+
+// DeepSeek and user-configured servers (Ollama, llama.cpp...) share the OpenAI chat completions API
+const getOpenAiEndpoint = (provider: Exclude<AiProvider, 'gemini'>): OpenAiEndpoint => {
+  if (provider === 'deepseek') {
+    return { provider, url: `${AI_PROXY_PATH}/deepseek/chat/completions`, model: DEEPSEEK_MODEL, jsonMode: true };
+  }
+  const config = storageService.getOpenAiConfig();
+  if (!config.baseUrl.trim() || !config.model.trim()) {
+    throw new AiError('config', "請先在「設定」中填寫自訂模型的 Base URL 及模型名稱。", { provider });
+  }
+  return {
+    provider,
+    url: `${config.baseUrl.trim().replace(/\/+$/, '')}/chat/completions`,
+    model: config.model.trim(),
+    apiKey: config.apiKey.trim() || undefined,
+    jsonMode: config.jsonMode
+  };
+};
+
+const buildHeaders = (endpoint: OpenAiEndpoint, feature: AiFeature): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (endpoint.apiKey) headers['Authorization'] = `Bearer ${endpoint.apiKey}`;
+  // Only the proxy reads it; a custom header would make other servers demand a CORS preflight
+  if (endpoint.provider === 'deepseek') headers[FEATURE_HEADER] = feature;
+  return headers;
+};
+
+const postChatCompletions = async (
+  endpoint: OpenAiEndpoint,
+  feature: AiFeature,
+  messages: { role: string, content: string }[],
+  temperature: number,
+  jsonMode: boolean,
+  options: AiRequestOptions = {}
+): Promise<string> => {
+  return withRetry(async (signal) => {
+    const response = await ensureOk(await fetch(endpoint.url, {
+      method: 'POST',
+      headers: buildHeaders(endpoint, feature),
+      body: JSON.stringify({
+        model: endpoint.model,
+        messages,
+        response_format: jsonMode && endpoint.jsonMode ? { type: "json_object" } : undefined,
+        temperature
+      }),
+      signal
+    }), endpoint.provider);
+
+    let data: any;
+    try {
+      data = await response.json();
+    } catch {
+      throw new AiError('malformed', "Chat completions response is not JSON.", { provider: endpoint.provider });
+    }
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new AiError('malformed', "Chat completions response has no message content.", { provider: endpoint.provider });
+    }
+    return content;
+  }, endpoint.provider, options);
+};
+
+// Server-Sent Events variant of postChatCompletions ("data: {...}" lines, ending with "data: [DONE]")
+const streamChatCompletions = async (
+  endpoint: OpenAiEndpoint,
+  feature: AiFeature,
+  messages: { role: string, content: string }[],
+  temperature: number,
+  onToken: (chunk: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  let fullText = '';
+  try {
+    // Retries and the timeout only cover establishing the stream; once tokens flow the user can cancel
+    const response = await withRetry(async (attemptSignal) => ensureOk(await fetch(endpoint.url, {
+      method: 'POST',
+      headers: buildHeaders(endpoint, feature),
+      body: JSON.stringify({ model: endpoint.model, messages, temperature, stream: true }),
+      signal: attemptSignal
+    }), endpoint.provider), endpoint.provider, { signal });
+    if (!response.body) throw new AiError('malformed', "Chat completions stream has no body.", { provider: endpoint.provider });
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || ''; // Keep the incomplete last line for the next read
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return fullText;
+        try {
+          const chunk = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (chunk) {
+            fullText += chunk;
+            onToken(chunk);
+          }
+        } catch {
+          console.warn("Skipping malformed stream chunk", payload);
+        }
+      }
+    }
+    return fullText;
+  } catch (e: any) {
+    if (signal?.aborted) return fullText;
+    throw toAiError(e, endpoint.provider);
+  }
+};
+
+async function callOpenAiCompatible(feature: AiFeature, provider: Exclude<AiProvider, 'gemini'>, prompt: string, systemInstruction: string, jsonMode: boolean = true, options: AiRequestOptions = {}) {
+  return postChatCompletions(
+    getOpenAiEndpoint(provider),
+    feature,
+    [
+      { role: "system", content: systemInstruction },
+      { role: "user", content: prompt }
+    ],
+    0.7,
+    jsonMode,
+    options
+  );
+}
+
+// JSON-mode Gemini call routed through the shared retry/timeout layer
+async function callGemini(feature: AiFeature, prompt: string, systemInstruction: string, responseSchema: object, options: AiRequestOptions = {}) {
+  return withRetry(async (signal) => {
+    const ai = createGeminiClient(feature);
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: prompt,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema,
+        abortSignal: signal
+      }
+    });
+    return response.text || "";
+  }, 'gemini', options);
 }
 
+// Reuses the result of an identical earlier request (see aiCache). options.refresh skips the lookup but
+// still stores the new answer; results failing isComplete are not cached, so a retry asks the AI again.
+async function withCache<T>(
+  provider: AiProvider,
+  parts: string[],
+  options: AiRequestOptions,
+  isComplete: (result: T) => boolean,
+  compute: () => Promise<T>
+): Promise<T> {
+  let model = GEMINI_MODEL;
+  if (provider !== 'gemini') {
+    const endpoint = getOpenAiEndpoint(provider);
+    model = `${endpoint.model}@${endpoint.url}`;
+  }
+  const key = await aiCache.buildKey(provider, model, parts);
+  if (key && !options.refresh) {
+    const hit = await aiCache.get<T>(key);
+    if (hit) {
+      options.onCacheHit?.(hit.cachedAt);
+      return hit.value;
+    }
+  }
+  const result = await compute();
+  if (key && isComplete(result)) aiCache.set(key, result); // Not awaited: storing must not delay the answer
+  return result;
+}
+
+const WRITING_ANALYSIS_SCHEMA: ResultSchema<WritingAnalysis> = {
+  correction: { type: 'string', label: '語法修正' },
+  explanation: { type: 'string', label: '修正說明' },
+  improvedVersion: { type: 'string', label: '潤飾版本' },
+  keyVocabulary: { type: 'array', label: '建議詞彙' }
+};
+
+const QUIZ_FEEDBACK_SCHEMA: ResultSchema<QuizFeedback> = {
+  ...WRITING_ANALYSIS_SCHEMA,
+  score: { type: 'number', label: '評分', min: 0, max: 100 },
+  wordScores: { type: 'array', label: '詞彙評分' }
+};
+
+const CLASSICAL_ANALYSIS_SCHEMA: ResultSchema<ClassicalAnalysis> = {
+  translation: { type: 'string', label: '白話翻譯' },
+  origin: { type: 'string', label: '出處' },
+  usage: { type: 'string', label: '現代應用' },
+  vocabulary: { type: 'array', label: '重點詞彙', minItems: 1 }
+};
+
+const parseObjectOrNull = (text: string): Record<string, unknown> | null => {
+  try {
+    return extractJsonObject(text);
+  } catch {
+    return null;
+  }
+};
+
+// Asks once and validates against schema; if fields are missing, re-asks once quoting the problems.
+// Fields still invalid after the re-ask are reported (by label) rather than silently left blank.
+async function askValidated<T>(
+  ask: (prompt: string) => Promise<string>,
+  prompt: string,
+  schema: ResultSchema<T>,
+  provider: AiProvider
+): Promise<{ data: Record<string, unknown>, missingFields: string[] }> {
+  const first = parseObjectOrNull(await ask(prompt));
+  const issues = validateResult(first, schema);
+  if (first && issues.length === 0) return { data: first, missingFields: [] };
+
+  console.warn("AI result failed validation, re-asking once:", issues);
+  const retryPrompt = `${prompt}\n\n【注意】你上一次的回覆不符合要求：${describeIssues(issues)}。請重新回傳完整的 JSON，所有欄位都必須填寫，鍵名必須完全一致。`;
+  const second = parseObjectOrNull(await ask(retryPrompt));
+  if (!first && !second) {
+    throw new AiError('malformed', "AI response is not a valid JSON object (after one retry).", { provider });
+  }
+
+  const { merged, issues: remaining } = mergeValidFields([first, second].filter(Boolean), schema);
+  return { data: merged, missingFields: remaining.map(i => i.label) };
+}
+
+const asString = (value: unknown): string => typeof value === 'string' ? value : '';
+
+// Clamps model scores (sometimes sent as strings like "85") to an integer 0-100
+const asScore = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && !isNaN(n) ? Math.round(Math.min(100, Math.max(0, n))) : null;
+};
+
 // 1. Generate Vocabulary (Chinese Context)
 export const generateVocabularyByTopic = async (
   topic: string, 
   count: number, 
   difficulty: string,
-  provider: AiProvider
+  provider: AiProvider,
+  options: AiRequestOptions = {}
 ): Promise<VocabularyItem[]> => {
   const sys = `你是資深中文老師。目標：幫助記憶力差的初中/高中生及在職人士學習詞彙。
   任務：提供 ${count} 個與「${topic}」相關的${difficulty}中文詞彙或成語。
   
   嚴格規則：
   1. **所有解釋(definition)及例句(exampleSentence)必須使用「標準書面語」(Standard Written Chinese)**，嚴禁使用廣東話口語。
-  2. "phonetic" 必須是 **粵拼 (Jyutping)**。
+  2. "jyutping" 必須是 **粵拼 (Jyutping)**，"pinyin" 必須是 **漢語拼音**（附聲調符號）。
   3. **例句 (exampleSentence) 絕對不能留空**。如果詞彙較難，請創造一個易於理解的書面語例句。
   
   嚴格回傳 JSON 格式：
@@ -174,7 +435,8 @@ export const generateVocabularyByTopic = async (
     "items": [
       {
         "word": "詞彙",
-        "phonetic": "粵拼 (例如: jyut6)",
+        "jyutping": "粵拼 (例如: jyut6 jyu5)",
+        "pinyin": "漢語拼音 (例如: yuè yǔ)",
         "definition": "詳細書面語解釋",
         "mnemonic": "聯想記憶故事",
         "exampleSentence": "完整書面語例句 (必填)",
@@ -187,100 +449,152 @@ export const generateVocabularyByTopic = async (
 
   const prompt = `請生成關於「${topic}」的 ${count} 個詞彙卡。請確保每個詞彙都有書面語例句。`;
 
-  if (provider === 'deepseek') {
-    const resText = await callDeepSeek(prompt, sys, true);
+  if (provider !== 'gemini') {
+    const resText = await callOpenAiCompatible('vocabulary', provider, prompt, sys, true, options);
     return sanitizeVocabularyItems(extractJsonArray(resText));
   }
 
-  const ai = new GoogleGenAI({ apiKey: getApiKey('gemini') });
-  const response = await ai.models.generateContent({
-    model: GEMINI_MODEL,
-    contents: prompt,
-    config: {
-      systemInstruction: sys,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
+  const responseText = await callGemini('vocabulary', prompt, sys, {
+    type: Type.OBJECT,
+    properties: {
+        items: {
+            type: Type.ARRAY,
             items: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        word: { type: Type.STRING },
-                        phonetic: { type: Type.STRING },
-                        definition: { type: Type.STRING },
-                        chineseTranslation: { type: Type.STRING },
-                        exampleSentence: { type: Type.STRING },
-                        mnemonic: { type: Type.STRING },
-                        context: { type: Type.STRING },
-                        tags: { type: Type.ARRAY, items: { type: Type.STRING } }
-                    }
+                type: Type.OBJECT,
+                properties: {
+                    word: { type: Type.STRING },
+                    jyutping: { type: Type.STRING },
+                    pinyin: { type: Type.STRING },
+                    definition: { type: Type.STRING },
+                    chineseTranslation: { type: Type.STRING },
+                    exampleSentence: { type: Type.STRING },
+                    mnemonic: { type: Type.STRING },
+                    context: { type: Type.STRING },
+                    tags: { type: Type.ARRAY, items: { type: Type.STRING } }
                 }
             }
         }
-      }
     }
-  });
+  }, options);
   
-  return sanitizeVocabularyItems(extractJsonArray(response.text || "[]"));
+  return sanitizeVocabularyItems(extractJsonArray(responseText || "[]"));
 };
 
 // 1.1 Generate from List (Chinese)
-export const generateVocabularyFromList = async (words: string[], provider: AiProvider): Promise<VocabularyItem[]> => {
+export const generateVocabularyFromList = async (words: string[], provider: AiProvider, options: AiRequestOptions = {}): Promise<VocabularyItem[]> => {
   const sys = `你是中文詞彙專家。請為以下詞彙製作記憶卡。
   回傳 JSON { "items": [...] }。
   嚴格規則：
-  1. phonetic 提供粵拼 (Jyutping)。
+  1. jyutping 提供粵拼 (Jyutping)，pinyin 提供附聲調符號的漢語拼音。
   2. definition (解釋) 和 exampleSentence (例句) 必須使用**標準書面語**。
   3. mnemonic (記憶法) 必須填寫。
   4. **例句 (exampleSentence) 必須填寫**，如果沒有現成例句，請根據詞義造句。`;
   
   const prompt = `詞彙列表：${words.join(', ')}`;
 
-  if (provider === 'deepseek') {
-    const resText = await callDeepSeek(prompt, sys, true);
-    return sanitizeVocabularyItems(extractJsonArray(resText));
-  }
+  return withCache(provider, ['vocabularyFromList', sys, prompt], options, items => items.length > 0, async () => {
+    if (provider !== 'gemini') {
+      const resText = await callOpenAiCompatible('vocabulary', provider, prompt, sys, true, options);
+      return sanitizeVocabularyItems(extractJsonArray(resText));
+    }
   
-  const ai = new GoogleGenAI({ apiKey: getApiKey('gemini') });
-  const response = await ai.models.generateContent({
-    model: GEMINI_MODEL,
-    contents: prompt,
-    config: {
-        systemInstruction: sys,
-        responseMimeType: "application/json",
-        responseSchema: {
-            type: Type.OBJECT,
-            properties: {
+    const responseText = await callGemini('vocabulary', prompt, sys, {
+        type: Type.OBJECT,
+        properties: {
+            items: {
+                type: Type.ARRAY,
                 items: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            word: { type: Type.STRING },
-                            phonetic: { type: Type.STRING },
-                            definition: { type: Type.STRING },
-                            chineseTranslation: { type: Type.STRING },
-                            exampleSentence: { type: Type.STRING },
-                            mnemonic: { type: Type.STRING },
-                            context: { type: Type.STRING },
-                            tags: { type: Type.ARRAY, items: { type: Type.STRING } }
-                        }
+                    type: Type.OBJECT,
+                    properties: {
+                        word: { type: Type.STRING },
+                        jyutping: { type: Type.STRING },
+                        pinyin: { type: Type.STRING },
+                        definition: { type: Type.STRING },
+                        chineseTranslation: { type: Type.STRING },
+                        exampleSentence: { type: Type.STRING },
+                        mnemonic: { type: Type.STRING },
+                        context: { type: Type.STRING },
+                        tags: { type: Type.ARRAY, items: { type: Type.STRING } }
                     }
                 }
             }
         }
+    }, options);
+    return sanitizeVocabularyItems(extractJsonArray(responseText || "[]"));
+  });
+};
+
+// 1c. Complete imported cards: only empty fields are filled, values from the file are kept as-is
+const FILLABLE_KEYS = ['jyutping', 'pinyin', 'definition', 'exampleSentence', 'mnemonic'] as const;
+
+export const fillMissingVocabularyFields = async (items: VocabularyItem[], provider: AiProvider, options: AiRequestOptions = {}): Promise<VocabularyItem[]> => {
+  const sys = `你是中文詞彙專家。用戶匯入了一批記憶卡，部分欄位是空白的。
+  回傳 JSON { "items": [...] }，每個詞彙一項，word 必須與輸入完全相同。
+  嚴格規則：
+  1. 只需填寫空白 ("") 的欄位；已有內容的欄位原樣保留。
+  2. jyutping 提供粵拼 (Jyutping)，pinyin 提供附聲調符號的漢語拼音。
+  3. definition (解釋) 和 exampleSentence (例句) 必須使用**標準書面語**，例句必須包含該詞彙。
+  4. mnemonic (記憶法) 用拆字或聯想幫助記憶。`;
+
+  const prompt = JSON.stringify(items.map(item => {
+    const card: Record<string, string> = { word: item.word };
+    for (const key of FILLABLE_KEYS) card[key] = item[key] || '';
+    return card;
+  }));
+
+  // The raw reply is cached rather than the completed cards, whose other fields are not part of the prompt
+  const hasItems = (text: string) => {
+    try {
+      return extractJsonArray(text).length > 0;
+    } catch {
+      return false;
+    }
+  };
+  const responseText = await withCache(provider, ['fillMissing', sys, prompt], options, hasItems, () => provider !== 'gemini'
+    ? callOpenAiCompatible('vocabulary', provider, prompt, sys, true, options)
+    : callGemini('vocabulary', prompt, sys, {
+        type: Type.OBJECT,
+        properties: {
+          items: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                word: { type: Type.STRING },
+                jyutping: { type: Type.STRING },
+                pinyin: { type: Type.STRING },
+                definition: { type: Type.STRING },
+                exampleSentence: { type: Type.STRING },
+                mnemonic: { type: Type.STRING }
+              }
+            }
+          }
+        }
+      }, options));
+
+  const filled = new Map<string, any>();
+  for (const entry of extractJsonArray(responseText || "[]")) {
+    if (typeof entry?.word === 'string') filled.set(entry.word.trim(), entry);
+  }
+
+  return items.map(item => {
+    const suggestion = filled.get(item.word);
+    if (!suggestion) return item;
+    const completed = { ...item };
+    for (const key of FILLABLE_KEYS) {
+      if (completed[key]?.trim() || typeof suggestion[key] !== 'string') continue;
+      completed[key] = key === 'jyutping' ? normalizeJyutping(suggestion[key]) : suggestion[key].trim();
     }
+    return completed;
   });
-  return sanitizeVocabularyItems(extractJsonArray(response.text || "[]"));
 };
 
 // 2. Analyze Classical Chinese (Improved for DeepSeek stability)
 export const analyzeClassicalChinese = async (
   text: string,
-  provider: AiProvider
-): Promise<any> => {
+  provider: AiProvider,
+  options: AiRequestOptions = {}
+): Promise<ClassicalAnalysis> => {
   const sys = `你是國學大師。用戶輸入文言文或詩詞。
   任務：
   1. 提供「白話文翻譯」(標準書面語)。
@@ -296,7 +610,8 @@ export const analyzeClassicalChinese = async (
     "vocabulary": [
       {
         "word": "詞彙",
-        "phonetic": "粵拼",
+        "jyutping": "粵拼",
+        "pinyin": "漢語拼音",
         "definition": "解釋",
         "mnemonic": "助記法",
         "exampleSentence": "書面語例句 (必填)"
@@ -307,64 +622,65 @@ export const analyzeClassicalChinese = async (
 
   const prompt = `請分析以下古文：\n${text}`;
 
-  if (provider === 'deepseek') {
-    const resText = await callDeepSeek(prompt, sys, true);
-    const result = extractJsonObject(resText);
-    
-    if (!result.vocabulary) result.vocabulary = [];
-    if (Array.isArray(result.vocabulary)) {
-        result.vocabulary = sanitizeVocabularyItems(result.vocabulary);
-    }
-    return result;
-  }
-
-  const ai = new GoogleGenAI({ apiKey: getApiKey('gemini') });
-  const response = await ai.models.generateContent({
-    model: GEMINI_MODEL, 
-    contents: prompt,
-    config: {
-      systemInstruction: sys,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          translation: { type: Type.STRING },
-          origin: { type: Type.STRING },
-          usage: { type: Type.STRING },
-          vocabulary: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                word: { type: Type.STRING },
-                phonetic: { type: Type.STRING },
-                definition: { type: Type.STRING },
-                chineseTranslation: { type: Type.STRING },
-                exampleSentence: { type: Type.STRING },
-                mnemonic: { type: Type.STRING },
-                context: { type: Type.STRING },
-                tags: { type: Type.ARRAY, items: { type: Type.STRING } }
-              }
+  const ask = (p: string) => provider !== 'gemini'
+    ? callOpenAiCompatible('classical', provider, p, sys, true, options)
+    : callGemini('classical', p, sys, {
+      type: Type.OBJECT,
+      properties: {
+        translation: { type: Type.STRING },
+        origin: { type: Type.STRING },
+        usage: { type: Type.STRING },
+        vocabulary: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              word: { type: Type.STRING },
+              jyutping: { type: Type.STRING },
+              pinyin: { type: Type.STRING },
+              definition: { type: Type.STRING },
+              chineseTranslation: { type: Type.STRING },
+              exampleSentence: { type: Type.STRING },
+              mnemonic: { type: Type.STRING },
+              context: { type: Type.STRING },
+              tags: { type: Type.ARRAY, items: { type: Type.STRING } }
             }
           }
         }
-      }
-    }
+      },
+      required: ['translation', 'origin', 'usage', 'vocabulary']
+    }, options);
+
+  const isComplete = (result: ClassicalAnalysis) => result.missingFields.length === 0 && result.vocabulary.length > 0;
+  return withCache(provider, ['classical', sys, prompt], options, isComplete, async () => {
+    const { data, missingFields } = await askValidated(ask, prompt, CLASSICAL_ANALYSIS_SCHEMA, provider);
+    return {
+      translation: asString(data.translation),
+      origin: asString(data.origin),
+      usage: asString(data.usage),
+      vocabulary: Array.isArray(data.vocabulary) ? sanitizeVocabularyItems(data.vocabulary) : [],
+      missingFields
+    };
   });
-  const result = extractJsonObject(response.text || "{}");
-  if (result.vocabulary && Array.isArray(result.vocabulary)) {
-      result.vocabulary = sanitizeVocabularyItems(result.vocabulary);
-  }
-  return result;
 };
 
+const KEY_VOCABULARY_GEMINI_SCHEMA = { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { word: {type:Type.STRING}, definition: {type:Type.STRING}, mnemonic: {type:Type.STRING}, jyutping: {type:Type.STRING}, pinyin: {type:Type.STRING}, chineseTranslation: {type:Type.STRING}, exampleSentence: {type:Type.STRING}, tags: {type:Type.ARRAY, items: {type:Type.STRING}} } } };
+
+const toWritingAnalysis = (data: Record<string, unknown>, missingFields: string[]): WritingAnalysis => ({
+  correction: asString(data.correction),
+  explanation: asString(data.explanation),
+  improvedVersion: asString(data.improvedVersion),
+  keyVocabulary: Array.isArray(data.keyVocabulary) ? sanitizeVocabularyItems(data.keyVocabulary) : [],
+  missingFields
+});
+
 // 3. Analyze Writing (Chinese)
-export const analyzeWriting = async (text: string, context: string, provider: AiProvider): Promise<any> => {
+export const analyzeWriting = async (text: string, context: string, provider: AiProvider, options: AiRequestOptions = {}): Promise<WritingAnalysis> => {
   const sys = `你是中文寫作教練。
   1. 修正語法與錯別字 (Correction) - 標準書面語。
   2. 潤飾文章 (Improved Version) - 標準書面語。
   3. 提供解釋 (Explanation)。
-  4. 建議 2-3 個高級詞彙 (Key Vocabulary)，附帶粵拼、記憶法及**例句**。
+  4. 建議 2-3 個高級詞彙 (Key Vocabulary)，附帶粵拼、漢語拼音、記憶法及**例句**。
   
   回傳 JSON 結構：
   {
@@ -372,84 +688,154 @@ export const analyzeWriting = async (text: string, context: string, provider: Ai
     "explanation": "...",
     "improvedVersion": "...",
     "keyVocabulary": [
-       { "word": "...", "phonetic": "...", "definition": "...", "mnemonic": "...", "exampleSentence": "例句 (必填)" }
+       { "word": "...", "jyutping": "...", "pinyin": "...", "definition": "...", "mnemonic": "...", "exampleSentence": "例句 (必填)" }
     ]
   }`;
   
   const prompt = `語境：${context}。文章：${text}`;
 
-  if (provider === 'deepseek') {
-    const resText = await callDeepSeek(prompt, sys, true);
-    const result = extractJsonObject(resText);
-    if (result.keyVocabulary && Array.isArray(result.keyVocabulary)) {
-        result.keyVocabulary = sanitizeVocabularyItems(result.keyVocabulary);
-    }
-    return result;
-  }
+  const ask = (p: string) => provider !== 'gemini'
+    ? callOpenAiCompatible('writing', provider, p, sys, true, options)
+    : callGemini('writing', p, sys, {
+       type: Type.OBJECT,
+       properties: {
+          correction: { type: Type.STRING },
+          explanation: { type: Type.STRING },
+          improvedVersion: { type: Type.STRING },
+          keyVocabulary: KEY_VOCABULARY_GEMINI_SCHEMA
+       },
+       required: ['correction', 'explanation', 'improvedVersion', 'keyVocabulary']
+    }, options);
+
+  const { data, missingFields } = await askValidated(ask, prompt, WRITING_ANALYSIS_SCHEMA, provider);
+  return toWritingAnalysis(data, missingFields);
+};
 
-  const ai = new GoogleGenAI({ apiKey: getApiKey('gemini') });
-  const response = await ai.models.generateContent({
-    model: GEMINI_MODEL, 
-    contents: prompt,
-    config: {
-      systemInstruction: sys,
-      responseMimeType: "application/json",
-      responseSchema: {
-         type: Type.OBJECT,
-         properties: {
-            correction: { type: Type.STRING },
-            explanation: { type: Type.STRING },
-            improvedVersion: { type: Type.STRING },
-            keyVocabulary: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { word: {type:Type.STRING}, definition: {type:Type.STRING}, mnemonic: {type:Type.STRING}, phonetic: {type:Type.STRING}, chineseTranslation: {type:Type.STRING}, exampleSentence: {type:Type.STRING}, tags: {type:Type.ARRAY, items: {type:Type.STRING}} } } }
-         }
-      }
+// 3b. Grade a QuizRoom answer: writing feedback plus an overall score and one score per required word
+export const gradeQuizAnswer = async (answer: string, scenario: string, words: string[], provider: AiProvider, options: AiRequestOptions = {}): Promise<QuizFeedback> => {
+  const sys = `你是嚴格但友善的中文老師，負責批改情境造句測驗。
+  1. 修正語法與錯別字 (Correction) - 標準書面語。
+  2. 提供一個完美範例 (Improved Version)。
+  3. 提供評語 (Explanation)，指出每個指定詞彙是否用得恰當。
+  4. 建議 2-3 個相關詞彙 (Key Vocabulary)，附帶粵拼、漢語拼音、記憶法及例句。
+  5. 給出總分 score (0-100 整數)：詞彙運用佔 60%，語法及切題佔 40%。
+  6. 為每個指定詞彙給分 wordScores (0-100)：沒有使用為 0，用錯意思不高於 40。
+  
+  回傳 JSON 結構：
+  {
+    "correction": "...",
+    "explanation": "...",
+    "improvedVersion": "...",
+    "keyVocabulary": [ { "word": "...", "jyutping": "...", "pinyin": "...", "definition": "...", "mnemonic": "...", "exampleSentence": "..." } ],
+    "score": 75,
+    "wordScores": [ { "word": "指定詞彙", "score": 80 } ]
+  }`;
+
+  const prompt = `題目情境：${scenario}\n指定詞彙：${words.join('、')}\n學生答案：${answer}`;
+
+  const ask = (p: string) => provider !== 'gemini'
+    ? callOpenAiCompatible('quiz', provider, p, sys, true, options)
+    : callGemini('quiz', p, sys, {
+       type: Type.OBJECT,
+       properties: {
+          correction: { type: Type.STRING },
+          explanation: { type: Type.STRING },
+          improvedVersion: { type: Type.STRING },
+          keyVocabulary: KEY_VOCABULARY_GEMINI_SCHEMA,
+          score: { type: Type.INTEGER },
+          wordScores: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { word: { type: Type.STRING }, score: { type: Type.INTEGER } } } }
+       },
+       required: ['correction', 'explanation', 'improvedVersion', 'keyVocabulary', 'score', 'wordScores']
+    }, options);
+
+  const { data, missingFields } = await askValidated(ask, prompt, QUIZ_FEEDBACK_SCHEMA, provider);
+  const score = asScore(data.score) ?? 0;
+
+  // Words the model did not score inherit the overall score
+  const reported = new Map<string, number>();
+  if (Array.isArray(data.wordScores)) {
+    for (const entry of data.wordScores as any[]) {
+      const wordScore = asScore(entry?.score);
+      if (typeof entry?.word === 'string' && wordScore !== null) reported.set(entry.word.trim(), wordScore);
     }
-  });
-  const result = extractJsonObject(response.text || "{}");
-  if (result.keyVocabulary && Array.isArray(result.keyVocabulary)) {
-      result.keyVocabulary = sanitizeVocabularyItems(result.keyVocabulary);
   }
-  return result;
+  const wordScores: Record<string, number> = {};
+  for (const word of words) wordScores[word] = reported.get(word) ?? score;
+
+  return { ...toWritingAnalysis(data, missingFields), score, wordScores };
 };
 
 // 4. Chat (Chinese Roleplay)
-export const createChatSession = (provider: AiProvider, systemInstruction: string): ChatSession => {
+// Pass previousMessages to resume a saved conversation; they are replayed as prior turns.
+export const createChatSession = (provider: AiProvider, systemInstruction: string, previousMessages: ChatMessage[] = []): ChatSession => {
   const instruction = systemInstruction + " 請使用標準書面語 (Standard Written Chinese) 進行主要回答。若涉及口語教學，可適量使用口語。";
+  // Both APIs expect the conversation to open with a user turn, so drop local greetings before it
+  const firstUser = previousMessages.findIndex(m => m.role === 'user');
+  const priorTurns = (firstUser === -1 ? [] : previousMessages.slice(firstUser)).filter(m => m.text);
   
-  if (provider === 'deepseek') {
-    let history: {role: string, content: string}[] = [];
+  if (provider !== 'gemini') {
+    let history: {role: string, content: string}[] = priorTurns.map(m => ({ role: m.role === 'user' ? 'user' : 'assistant', content: m.text }));
     return {
       sendMessage: async (msg: string) => {
-        history.push({ role: "user", content: msg });
-        const apiKey = getApiKey('deepseek');
-        const response = await fetch('https://api.deepseek.com/chat/completions', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
-            body: JSON.stringify({
-            model: DEEPSEEK_MODEL,
-            messages: [{ role: "system", content: instruction }, ...history],
-            temperature: 0.9 
-            })
-        });
-        if (!response.ok) throw new Error(`DeepSeek API error: ${response.status}`);
-        const data = await response.json();
-        const resText = data.choices[0].message.content;
-        history.push({ role: "assistant", content: resText });
-        return resText as string;
+        const endpoint = getOpenAiEndpoint(provider);
+        const turn = { role: "user", content: msg };
+        const resText = await postChatCompletions(endpoint, 'chat', [{ role: "system", content: instruction }, ...history, turn], 0.9, false);
+        // Only successful turns enter the history, so a failed send can simply be retried
+        history.push(turn, { role: "assistant", content: resText });
+        return resText;
+      },
+      sendMessageStream: async (msg: string, onToken: (chunk: string) => void, signal?: AbortSignal) => {
+        const endpoint = getOpenAiEndpoint(provider);
+        const turn = { role: "user", content: msg };
+        const resText = await streamChatCompletions(endpoint, 'chat', [{ role: "system", content: instruction }, ...history, turn], 0.9, onToken, signal);
+        history.push(turn, { role: "assistant", content: resText });
+        return resText;
       }
     };
   }
 
-  const ai = new GoogleGenAI({ apiKey: getApiKey('gemini') });
-  const chat = ai.chats.create({
-    model: GEMINI_MODEL,
-    config: { systemInstruction: instruction }
-  });
+  // Created on first use, so creating a session never throws
+  let chat: Chat | null = null;
+  const getChat = (): Chat => {
+    if (!chat) {
+      const ai = createGeminiClient('chat');
+      chat = ai.chats.create({
+        model: GEMINI_MODEL,
+        config: { systemInstruction: instruction },
+        history: priorTurns.map(m => ({ role: m.role, parts: [{ text: m.text }] }))
+      });
+    }
+    return chat;
+  };
 
   return {
     sendMessage: async (msg: string) => {
-      const result = await chat.sendMessage({ message: msg });
+      // Per-request config replaces the chat config, so the system instruction is repeated here
+      const result = await withRetry(
+        signal => getChat().sendMessage({ message: msg, config: { systemInstruction: instruction, abortSignal: signal } }),
+        'gemini'
+      );
       return result.text || "";
+    },
+    sendMessageStream: async (msg: string, onToken: (chunk: string) => void, signal?: AbortSignal) => {
+      let fullText = '';
+      try {
+        const stream = await withRetry(
+          attemptSignal => getChat().sendMessageStream({ message: msg, config: { systemInstruction: instruction, abortSignal: attemptSignal } }),
+          'gemini',
+          { signal }
+        );
+        for await (const chunk of stream) {
+          const text = chunk.text || '';
+          if (text) {
+            fullText += text;
+            onToken(text);
+          }
+        }
+      } catch (e) {
+        if (!signal?.aborted) throw toAiError(e, 'gemini');
+      }
+      return fullText;
     }
   };
 };
@@ -0,0 +1,110 @@
+// Minimal promise wrappers around IndexedDB used by storageService.
+
+const DB_NAME = 'memoralink_chinese_sys';
+const DB_VERSION = 2;
+
+export const STORES = {
+  KV: 'kv', // JSON values keyed by the old localStorage key names
+  IMAGES: 'images', // Vocabulary images as Blobs
+  AI_CACHE: 'ai_cache' // Cached AI results (see aiCache), device-wide
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.KV)) db.createObjectStore(STORES.KV);
+      if (!db.objectStoreNames.contains(STORES.IMAGES)) db.createObjectStore(STORES.IMAGES);
+      if (!db.objectStoreNames.contains(STORES.AI_CACHE)) db.createObjectStore(STORES.AI_CACHE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (s: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(store, mode);
+  const result = await promisify(fn(tx.objectStore(store)));
+  // Resolve only after the transaction commits so quota errors surface to the caller
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+};
+
+export const idbGet = <T>(store: StoreName, key: string): Promise<T | undefined> =>
+  withStore(store, 'readonly', s => s.get(key) as IDBRequest<T | undefined>);
+
+export const idbPut = async (store: StoreName, key: string, value: unknown): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.put(value, key));
+};
+
+// Several keys, possibly in different stores, in one transaction: either all of them are written or none
+export const idbPutAll = async (writes: [StoreName, string, unknown][]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([...new Set(writes.map(([store]) => store))], 'readwrite');
+  try {
+    writes.forEach(([store, key, value]) => tx.objectStore(store).put(value, key));
+  } catch (e) {
+    tx.abort(); // A put that throws (e.g. a value that cannot be cloned) must not commit the others
+    throw e;
+  }
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbDelete = async (store: StoreName, key: string): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.delete(key));
+};
+
+export const idbClear = async (store: StoreName): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.clear());
+};
+
+export const idbKeys = async (store: StoreName): Promise<string[]> => {
+  const keys = await withStore(store, 'readonly', s => s.getAllKeys());
+  return keys.map(String);
+};
+
+export const idbEntries = async <T>(store: StoreName): Promise<[string, T][]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const entries: [string, T][] = [];
+    const request = db.transaction(store, 'readonly').objectStore(store).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) { resolve(entries); return; }
+      entries.push([String(cursor.key), cursor.value as T]);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
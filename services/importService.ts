@@ -0,0 +1,162 @@
+import { VocabularyItem } from '../types';
+import { normalizeJyutping } from './jyutping';
+
+// Parses CSV/TSV text (files, the app's own exports, or cells pasted from a spreadsheet)
+// into vocabulary items using a user-adjustable column mapping.
+
+export type ImportField = 'word' | 'jyutping' | 'pinyin' | 'definition' | 'chineseTranslation' | 'exampleSentence' | 'mnemonic' | 'context' | 'tags' | 'ignore';
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  word: '詞彙',
+  jyutping: '粵拼',
+  pinyin: '漢語拼音',
+  definition: '釋義',
+  chineseTranslation: '翻譯/備註',
+  exampleSentence: '例句',
+  mnemonic: '記憶法',
+  context: '語境',
+  tags: '標籤',
+  ignore: '(略過此欄)'
+};
+
+// Fields the AI can fill in when the file leaves them blank
+export const FILLABLE_FIELDS: ImportField[] = ['jyutping', 'pinyin', 'definition', 'exampleSentence', 'mnemonic'];
+
+// Header names recognised when guessing the mapping (lower-case)
+const HEADER_ALIASES: Record<Exclude<ImportField, 'ignore'>, string[]> = {
+  word: ['詞彙', '詞語', '詞', '成語', 'word', 'term', 'front'],
+  jyutping: ['粵拼', '粵音', '注音', '讀音', 'jyutping', 'phonetic', 'pronunciation'],
+  pinyin: ['漢語拼音', '拼音', '普通話', 'pinyin'],
+  definition: ['釋義', '解釋', '意思', 'definition', 'meaning', 'back'],
+  chineseTranslation: ['翻譯/備註', '翻譯', '備註', 'translation', 'notes', 'note'],
+  exampleSentence: ['例句', 'example', 'examplesentence', 'sentence'],
+  mnemonic: ['記憶法', '聯想', 'mnemonic'],
+  context: ['語境', 'context'],
+  tags: ['標籤', 'tags', 'tag']
+};
+
+export type Delimiter = '\t' | ';' | ',';
+
+export interface ParsedTable {
+  delimiter: Delimiter;
+  rows: string[][];
+}
+
+// Picks the delimiter that appears most often (outside quotes) in the first data line
+const detectDelimiter = (line: string): Delimiter => {
+  const counts: Record<Delimiter, number> = { '\t': 0, ';': 0, ',': 0 };
+  let inQuotes = false;
+  for (const ch of line) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch in counts) counts[ch as Delimiter]++;
+  }
+  return (Object.keys(counts) as Delimiter[]).reduce((best, d) => counts[d] > counts[best] ? d : best, '\t');
+};
+
+// RFC 4180 style: quoted cells may contain delimiters, doubled quotes and line breaks
+export const parseTable = (text: string): ParsedTable => {
+  // Drop the BOM and Anki's "#separator:tab" style header lines; "#columns:" becomes the header row
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let columnsLine: string | undefined;
+  while (lines.length > 0 && lines[0].startsWith('#')) {
+    const line = lines.shift()!;
+    if (line.startsWith('#columns:')) columnsLine = line.slice('#columns:'.length);
+  }
+  if (columnsLine !== undefined) lines.unshift(columnsLine);
+  const body = lines.join('\n');
+  const delimiter = detectDelimiter(lines.find(l => l.trim() !== '') || '');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (inQuotes) {
+      if (ch === '"' && body[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (ch === '\n') {
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return { delimiter, rows: rows.filter(r => r.some(c => c.trim() !== '')).map(r => r.map(c => c.trim())) };
+};
+
+const matchHeader = (cell: string): ImportField | null => {
+  const normalised = cell.toLowerCase().replace(/\s+/g, '');
+  const entry = Object.entries(HEADER_ALIASES).find(([, aliases]) => aliases.includes(normalised));
+  return entry ? entry[0] as ImportField : null;
+};
+
+// True when the first row looks like column names rather than data
+export const looksLikeHeader = (row: string[]): boolean => row.some(cell => matchHeader(cell) !== null);
+
+// Maps columns by header name when possible, otherwise by the order of the app's own export
+export const guessMapping = (firstRow: string[], hasHeader: boolean): ImportField[] => {
+  const fallback: ImportField[] = ['word', 'jyutping', 'pinyin', 'definition', 'chineseTranslation', 'exampleSentence', 'mnemonic', 'context', 'tags'];
+  const used = new Set<ImportField>();
+  return firstRow.map((cell, i) => {
+    const field = hasHeader ? matchHeader(cell) : fallback[i] || null;
+    if (!field || used.has(field)) return 'ignore';
+    used.add(field);
+    return field;
+  });
+};
+
+// HTML from Anki exports (<br>, &amp;) back to plain text
+const toPlainText = (value: string): string =>
+  value.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+export const rowToItem = (row: string[], mapping: ImportField[]): VocabularyItem => {
+  const item: VocabularyItem = { word: '', jyutping: '', pinyin: '', definition: '', chineseTranslation: '', exampleSentence: '', mnemonic: '', context: '', tags: [] };
+  mapping.forEach((field, i) => {
+    const value = toPlainText(row[i] || '').trim();
+    if (field === 'ignore' || !value) return;
+    if (field === 'tags') item.tags = value.split(/[\s,，、]+/).filter(Boolean);
+    else if (field === 'jyutping') item.jyutping = normalizeJyutping(value);
+    else item[field] = value;
+  });
+  return item;
+};
+
+export const missingFields = (item: VocabularyItem): ImportField[] =>
+  FILLABLE_FIELDS.filter(field => !(item[field as keyof VocabularyItem] as string | undefined)?.trim());
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'repeated' | 'empty';
+
+export const IMPORT_STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: '新增',
+  duplicate: '已存在',
+  repeated: '檔案內重複',
+  empty: '缺少詞彙'
+};
+
+export interface ImportRow {
+  item: VocabularyItem;
+  status: ImportRowStatus;
+}
+
+// Classifies every row against the library and earlier rows; only 'new' rows are imported
+export const buildImportRows = (rows: string[][], mapping: ImportField[], existingWords: Set<string>): ImportRow[] => {
+  const seen = new Set<string>();
+  return rows.map(row => {
+    const item = rowToItem(row, mapping);
+    let status: ImportRowStatus = 'new';
+    if (!item.word) status = 'empty';
+    else if (existingWords.has(item.word)) status = 'duplicate';
+    else if (seen.has(item.word)) status = 'repeated';
+    seen.add(item.word);
+    return { item, status };
+  });
+};
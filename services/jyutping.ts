@@ -0,0 +1,118 @@
+import { PhoneticStyle } from '../types';
+
+// Jyutping (LSHK) parsing: syllables are initial + final + tone 1-6, e.g. "gwong2 dung1 waa2".
+// Used to tidy AI and imported readings, flag ones that are not valid Jyutping, and show them in Yale.
+
+export interface JyutpingSyllable {
+  initial: string; // '' for syllables starting with a vowel or a syllabic nasal
+  final: string;
+  tone: number; // 1-6
+}
+
+export interface JyutpingCheck {
+  normalized: string;
+  syllables: JyutpingSyllable[]; // The valid ones only
+  problems: string[]; // User-facing reasons the reading is not valid Jyutping (empty = valid)
+}
+
+const INITIALS = ['', 'b', 'p', 'm', 'f', 'd', 't', 'n', 'l', 'g', 'k', 'ng', 'h', 'gw', 'kw', 'w', 'z', 'c', 's', 'j'];
+
+const FINALS = new Set([
+  'aa', 'aai', 'aau', 'aam', 'aan', 'aang', 'aap', 'aat', 'aak',
+  'ai', 'au', 'am', 'an', 'ang', 'ap', 'at', 'ak',
+  'e', 'ei', 'eu', 'em', 'eng', 'ep', 'ek',
+  'i', 'iu', 'im', 'in', 'ing', 'ip', 'it', 'ik',
+  'o', 'oi', 'ou', 'on', 'ong', 'ot', 'ok',
+  'oe', 'oeng', 'oek', 'eoi', 'eon', 'eot',
+  'u', 'ui', 'un', 'ung', 'ut', 'uk',
+  'yu', 'yun', 'yut',
+  'm', 'ng' // Syllabic nasals (唔 m4, 五 ng5); only alone or after h
+]);
+
+const SYLLABIC_NASALS = new Set(['m', 'ng']);
+
+// Tone-marked vowels, ü and the zh/ch/sh/x/q initials only occur in Hanyu Pinyin
+const PINYIN_PATTERN = /[āáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜüv]|^(zh|ch|sh|x|q)/;
+
+const HAN_PATTERN = /\p{Script=Han}/gu;
+
+// Lower case, half-width, one space between syllables; "nei5hou2" and "nei5-hou2" become "nei5 hou2"
+const tokenize = (text: string): string[] =>
+  text.normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s,，、;；/·.。'’-]+/g, ' ')
+    .replace(/([1-6])(?=[a-z])/g, '$1 ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+export const parseSyllable = (token: string): JyutpingSyllable | null => {
+  const match = token.match(/^([a-z]+)([1-6])$/);
+  if (!match) return null;
+  const [, body, tone] = match;
+  for (const initial of INITIALS) {
+    if (!body.startsWith(initial)) continue;
+    const final = body.slice(initial.length);
+    if (!FINALS.has(final)) continue;
+    if (SYLLABIC_NASALS.has(final) && initial !== '' && initial !== 'h') continue;
+    return { initial, final, tone: Number(tone) };
+  }
+  return null;
+};
+
+export const normalizeJyutping = (text: string): string => tokenize(text).join(' ');
+
+// word, when given, lets the check compare the syllable count with the number of characters
+export const checkJyutping = (text: string, word: string = ''): JyutpingCheck => {
+  const tokens = tokenize(text);
+  const syllables: JyutpingSyllable[] = [];
+  const problems: string[] = [];
+  if (tokens.some(token => PINYIN_PATTERN.test(token))) {
+    problems.push('看似漢語拼音，並非粵拼');
+  } else {
+    for (const token of tokens) {
+      const syllable = parseSyllable(token);
+      if (syllable) syllables.push(syllable);
+      else if (/^[a-z]+$/.test(token) && parseSyllable(token + '1')) problems.push(`「${token}」缺少聲調 (1–6)`);
+      else problems.push(`「${token}」不是有效的粵拼音節`);
+    }
+  }
+  const characters = word.match(HAN_PATTERN)?.length || 0;
+  if (problems.length === 0 && characters > 0 && characters === word.replace(/\s/g, '').length && characters !== syllables.length) {
+    problems.push(`音節數目 (${syllables.length}) 與字數 (${characters}) 不符`);
+  }
+  return { normalized: tokens.join(' '), syllables, problems };
+};
+
+// --- Yale romanisation ---
+// Tone 1 uses the macron (high level), 2 and 5 the acute, 4 the grave; 4-6 add an h after the vowels.
+
+const YALE_INITIALS: Record<string, string> = { j: 'y', z: 'j', c: 'ch' };
+const TONE_MARKS: Record<number, string> = { 1: '\u0304', 2: '\u0301', 4: '\u0300', 5: '\u0301' }; // Combining marks
+
+export const toYaleSyllable = ({ initial, final, tone }: JyutpingSyllable): string => {
+  let yaleInitial = YALE_INITIALS[initial] ?? initial;
+  let yaleFinal = final.replace(/^(oe|eo)/, 'eu');
+  if (yaleFinal === 'aa') yaleFinal = 'a'; // Yale only doubles a before a coda
+  if (initial === 'j' && yaleFinal.startsWith('yu')) yaleInitial = ''; // jyu → yu, not yyu
+  const mark = TONE_MARKS[tone] || '';
+  const low = tone >= 4 ? 'h' : '';
+
+  if (SYLLABIC_NASALS.has(final)) {
+    // The nasal carries the mark; the h goes last (m̀h, ńgh)
+    return (yaleInitial + yaleFinal[0] + mark + yaleFinal.slice(1) + low).normalize('NFC');
+  }
+  const [, vowels, coda] = yaleFinal.match(/^(y?[aeiou]+)(.*)$/)!;
+  const markAt = vowels.search(/[aeiou]/) + 1;
+  return (yaleInitial + vowels.slice(0, markAt) + mark + vowels.slice(markAt) + low + coda).normalize('NFC');
+};
+
+// Syllables that do not parse are kept as written
+export const toYale = (text: string): string =>
+  tokenize(text).map(token => {
+    const syllable = parseSyllable(token);
+    return syllable ? toYaleSyllable(syllable) : token;
+  }).join(' ');
+
+export const formatPhonetic = (text: string, style: PhoneticStyle): string =>
+  style === 'yale' ? toYale(text) : text;
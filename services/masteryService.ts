@@ -0,0 +1,82 @@
+import { QuizAttempt, VocabularyItem, WordMastery, MasteryLevel } from '../types';
+
+// Rolls QuizRoom attempts up into per-word mastery. Recent attempts count more,
+// so a word that was weak a month ago but answered well today moves up quickly.
+
+const RECENCY_DECAY = 0.6; // Weight of each older attempt relative to the next newer one
+const MASTERED_SCORE = 80;
+const MASTERED_MIN_ATTEMPTS = 2;
+const WEAK_SCORE = 50;
+
+export const MASTERY_LABELS: Record<MasteryLevel, string> = {
+  new: '未測驗',
+  weak: '待加強',
+  learning: '學習中',
+  mastered: '已掌握'
+};
+
+export const MASTERY_STYLES: Record<MasteryLevel, string> = {
+  new: 'bg-slate-100 text-slate-500',
+  weak: 'bg-red-50 text-red-700',
+  learning: 'bg-amber-50 text-amber-700',
+  mastered: 'bg-emerald-50 text-emerald-700'
+};
+
+const levelFor = (score: number, attempts: number): MasteryLevel => {
+  if (attempts === 0) return 'new';
+  if (score < WEAK_SCORE) return 'weak';
+  if (score >= MASTERED_SCORE && attempts >= MASTERED_MIN_ATTEMPTS) return 'mastered';
+  return 'learning';
+};
+
+// Word score for one attempt; attempts without per-word scores fall back to the overall score
+const scoreInAttempt = (attempt: QuizAttempt, word: string): number =>
+  attempt.wordScores?.[word] ?? attempt.feedback?.wordScores?.[word] ?? attempt.score;
+
+export const computeMastery = (attempts: QuizAttempt[]): Map<string, WordMastery> => {
+  const byWord = new Map<string, QuizAttempt[]>();
+  for (const attempt of attempts) {
+    for (const word of attempt.words) {
+      byWord.set(word, [...(byWord.get(word) || []), attempt]);
+    }
+  }
+
+  const result = new Map<string, WordMastery>();
+  byWord.forEach((wordAttempts, word) => {
+    const newestFirst = [...wordAttempts].sort((a, b) => b.date.localeCompare(a.date));
+    let weighted = 0;
+    let totalWeight = 0;
+    newestFirst.forEach((attempt, i) => {
+      const weight = RECENCY_DECAY ** i;
+      weighted += scoreInAttempt(attempt, word) * weight;
+      totalWeight += weight;
+    });
+    const score = Math.round(weighted / totalWeight);
+    result.set(word, {
+      word,
+      attempts: newestFirst.length,
+      score,
+      lastScore: scoreInAttempt(newestFirst[0], word),
+      lastAttempted: newestFirst[0].date,
+      level: levelFor(score, newestFirst.length)
+    });
+  });
+  return result;
+};
+
+// Picks words for the next quiz: weak words first, then never-tested ones, then the longest unpractised.
+export const suggestQuizWords = (library: VocabularyItem[], mastery: Map<string, WordMastery>, count = 3): VocabularyItem[] => {
+  const priority = (item: VocabularyItem): [number, number, string] => {
+    const m = mastery.get(item.word);
+    if (!m) return [1, 0, ''];
+    if (m.level === 'weak') return [0, m.score, m.lastAttempted];
+    if (m.level === 'learning') return [2, m.score, m.lastAttempted];
+    return [3, m.score, m.lastAttempted];
+  };
+
+  return [...library]
+    .map(item => ({ item, key: priority(item) }))
+    .sort((a, b) => a.key[0] - b.key[0] || a.key[1] - b.key[1] || a.key[2].localeCompare(b.key[2]))
+    .slice(0, count)
+    .map(({ item }) => item);
+};
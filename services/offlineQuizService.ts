@@ -0,0 +1,110 @@
+import { VocabularyItem, OfflineQuizType } from '../types';
+
+// Builds multiple-choice questions purely from saved cards, so practice works without data.
+// Distractors always come from other cards in the library.
+
+export const OFFLINE_QUIZ_LABELS: Record<OfflineQuizType | 'mixed', string> = {
+  definition: '詞義配對',
+  jyutping: '粵拼認字',
+  reverse: '看義寫詞',
+  cloze: '例句填空',
+  mixed: '混合練習'
+};
+
+export const OFFLINE_QUIZ_TYPES: OfflineQuizType[] = ['definition', 'jyutping', 'reverse', 'cloze'];
+
+export const MIN_OFFLINE_CARDS = 4;
+const OPTION_COUNT = 4;
+const BLANK = '＿＿';
+
+export interface OfflineQuestion {
+  id: string;
+  type: OfflineQuizType;
+  item: VocabularyItem;
+  prompt: string;
+  options: string[];
+  answerIndex: number;
+}
+
+export const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const hasText = (value?: string) => !!value && value.trim() !== '' && value !== 'AI 未提供解釋';
+
+// Whether a card has the fields a question type needs
+export const canAsk = (type: OfflineQuizType, item: VocabularyItem): boolean => {
+  switch (type) {
+    case 'definition':
+    case 'reverse':
+      return hasText(item.definition);
+    case 'jyutping':
+      return hasText(item.jyutping);
+    case 'cloze':
+      return hasText(item.exampleSentence) && item.exampleSentence.includes(item.word);
+  }
+};
+
+// What the options show for each type (the prompt shows the other side)
+const optionValue = (type: OfflineQuizType, item: VocabularyItem): string =>
+  type === 'definition' ? item.definition : item.word;
+
+const promptFor = (type: OfflineQuizType, item: VocabularyItem): string => {
+  switch (type) {
+    case 'definition': return item.word;
+    case 'jyutping': return item.jyutping || '';
+    case 'reverse': return item.definition;
+    case 'cloze': return item.exampleSentence.split(item.word).join(BLANK);
+  }
+};
+
+const buildQuestion = (type: OfflineQuizType, item: VocabularyItem, library: VocabularyItem[]): OfflineQuestion | null => {
+  const answer = optionValue(type, item);
+  const seen = new Set([answer]);
+  const distractors: string[] = [];
+  for (const other of shuffle(library)) {
+    if (distractors.length >= OPTION_COUNT - 1) break;
+    if (other.word === item.word) continue;
+    // Definition options need a real definition; word options work from any card
+    if (type === 'definition' && !hasText(other.definition)) continue;
+    const value = optionValue(type, other);
+    if (seen.has(value)) continue;
+    seen.add(value);
+    distractors.push(value);
+  }
+  if (distractors.length === 0) return null;
+
+  const options = shuffle([answer, ...distractors]);
+  return {
+    id: `${type}-${item.word}`,
+    type,
+    item,
+    prompt: promptFor(type, item),
+    options,
+    answerIndex: options.indexOf(answer)
+  };
+};
+
+// Creates up to count questions. Targets are taken in the given order (callers put weak words first);
+// 'mixed' rotates through the types each card supports.
+export const buildOfflineQuiz = (targets: VocabularyItem[], library: VocabularyItem[], mode: OfflineQuizType | 'mixed', count: number): OfflineQuestion[] => {
+  const questions: OfflineQuestion[] = [];
+  for (const item of targets) {
+    if (questions.length >= count) break;
+    const types = mode === 'mixed' ? shuffle(OFFLINE_QUIZ_TYPES) : [mode];
+    const type = types.find(t => canAsk(t, item));
+    if (!type) continue;
+    const question = buildQuestion(type, item, library);
+    if (question) questions.push(question);
+  }
+  return questions;
+};
+
+// Number of cards that can be asked in a given mode, shown next to each mode button
+export const countAskable = (library: VocabularyItem[], mode: OfflineQuizType | 'mixed'): number =>
+  library.filter(item => mode === 'mixed' ? OFFLINE_QUIZ_TYPES.some(t => canAsk(t, item)) : canAsk(mode, item)).length;
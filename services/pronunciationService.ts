@@ -0,0 +1,109 @@
+import { SpeechLang } from '../types';
+import { toSimplified } from './chineseScript';
+
+// Pronunciation practice: the learner reads a target text aloud, the browser's speech recognition
+// transcribes it, and the transcript is aligned with the target character by character (edit distance).
+// Recognition returns the closest characters it heard, so a wrong character usually means a wrong
+// sound. Punctuation and spaces are ignored; Traditional and Simplified count as the same character
+// (load the converter with loadScriptConverter first, as Mandarin recognition answers in Simplified).
+
+export type AlignmentStatus = 'match' | 'wrong' | 'missed' | 'extra';
+
+export interface AlignedChar {
+  status: AlignmentStatus;
+  target?: string; // Absent for extra characters
+  heard?: string; // Absent for missed characters
+  targetIndex?: number; // Offset in the original target text, for highlighting it in place
+}
+
+export interface PronunciationResult {
+  alignment: AlignedChar[];
+  score: number; // 0-100: matched characters over target characters plus extra ones
+  heard: string;
+}
+
+export interface RecognitionHandlers {
+  onText: (text: string) => void; // Everything recognised so far
+  onEnd: () => void;
+  onError: (message: string) => void;
+}
+
+// Characters that are compared; everything else (punctuation, spaces, quotes) is skipped
+const SPOKEN_PATTERN = /[\p{Script=Han}\p{L}\p{N}]/u;
+
+const RECOGNITION_ERRORS: Record<string, string> = {
+  'not-allowed': '未獲准使用咪高峰，請在瀏覽器設定中允許。',
+  'service-not-allowed': '未獲准使用咪高峰，請在瀏覽器設定中允許。',
+  'no-speech': '聽不到聲音，請靠近咪高峰再試。',
+  'audio-capture': '找不到咪高峰。',
+  'network': '語音辨識需要網絡連線。',
+  'language-not-supported': '此瀏覽器不支援這種語言的語音辨識。'
+};
+
+const spokenChars = (text: string): { char: string, index: number }[] =>
+  Array.from(text.matchAll(/./gsu))
+    .filter(match => SPOKEN_PATTERN.test(match[0]))
+    .map(match => ({ char: match[0], index: match.index! }));
+
+const sameChar = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase() || toSimplified(a) === toSimplified(b);
+
+export const alignPronunciation = (target: string, heard: string): PronunciationResult => {
+  const expected = spokenChars(target);
+  const actual = spokenChars(heard);
+  const rows = expected.length + 1;
+  const cols = actual.length + 1;
+
+  // distance[i][j]: edits turning the first i target characters into the first j heard ones
+  const distance: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => i === 0 ? j : j === 0 ? i : 0));
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = sameChar(expected[i - 1].char, actual[j - 1].char) ? 0 : 1;
+      distance[i][j] = Math.min(distance[i - 1][j - 1] + cost, distance[i - 1][j] + 1, distance[i][j - 1] + 1);
+    }
+  }
+
+  const alignment: AlignedChar[] = [];
+  let i = expected.length;
+  let j = actual.length;
+  while (i > 0 || j > 0) {
+    const target = expected[i - 1];
+    const said = actual[j - 1];
+    if (i > 0 && j > 0 && distance[i][j] === distance[i - 1][j - 1] + (sameChar(target.char, said.char) ? 0 : 1)) {
+      alignment.push({ status: sameChar(target.char, said.char) ? 'match' : 'wrong', target: target.char, heard: said.char, targetIndex: target.index });
+      i--; j--;
+    } else if (i > 0 && distance[i][j] === distance[i - 1][j] + 1) {
+      alignment.push({ status: 'missed', target: target.char, targetIndex: target.index });
+      i--;
+    } else {
+      alignment.push({ status: 'extra', heard: said.char });
+      j--;
+    }
+  }
+  alignment.reverse();
+
+  const matched = alignment.filter(a => a.status === 'match').length;
+  const extra = alignment.filter(a => a.status === 'extra').length;
+  const total = expected.length + extra;
+  return { alignment, score: total === 0 ? 0 : Math.round(matched / total * 100), heard };
+};
+
+export const isRecognitionSupported = (): boolean => 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
+
+// Listens until stop() is called (or the browser gives up after a long silence); returns stop
+export const startRecognition = (lang: SpeechLang, handlers: RecognitionHandlers): (() => void) => {
+  const Recognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+  const recognition = new Recognition();
+  recognition.lang = lang;
+  recognition.continuous = true; // Long passages span several pauses
+  recognition.interimResults = true;
+
+  recognition.onresult = (event: any) => {
+    handlers.onText(Array.from(event.results as ArrayLike<any>).map(result => result[0].transcript).join(''));
+  };
+  recognition.onerror = (event: any) => {
+    if (event.error !== 'aborted') handlers.onError(RECOGNITION_ERRORS[event.error] || `語音辨識失敗 (${event.error})`);
+  };
+  recognition.onend = handlers.onEnd;
+  recognition.start();
+  return () => recognition.stop();
+};
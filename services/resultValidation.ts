@@ -0,0 +1,63 @@
+// Lightweight runtime schemas for AI JSON results (the model does not always follow the requested shape).
+
+export interface FieldSpec {
+  type: 'string' | 'array' | 'number';
+  label: string; // Chinese label shown to the user when the field is missing
+  minItems?: number; // For arrays
+  min?: number; // For numbers
+  max?: number;
+}
+
+export type ResultSchema<T> = { [K in keyof T]?: FieldSpec };
+
+export interface ValidationIssue {
+  field: string;
+  label: string;
+  problem: string;
+}
+
+export const validateResult = <T>(data: unknown, schema: ResultSchema<T>): ValidationIssue[] => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return Object.entries(schema).map(([field, spec]) => ({ field, label: (spec as FieldSpec).label, problem: 'missing' }));
+  }
+
+  const record = data as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+  for (const [field, value] of Object.entries(schema)) {
+    const spec = value as FieldSpec;
+    const actual = record[field];
+    if (spec.type === 'string') {
+      if (typeof actual !== 'string') issues.push({ field, label: spec.label, problem: actual === undefined ? 'missing' : 'must be a string' });
+      else if (actual.trim() === '') issues.push({ field, label: spec.label, problem: 'empty' });
+    } else if (spec.type === 'number') {
+      const n = typeof actual === 'string' ? Number(actual) : actual;
+      if (typeof n !== 'number' || isNaN(n)) issues.push({ field, label: spec.label, problem: actual === undefined ? 'missing' : 'must be a number' });
+      else if ((spec.min !== undefined && n < spec.min) || (spec.max !== undefined && n > spec.max)) issues.push({ field, label: spec.label, problem: `must be between ${spec.min} and ${spec.max}` });
+    } else {
+      if (!Array.isArray(actual)) issues.push({ field, label: spec.label, problem: actual === undefined ? 'missing' : 'must be an array' });
+      else if (actual.length < (spec.minItems || 0)) issues.push({ field, label: spec.label, problem: `needs at least ${spec.minItems} items` });
+    }
+  }
+  return issues;
+};
+
+// Human/model readable summary used in the re-ask prompt, e.g. "translation (missing), vocabulary (empty)"
+export const describeIssues = (issues: ValidationIssue[]): string =>
+  issues.map(i => `"${i.field}" (${i.problem})`).join(', ');
+
+// Takes each field from the first candidate where it is valid; returns the merge and still-invalid fields.
+export const mergeValidFields = <T>(candidates: unknown[], schema: ResultSchema<T>): { merged: Record<string, unknown>, issues: ValidationIssue[] } => {
+  const merged: Record<string, unknown> = {};
+  const issues: ValidationIssue[] = [];
+  for (const [field, value] of Object.entries(schema)) {
+    const spec = value as FieldSpec;
+    const fieldSchema = { [field]: spec } as ResultSchema<T>;
+    const valid = candidates.find(c => validateResult(c, fieldSchema).length === 0) as Record<string, unknown> | undefined;
+    if (valid) {
+      merged[field] = valid[field];
+    } else {
+      issues.push(...validateResult(candidates[candidates.length - 1], fieldSchema));
+    }
+  }
+  return { merged, issues };
+};
@@ -0,0 +1,129 @@
+import { SpeechLang } from '../types';
+import { storageService } from './storageService';
+
+// Read-aloud through the browser's speech synthesis, shared by every view. Long texts are spoken one
+// sentence at a time: Chrome stops long utterances after about 15 seconds, and the queue lets views
+// follow along (ClassicalMode highlights the character being read).
+
+export interface SpeechSentence {
+  text: string;
+  start: number; // Offset in the full text
+}
+
+export interface SpeakOptions {
+  onSentence?: (sentence: SpeechSentence) => void;
+  onBoundary?: (charIndex: number, charLength: number) => void; // Offsets in the full text; not every voice sends boundaries
+  onEnd?: () => void; // Finished, stopped or failed
+}
+
+type VoicesListener = () => void;
+
+// Cantonese voices are labelled inconsistently: zh-HK, yue-HK, zh_HK or only by name
+const LANG_PATTERNS: Record<SpeechLang, RegExp> = {
+  'zh-HK': /^(zh[-_]hk|yue)/i,
+  'zh-CN': /^(zh[-_]cn|cmn)/i
+};
+const NAME_PATTERNS: Record<SpeechLang, RegExp> = {
+  'zh-HK': /cantonese|hong kong|粵|廣東/i,
+  'zh-CN': /mandarin|putonghua|普通話|普通话/i
+};
+
+// A sentence ends after 。！？；, a line break, or the closing quotes that follow them
+const SENTENCE_PATTERN = /[^。！？；!?;\n]+[。！？；!?;]*[」』”’）)]*|\n+/g;
+
+const voicesListeners = new Set<VoicesListener>();
+let session = 0; // Bumped by every speak/stop so callbacks of an abandoned queue are ignored
+let activeOptions: SpeakOptions | null = null;
+
+const isSupported = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+if (isSupported()) {
+  // Voices load asynchronously, so the first getVoices() is often empty
+  window.speechSynthesis.addEventListener('voiceschanged', () => voicesListeners.forEach(listener => listener()));
+}
+
+const matchesLang = (voice: SpeechSynthesisVoice, lang: SpeechLang): boolean =>
+  LANG_PATTERNS[lang].test(voice.lang) || NAME_PATTERNS[lang].test(voice.name);
+
+export const splitSentences = (text: string): SpeechSentence[] =>
+  Array.from(text.matchAll(SENTENCE_PATTERN))
+    .filter(match => match[0].trim())
+    .map(match => ({ text: match[0], start: match.index! }));
+
+const finish = (id: number) => {
+  if (id !== session) return;
+  const options = activeOptions;
+  activeOptions = null;
+  options?.onEnd?.();
+};
+
+export const speechService = {
+  isSupported,
+
+  // Voices for the language, local ones first
+  getVoices: (lang: SpeechLang): SpeechSynthesisVoice[] => {
+    if (!isSupported()) return [];
+    return window.speechSynthesis.getVoices()
+      .filter(voice => matchesLang(voice, lang))
+      .sort((a, b) => Number(b.localService) - Number(a.localService));
+  },
+
+  // The voice chosen in Settings, else the best match; null lets the browser choose from utterance.lang
+  pickVoice: (lang: SpeechLang): SpeechSynthesisVoice | null => {
+    const chosen = storageService.getSpeechSettings().voices[lang];
+    const voices = speechService.getVoices(lang);
+    return voices.find(voice => voice.voiceURI === chosen)
+      || voices.find(voice => LANG_PATTERNS[lang].test(voice.lang))
+      || voices[0]
+      || null;
+  },
+
+  // Stops whatever is being read, then reads text sentence by sentence
+  speak: (text: string, lang: SpeechLang = 'zh-HK', options: SpeakOptions = {}) => {
+    if (!isSupported()) return;
+    speechService.stop();
+    const id = session;
+    activeOptions = options;
+    const { rate, pitch } = storageService.getSpeechSettings();
+    const voice = speechService.pickVoice(lang);
+    const sentences = splitSentences(text);
+
+    const speakNext = (index: number) => {
+      if (id !== session) return;
+      const sentence = sentences[index];
+      if (!sentence) { finish(id); return; }
+      const utterance = new SpeechSynthesisUtterance(sentence.text);
+      utterance.lang = lang;
+      if (voice) utterance.voice = voice;
+      utterance.rate = rate;
+      utterance.pitch = pitch;
+      utterance.onstart = () => { if (id === session) options.onSentence?.(sentence); };
+      utterance.onboundary = (event) => {
+        if (id === session) options.onBoundary?.(sentence.start + event.charIndex, event.charLength || 1);
+      };
+      utterance.onend = () => speakNext(index + 1);
+      utterance.onerror = (event) => {
+        if (event.error !== 'interrupted' && event.error !== 'canceled') console.warn('Speech failed', event.error);
+        finish(id);
+      };
+      window.speechSynthesis.speak(utterance);
+    };
+    speakNext(0);
+  },
+
+  stop: () => {
+    if (!isSupported()) return;
+    session++;
+    window.speechSynthesis.cancel();
+    // cancel() does not always fire onerror, so end the abandoned queue here
+    const options = activeOptions;
+    activeOptions = null;
+    options?.onEnd?.();
+  },
+
+  // Called when the browser's voice list changes, e.g. once it has loaded
+  subscribeVoices: (listener: VoicesListener): (() => void) => {
+    voicesListeners.add(listener);
+    return () => { voicesListeners.delete(listener); };
+  }
+};
@@ -0,0 +1,82 @@
+import { ReviewGrade, ReviewState, VocabularyItem } from '../types';
+
+// SM-2 style scheduler (Anki variant) for vocabulary cards.
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // "重來" cards come back after 10 minutes
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: '重來',
+  hard: '困難',
+  good: '良好',
+  easy: '容易'
+};
+
+export const createReviewState = (now: Date = new Date()): ReviewState => ({
+  ease: DEFAULT_EASE,
+  interval: 0,
+  due: now.toISOString(),
+  lapses: 0,
+  reps: 0
+});
+
+// Cards without a schedule have never been reviewed and count as new.
+export const isNewCard = (item: VocabularyItem): boolean => !item.review;
+
+export const isDue = (item: VocabularyItem, now: Date = new Date()): boolean => {
+  if (!item.review) return true;
+  return new Date(item.review.due).getTime() <= now.getTime();
+};
+
+// Returns the next schedule for a card after grading it.
+export const scheduleReview = (
+  current: ReviewState | undefined,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ReviewState => {
+  const state = current || createReviewState(now);
+  let { ease, interval, lapses, reps } = state;
+
+  switch (grade) {
+    case 'again':
+      if (reps > 0 || interval > 0) lapses += 1;
+      reps = 0;
+      interval = 0;
+      ease = Math.max(MIN_EASE, ease - 0.2);
+      break;
+    case 'hard':
+      reps += 1;
+      interval = Math.max(1, Math.round(interval * 1.2));
+      ease = Math.max(MIN_EASE, ease - 0.15);
+      break;
+    case 'good':
+      reps += 1;
+      interval = reps === 1 ? 1 : reps === 2 ? 3 : Math.max(interval + 1, Math.round(interval * ease));
+      break;
+    case 'easy':
+      reps += 1;
+      interval = reps === 1 ? 4 : Math.max(interval + 1, Math.round(interval * ease * 1.3));
+      ease = ease + 0.15;
+      break;
+  }
+
+  const dueTime = interval === 0 ? now.getTime() + RELEARN_DELAY_MS : now.getTime() + interval * DAY_MS;
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    due: new Date(dueTime).toISOString(),
+    lapses,
+    reps,
+    lastReviewed: now.toISOString()
+  };
+};
+
+// Human readable interval for the grading buttons, e.g. "10分鐘", "3日".
+export const formatInterval = (state: ReviewState): string => {
+  if (state.interval === 0) return '10分鐘';
+  if (state.interval < 30) return `${state.interval}日`;
+  if (state.interval < 365) return `${Math.round(state.interval / 30)}個月`;
+  return `${(state.interval / 365).toFixed(1)}年`;
+};
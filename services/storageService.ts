@@ -1,159 +1,710 @@
 
-import { VocabularyItem, WritingEntry, ClassicalEntry } from '../types';
+import { VocabularyItem, WritingEntry, ClassicalEntry, ChatTranscript, QuizAttempt, ReviewState, PronunciationRecord, OpenAiCompatibleConfig, DisplaySettings, SpeechSettings, SpeechLang, LearnerProfile, SyncState, QueuedAiRequest } from '../types';
+import { isDue, isNewCard } from './srsService';
+import { STORES, StoreName, openDb, idbGet, idbPut, idbPutAll, idbDelete, idbKeys, idbEntries } from './idbStore';
+import { BACKUP_COLLECTIONS, BackupData, CURRENT_BACKUP_VERSION, RestoreOptions, RestorePlan, migrateBackup, planRestore, upgradeVocabularyItem } from './backupService';
+import { SyncCollection, recordId } from './syncProtocol';
+import { encryptBackup, decryptBackup, isEncryptedBackup } from './backupCrypto';
 
+const STORAGE_PREFIX = 'memoralink_chinese_sys_';
+
+// Learner data, stored once per profile under profileKey(name)
+const DATA_KEYS = {
+  VOCAB: 'vocab',
+  WRITING: 'writing',
+  CLASSICAL: 'classical',
+  TRANSCRIPTS: 'transcripts',
+  QUIZ_HISTORY: 'quiz_history',
+  VOCAB_MODE: 'vocab_mode',
+  VOCAB_CACHE: 'vocab_cached_words',
+  SYNC_STATE: 'sync_state',
+  SYNC_TOMBSTONES: 'sync_tombstones',
+  AI_QUEUE: 'ai_queue'
+};
+
+const SYNC_KEYS: Record<SyncCollection, string> = {
+  vocabulary: DATA_KEYS.VOCAB,
+  writingLogs: DATA_KEYS.WRITING,
+  classicalLogs: DATA_KEYS.CLASSICAL
+};
+
+// Device-wide keys shared by every profile
 const STORAGE_KEYS = {
-  VOCAB: 'memoralink_chinese_sys_vocab',
-  WRITING: 'memoralink_chinese_sys_writing',
-  CLASSICAL: 'memoralink_chinese_sys_classical',
-  VOCAB_MODE: 'memoralink_chinese_sys_vocab_mode',
-  VOCAB_CACHE: 'memoralink_chinese_sys_vocab_cached_words'
+  OPENAI_CONFIG: 'memoralink_chinese_sys_openai_config',
+  DISPLAY_SETTINGS: 'memoralink_chinese_sys_display_settings',
+  SPEECH_SETTINGS: 'memoralink_chinese_sys_speech_settings',
+  IDB_MIGRATED: 'memoralink_chinese_sys_idb_migrated',
+  PROFILES: 'memoralink_chinese_sys_profiles'
+};
+
+// Kept in localStorage (outside STORAGE_PREFIX) because it is needed before IndexedDB is read
+const ACTIVE_PROFILE_KEY = 'memoralink_active_profile';
+
+// Keys kept in sessionStorage, never migrated to IndexedDB
+const SESSION_DATA_KEYS = [DATA_KEYS.VOCAB_MODE, DATA_KEYS.VOCAB_CACHE];
+
+// Persisted vocabulary items reference their image Blob by key instead of embedding a data URL
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+// --- Profiles ---
+// The original profile keeps the pre-profile key names, so existing data needs no migration.
+// Other profiles use memoralink_chinese_sys_p_<id>_<name> and image keys p_<id>_img_...
+
+const DEFAULT_PROFILE_ID = 'default';
+const DEFAULT_PROFILE: LearnerProfile = { id: DEFAULT_PROFILE_ID, name: '我的資料', createdAt: '' };
+
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+const keyPrefixOf = (profileId: string) => profileId === DEFAULT_PROFILE_ID ? STORAGE_PREFIX : `${STORAGE_PREFIX}p_${profileId}_`;
+const imagePrefixOf = (profileId: string) => profileId === DEFAULT_PROFILE_ID ? 'img_' : `p_${profileId}_img_`;
+
+const profileKey = (name: string, profileId: string = activeProfileId) => keyPrefixOf(profileId) + name;
+
+// The profile a storage key belongs to, or null for device-wide keys
+const profileOfKey = (key: string): string | null => {
+  const match = key.match(/^memoralink_chinese_sys_p_([a-z0-9]+)_/);
+  if (match) return match[1];
+  return Object.values(DATA_KEYS).some(name => key === STORAGE_PREFIX + name) ? DEFAULT_PROFILE_ID : null;
+};
+
+const profileOfImage = (imageKey: string): string => imageKey.match(/^p_([a-z0-9]+)_img_/)?.[1] || DEFAULT_PROFILE_ID;
+
+const DEFAULT_OPENAI_CONFIG: OpenAiCompatibleConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'qwen2.5:7b',
+  apiKey: '',
+  jsonMode: true
+};
+
+const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  phoneticStyle: 'jyutping',
+  script: 'traditional'
+};
+
+const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voices: { 'zh-HK': '', 'zh-CN': '' },
+  rate: 1,
+  pitch: 1
 };
 
-export interface BackupData {
-  version: number;
-  date: string;
-  vocabulary: VocabularyItem[];
-  writingLogs: WritingEntry[];
-  classicalLogs: ClassicalEntry[];
-}
+// In-memory copy of every persisted key, loaded once by init() so reads stay synchronous
+const memoryCache = new Map<string, unknown>();
+// Object URL <-> image key, so items handed back by components can be re-persisted without copying Blobs
+const imageUrlToKey = new Map<string, string>();
+const imageKeyToUrl = new Map<string, string>();
+// Serialises IndexedDB writes so they land in the order they were issued
+let writeQueue: Promise<void> = Promise.resolve();
+// false when IndexedDB is unavailable (e.g. some private browsing modes): fall back to localStorage
+let useIndexedDb = true;
+
+const toQuotaError = (e: any): Error => {
+  if (e?.name === 'QuotaExceededError' || e?.name === 'NS_ERROR_DOM_QUOTA_REACHED') {
+    return new Error("儲存失敗：空間已滿。請刪除部分舊資料或圖片。");
+  }
+  return e;
+};
+
+// Sets updatedAt on cards or log entries that are new or whose content changed since the last save
+const stampChangedItems = <T extends { updatedAt?: string }>(previous: T[], next: T[], keyOf: (item: T) => string): T[] => {
+  const before = new Map(previous.map(i => [keyOf(i), i]));
+  const now = new Date().toISOString();
+  return next.map(item => {
+    const old = before.get(keyOf(item));
+    if (old === item) return item;
+    if (old && JSON.stringify({ ...old, updatedAt: undefined }) === JSON.stringify({ ...item, updatedAt: undefined })) return item;
+    return { ...item, updatedAt: now };
+  });
+};
+
+// Remembers records dropped between two saves, so the next sync deletes them on other devices too.
+// Only tracked once the profile syncs; a record that comes back loses its tombstone.
+const trackDeletions = async (collection: SyncCollection, previous: unknown[], next: unknown[]): Promise<void> => {
+  if (!storageService.getSyncState()) return;
+  const keyOf = BACKUP_COLLECTIONS[collection].keyOf as (item: unknown) => string;
+  const remaining = new Set(next.map(keyOf));
+  const tombstones = { ...storageService.getSyncTombstones() };
+  const now = new Date().toISOString();
+  let changed = false;
+  for (const item of previous) {
+    const key = keyOf(item);
+    if (!remaining.has(key)) {
+      tombstones[recordId({ collection, key })] = now;
+      changed = true;
+    }
+  }
+  for (const key of remaining) {
+    const id = recordId({ collection, key });
+    if (tombstones[id]) {
+      delete tombstones[id];
+      changed = true;
+    }
+  }
+  if (changed) await storageService.saveSyncTombstones(tombstones);
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const registerImageUrl = (key: string, blob: Blob): string => {
+  const url = URL.createObjectURL(blob);
+  imageUrlToKey.set(url, key);
+  imageKeyToUrl.set(key, url);
+  return url;
+};
+
+const releaseImageUrl = (key: string) => {
+  const url = imageKeyToUrl.get(key);
+  if (!url) return;
+  URL.revokeObjectURL(url);
+  imageUrlToKey.delete(url);
+  imageKeyToUrl.delete(key);
+};
+
+// Moves data URL images into the images store and returns records that only hold image references.
+const persistVocabularyImages = async (items: VocabularyItem[], profileId: string): Promise<{ stored: VocabularyItem[], display: VocabularyItem[] }> => {
+  const stored: VocabularyItem[] = [];
+  const display: VocabularyItem[] = [];
+
+  for (const item of items) {
+    if (!item.image) {
+      stored.push(item);
+      display.push(item);
+      continue;
+    }
+
+    let key = imageUrlToKey.get(item.image);
+    let url = item.image;
+    if (!key && item.image.startsWith('data:')) {
+      key = `${imagePrefixOf(profileId)}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      const blob = await dataUrlToBlob(item.image);
+      await idbPut(STORES.IMAGES, key, blob);
+      url = registerImageUrl(key, blob);
+    }
+
+    stored.push(key ? { ...item, image: IMAGE_REF_PREFIX + key } : item);
+    display.push({ ...item, image: url });
+  }
+
+  // Drop this profile's Blobs no longer referenced by any of its cards
+  const referenced = new Set(stored.map(i => i.image).filter(img => img?.startsWith(IMAGE_REF_PREFIX)).map(img => img!.slice(IMAGE_REF_PREFIX.length)));
+  for (const key of await idbKeys(STORES.IMAGES)) {
+    if (profileOfImage(key) === profileId && !referenced.has(key)) {
+      await idbDelete(STORES.IMAGES, key);
+      releaseImageUrl(key);
+    }
+  }
+
+  return { stored, display };
+};
+
+const hydrateVocabularyImages = async (items: VocabularyItem[]): Promise<VocabularyItem[]> => {
+  const hydrated: VocabularyItem[] = [];
+  for (const item of items) {
+    if (item.image?.startsWith(IMAGE_REF_PREFIX)) {
+      const key = item.image.slice(IMAGE_REF_PREFIX.length);
+      const blob = await idbGet<Blob>(STORES.IMAGES, key);
+      hydrated.push({ ...item, image: blob ? (imageKeyToUrl.get(key) || registerImageUrl(key, blob)) : undefined });
+    } else {
+      hydrated.push(item);
+    }
+  }
+  return hydrated;
+};
+
+// One-time copy of the legacy localStorage keys into IndexedDB. The keys, the image Blobs and the done
+// marker are written in one transaction, so an interrupted run leaves nothing half-copied, and a key
+// IndexedDB already holds is never overwritten by its older localStorage copy.
+const migrateFromLocalStorage = async (): Promise<void> => {
+  const sessionKeys = SESSION_DATA_KEYS.map(name => profileKey(name, DEFAULT_PROFILE_ID));
+  const legacyKeys = Object.keys(localStorage).filter(k => k.startsWith(STORAGE_PREFIX) && !sessionKeys.includes(k));
+  const existingKeys = new Set(await idbKeys(STORES.KV));
+  const writes: [StoreName, string, unknown][] = [];
+
+  for (const key of legacyKeys) {
+    if (existingKeys.has(key)) continue;
+    let value: unknown;
+    try {
+      value = JSON.parse(localStorage.getItem(key) || 'null');
+    } catch {
+      console.warn(`Skipping unreadable key ${key} during migration`);
+      continue;
+    }
+    if (value === null) continue;
+
+    if (key === profileKey(DATA_KEYS.VOCAB, DEFAULT_PROFILE_ID) && Array.isArray(value)) {
+      // Embedded images move to the images store; Blobs are made first, as a transaction cannot wait on them
+      const stored: VocabularyItem[] = [];
+      for (const item of value as VocabularyItem[]) {
+        if (!item?.image?.startsWith('data:')) { stored.push(item); continue; }
+        const imageKey = `${imagePrefixOf(DEFAULT_PROFILE_ID)}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+        writes.push([STORES.IMAGES, imageKey, await dataUrlToBlob(item.image)]);
+        stored.push({ ...item, image: IMAGE_REF_PREFIX + imageKey });
+      }
+      value = stored;
+    }
+    writes.push([STORES.KV, key, value]);
+  }
+
+  await idbPutAll([...writes, [STORES.KV, STORAGE_KEYS.IDB_MIGRATED, new Date().toISOString()]]);
+  legacyKeys.forEach(k => localStorage.removeItem(k));
+};
+
+// Fills the cache with the device-wide keys and the active profile's data; other profiles stay on disk
+const loadCache = async (): Promise<void> => {
+  memoryCache.clear();
+  [...imageKeyToUrl.keys()].forEach(releaseImageUrl);
+  const vocabKey = profileKey(DATA_KEYS.VOCAB);
+  for (const [key, value] of await idbEntries<unknown>(STORES.KV)) {
+    const owner = profileOfKey(key);
+    if (owner !== null && owner !== activeProfileId) continue;
+    memoryCache.set(key, key === vocabKey && Array.isArray(value)
+      ? await hydrateVocabularyImages(value as VocabularyItem[])
+      : value);
+  }
+};
+
+// Moves the active profile's old "phonetic" readings to "jyutping", once, when the profile is loaded
+const upgradeLegacyVocabulary = async (): Promise<void> => {
+  const items = storageService.getVocabulary();
+  if (items.some(item => 'phonetic' in item)) await storageService.saveVocabulary(items.map(upgradeVocabularyItem));
+};
 
 export const storageService = {
-  // --- Generic Helpers ---
-  get: <T>(key: string, defaultValue: T): T => {
+  // --- Initialisation ---
+
+  // Must be awaited once before the app renders: opens IndexedDB, migrates old data and fills the cache.
+  // Rejects when IndexedDB opened but could not be read; the app must not run then, since its writes
+  // would go to a database whose contents it never loaded.
+  init: async (): Promise<void> => {
     try {
-      const item = localStorage.getItem(key);
-      return item ? JSON.parse(item) : defaultValue;
+      await openDb();
     } catch (e) {
-      console.error(`Error reading key ${key}`, e);
-      return defaultValue;
+      console.warn("IndexedDB unavailable, falling back to localStorage", e);
+      useIndexedDb = false;
+      const savedProfileId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+      if (storageService.getProfiles().some(p => p.id === savedProfileId)) activeProfileId = savedProfileId!;
+      await upgradeLegacyVocabulary();
+      return;
+    }
+
+    if (!(await idbGet(STORES.KV, STORAGE_KEYS.IDB_MIGRATED))) {
+      await migrateFromLocalStorage();
     }
+
+    const profiles = await idbGet<LearnerProfile[]>(STORES.KV, STORAGE_KEYS.PROFILES);
+    const savedProfileId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+    activeProfileId = profiles?.some(p => p.id === savedProfileId) ? savedProfileId! : (profiles?.[0]?.id || DEFAULT_PROFILE_ID);
+    await loadCache();
+    await upgradeLegacyVocabulary();
   },
 
-  set: <T>(key: string, value: T): void => {
+  // --- Generic Helpers ---
+  get: <T>(key: string, defaultValue: T): T => {
+    if (!useIndexedDb) {
+      try {
+        const item = localStorage.getItem(key);
+        return item ? JSON.parse(item) : defaultValue;
+      } catch (e) {
+        console.error(`Error reading key ${key}`, e);
+        return defaultValue;
+      }
+    }
+    return memoryCache.has(key) ? memoryCache.get(key) as T : defaultValue;
+  },
+
+  set: async <T>(key: string, value: T): Promise<void> => {
+    if (!useIndexedDb) {
+      try {
+        localStorage.setItem(key, JSON.stringify(value));
+        return;
+      } catch (e: any) {
+        throw toQuotaError(e);
+      }
+    }
+
+    // Update the cache synchronously so back-to-back writes see each other, then persist in order
+    const previous = memoryCache.get(key);
+    memoryCache.set(key, value);
+    const profileId = activeProfileId;
+    const isVocab = key === profileKey(DATA_KEYS.VOCAB, profileId);
+    const write = writeQueue.then(async () => {
+      if (isVocab && Array.isArray(value)) {
+        const { stored, display } = await persistVocabularyImages(value as VocabularyItem[], profileId);
+        await idbPut(STORES.KV, key, stored);
+        if (memoryCache.get(key) === value) memoryCache.set(key, display);
+        return;
+      }
+      await idbPut(STORES.KV, key, value);
+    });
+    writeQueue = write.catch(() => undefined);
+
     try {
-      localStorage.setItem(key, JSON.stringify(value));
+      await write;
     } catch (e: any) {
-      if (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED') {
-        throw new Error("儲存失敗：空間已滿。請刪除部分舊資料或圖片，或減少圖片解析度。");
-      }
-      throw e;
+      if (memoryCache.get(key) === value) memoryCache.set(key, previous);
+      throw toQuotaError(e);
     }
   },
 
-  remove: (key: string): void => {
-    localStorage.removeItem(key);
+  remove: async (key: string): Promise<void> => {
+    if (!useIndexedDb) {
+      localStorage.removeItem(key);
+      return;
+    }
+    memoryCache.delete(key);
+    const write = writeQueue.then(() => idbDelete(STORES.KV, key));
+    writeQueue = write.catch(() => undefined);
+    await write;
   },
 
   // --- Domain Specific Methods ---
 
   // Vocabulary
   getVocabulary: (): VocabularyItem[] => {
-    return storageService.get<VocabularyItem[]>(STORAGE_KEYS.VOCAB, []);
+    return storageService.get<VocabularyItem[]>(profileKey(DATA_KEYS.VOCAB), []);
   },
 
-  saveVocabulary: (items: VocabularyItem[]): void => {
-    storageService.set(STORAGE_KEYS.VOCAB, items);
+  saveVocabulary: async (items: VocabularyItem[]): Promise<void> => {
+    const previous = storageService.getVocabulary();
+    await storageService.set(profileKey(DATA_KEYS.VOCAB), stampChangedItems(previous, items, i => i.word));
+    await trackDeletions('vocabulary', previous, items);
   },
 
-  addVocabularyItem: (item: VocabularyItem): boolean => {
+  addVocabularyItem: async (item: VocabularyItem): Promise<boolean> => {
     const items = storageService.getVocabulary();
     if (items.some(i => i.word === item.word)) return false; // Duplicate
-    storageService.saveVocabulary([item, ...items]);
+    await storageService.saveVocabulary([item, ...items]);
     return true;
   },
 
+  // Appends items whose word is not in the library yet; returns how many were added
+  addVocabularyItems: async (newItems: VocabularyItem[]): Promise<number> => {
+    const items = storageService.getVocabulary();
+    const known = new Set(items.map(i => i.word));
+    const fresh: VocabularyItem[] = [];
+    for (const item of newItems) {
+      if (known.has(item.word)) continue;
+      known.add(item.word);
+      fresh.push(item);
+    }
+    if (fresh.length === 0) return 0;
+    await storageService.saveVocabulary([...fresh, ...items]);
+    return fresh.length;
+  },
+
+  // Review (Spaced Repetition)
+  getDueVocabulary: (now: Date = new Date(), newLimit: number = 20): VocabularyItem[] => {
+    const items = storageService.getVocabulary();
+    const due = items
+      .filter(i => !isNewCard(i) && isDue(i, now))
+      .sort((a, b) => new Date(a.review!.due).getTime() - new Date(b.review!.due).getTime());
+    const fresh = items.filter(isNewCard).slice(0, newLimit);
+    return [...due, ...fresh];
+  },
+
+  getReviewStats: (now: Date = new Date()): { due: number; new: number; total: number } => {
+    const items = storageService.getVocabulary();
+    return {
+      due: items.filter(i => !isNewCard(i) && isDue(i, now)).length,
+      new: items.filter(isNewCard).length,
+      total: items.length
+    };
+  },
+
+  updateReviewState: (word: string, review: ReviewState): Promise<void> => {
+    const items = storageService.getVocabulary();
+    return storageService.saveVocabulary(items.map(i => i.word === word ? { ...i, review } : i));
+  },
+
+  // Pronunciation practice; records the attempt on the card and returns the updated record
+  recordPronunciation: async (word: string, lang: SpeechLang, score: number): Promise<PronunciationRecord | null> => {
+    const items = storageService.getVocabulary();
+    const item = items.find(i => i.word === word);
+    if (!item) return null;
+    const pronunciation: PronunciationRecord = {
+      lastScore: score,
+      bestScore: Math.max(score, item.pronunciation?.bestScore ?? 0),
+      attempts: (item.pronunciation?.attempts ?? 0) + 1,
+      lang,
+      lastPracticed: new Date().toISOString()
+    };
+    await storageService.saveVocabulary(items.map(i => i.word === word ? { ...i, pronunciation } : i));
+    return pronunciation;
+  },
+
   // Writing
   getWritingLogs: (): WritingEntry[] => {
-    return storageService.get<WritingEntry[]>(STORAGE_KEYS.WRITING, []);
+    return storageService.get<WritingEntry[]>(profileKey(DATA_KEYS.WRITING), []);
   },
 
-  saveWritingLogs: (items: WritingEntry[]): void => {
-    storageService.set(STORAGE_KEYS.WRITING, items);
+  saveWritingLogs: async (items: WritingEntry[]): Promise<void> => {
+    const previous = storageService.getWritingLogs();
+    await storageService.set(profileKey(DATA_KEYS.WRITING), stampChangedItems(previous, items, e => e.id));
+    await trackDeletions('writingLogs', previous, items);
   },
 
-  addWritingEntry: (entry: WritingEntry): void => {
+  addWritingEntry: (entry: WritingEntry): Promise<void> => {
     const items = storageService.getWritingLogs();
-    storageService.saveWritingLogs([entry, ...items]);
+    return storageService.saveWritingLogs([entry, ...items]);
   },
 
   // Classical
   getClassicalLogs: (): ClassicalEntry[] => {
-    return storageService.get<ClassicalEntry[]>(STORAGE_KEYS.CLASSICAL, []);
+    return storageService.get<ClassicalEntry[]>(profileKey(DATA_KEYS.CLASSICAL), []);
   },
 
-  saveClassicalLogs: (items: ClassicalEntry[]): void => {
-    storageService.set(STORAGE_KEYS.CLASSICAL, items);
+  saveClassicalLogs: async (items: ClassicalEntry[]): Promise<void> => {
+    const previous = storageService.getClassicalLogs();
+    await storageService.set(profileKey(DATA_KEYS.CLASSICAL), stampChangedItems(previous, items, e => e.id));
+    await trackDeletions('classicalLogs', previous, items);
   },
 
-  addClassicalEntry: (entry: ClassicalEntry): void => {
+  addClassicalEntry: (entry: ClassicalEntry): Promise<void> => {
     const items = storageService.getClassicalLogs();
-    storageService.saveClassicalLogs([entry, ...items]);
+    return storageService.saveClassicalLogs([entry, ...items]);
+  },
+
+  // Conversation transcripts (OralCoach)
+  getTranscripts: (): ChatTranscript[] => {
+    return storageService.get<ChatTranscript[]>(profileKey(DATA_KEYS.TRANSCRIPTS), []);
+  },
+
+  saveTranscripts: (items: ChatTranscript[]): Promise<void> => {
+    return storageService.set(profileKey(DATA_KEYS.TRANSCRIPTS), items);
+  },
+
+  // Inserts a new transcript or replaces the saved one with the same id (moved to the top)
+  upsertTranscript: (transcript: ChatTranscript): Promise<void> => {
+    const items = storageService.getTranscripts().filter(t => t.id !== transcript.id);
+    return storageService.saveTranscripts([{ ...transcript, updatedAt: new Date().toISOString() }, ...items]);
+  },
+
+  // Quiz history (QuizRoom), newest first
+  getQuizAttempts: (): QuizAttempt[] => {
+    return storageService.get<QuizAttempt[]>(profileKey(DATA_KEYS.QUIZ_HISTORY), []);
+  },
+
+  saveQuizAttempts: (items: QuizAttempt[]): Promise<void> => {
+    return storageService.set(profileKey(DATA_KEYS.QUIZ_HISTORY), items);
+  },
+
+  addQuizAttempt: (attempt: QuizAttempt): Promise<void> => {
+    return storageService.saveQuizAttempts([attempt, ...storageService.getQuizAttempts()]);
+  },
+
+  // Offline AI requests (aiQueue)
+  getAiQueue: (): QueuedAiRequest[] => {
+    return storageService.get<QueuedAiRequest[]>(profileKey(DATA_KEYS.AI_QUEUE), []);
+  },
+
+  saveAiQueue: (items: QueuedAiRequest[]): Promise<void> => {
+    return storageService.set(profileKey(DATA_KEYS.AI_QUEUE), items);
+  },
+
+  // Settings
+  getOpenAiConfig: (): OpenAiCompatibleConfig => {
+    return { ...DEFAULT_OPENAI_CONFIG, ...storageService.get<Partial<OpenAiCompatibleConfig>>(STORAGE_KEYS.OPENAI_CONFIG, {}) };
+  },
+
+  saveOpenAiConfig: (config: OpenAiCompatibleConfig): Promise<void> => {
+    return storageService.set(STORAGE_KEYS.OPENAI_CONFIG, config);
+  },
+
+  getDisplaySettings: (): DisplaySettings => {
+    return { ...DEFAULT_DISPLAY_SETTINGS, ...storageService.get<Partial<DisplaySettings>>(STORAGE_KEYS.DISPLAY_SETTINGS, {}) };
+  },
+
+  saveDisplaySettings: (settings: DisplaySettings): Promise<void> => {
+    return storageService.set(STORAGE_KEYS.DISPLAY_SETTINGS, settings);
+  },
+
+  getSpeechSettings: (): SpeechSettings => {
+    const saved = storageService.get<Partial<SpeechSettings>>(STORAGE_KEYS.SPEECH_SETTINGS, {});
+    return { ...DEFAULT_SPEECH_SETTINGS, ...saved, voices: { ...DEFAULT_SPEECH_SETTINGS.voices, ...saved.voices } };
+  },
+
+  saveSpeechSettings: (settings: SpeechSettings): Promise<void> => {
+    return storageService.set(STORAGE_KEYS.SPEECH_SETTINGS, settings);
+  },
+
+  // Cross-device sync (see syncService); null until the profile is set up for syncing
+  getSyncState: (): SyncState | null => {
+    return storageService.get<SyncState | null>(profileKey(DATA_KEYS.SYNC_STATE), null);
+  },
+
+  saveSyncState: (state: SyncState): Promise<void> => {
+    return storageService.set(profileKey(DATA_KEYS.SYNC_STATE), state);
+  },
+
+  // recordId → ISO time of deletion, for deletions not yet pushed to the server
+  getSyncTombstones: (): Record<string, string> => {
+    return storageService.get<Record<string, string>>(profileKey(DATA_KEYS.SYNC_TOMBSTONES), {});
+  },
+
+  saveSyncTombstones: (tombstones: Record<string, string>): Promise<void> => {
+    return storageService.set(profileKey(DATA_KEYS.SYNC_TOMBSTONES), tombstones);
+  },
+
+  // Writes a collection merged with server changes: records keep their own timestamps and
+  // removals are not turned into new tombstones
+  saveSyncedCollection: (collection: SyncCollection, items: unknown[]): Promise<void> => {
+    return storageService.set(profileKey(SYNC_KEYS[collection]), items);
+  },
+
+  // Learner profiles
+  getProfiles: (): LearnerProfile[] => {
+    const profiles = storageService.get<LearnerProfile[]>(STORAGE_KEYS.PROFILES, []);
+    return profiles.length > 0 ? profiles : [DEFAULT_PROFILE];
+  },
+
+  getActiveProfile: (): LearnerProfile => {
+    return storageService.getProfiles().find(p => p.id === activeProfileId) || DEFAULT_PROFILE;
+  },
+
+  createProfile: async (name: string): Promise<LearnerProfile> => {
+    const profile: LearnerProfile = {
+      id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+      name: name.trim(),
+      createdAt: new Date().toISOString()
+    };
+    await storageService.set(STORAGE_KEYS.PROFILES, [...storageService.getProfiles(), profile]);
+    return profile;
+  },
+
+  renameProfile: (id: string, name: string): Promise<void> => {
+    return storageService.set(STORAGE_KEYS.PROFILES, storageService.getProfiles().map(p => p.id === id ? { ...p, name: name.trim() } : p));
+  },
+
+  // Waits for pending writes, then reloads the cache with the other profile's data.
+  // Components read storage when they mount, so the caller should remount the views afterwards.
+  switchProfile: async (id: string): Promise<void> => {
+    if (!storageService.getProfiles().some(p => p.id === id)) throw new Error("找不到此學習者檔案。");
+    await writeQueue;
+    activeProfileId = id;
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    if (useIndexedDb) await loadCache();
+    await upgradeLegacyVocabulary();
+  },
+
+  // Removes a profile with all of its data and images. The active profile cannot be deleted.
+  deleteProfile: async (id: string): Promise<void> => {
+    if (id === activeProfileId) throw new Error("不能刪除正在使用的學習者檔案，請先切換至其他檔案。");
+    const profiles = storageService.getProfiles();
+    if (!profiles.some(p => p.id === id)) return;
+
+    SESSION_DATA_KEYS.forEach(name => sessionStorage.removeItem(profileKey(name, id)));
+    if (!useIndexedDb) {
+      Object.keys(localStorage).filter(k => profileOfKey(k) === id).forEach(k => localStorage.removeItem(k));
+    } else {
+      const write = writeQueue.then(async () => {
+        for (const key of await idbKeys(STORES.KV)) {
+          if (profileOfKey(key) === id) await idbDelete(STORES.KV, key);
+        }
+        for (const key of await idbKeys(STORES.IMAGES)) {
+          if (profileOfImage(key) === id) await idbDelete(STORES.IMAGES, key);
+        }
+      });
+      writeQueue = write.catch(() => undefined);
+      await write;
+    }
+    await storageService.set(STORAGE_KEYS.PROFILES, profiles.filter(p => p.id !== id));
   },
 
   // Session/Cache
   getVocabMode: (): 'topic' | 'import' => {
-    return storageService.get(STORAGE_KEYS.VOCAB_MODE, 'topic');
+    const mode = sessionStorage.getItem(profileKey(DATA_KEYS.VOCAB_MODE));
+    return mode === 'import' ? 'import' : 'topic';
   },
-  
+
   setVocabMode: (mode: 'topic' | 'import') => {
-    sessionStorage.setItem(STORAGE_KEYS.VOCAB_MODE, mode);
+    sessionStorage.setItem(profileKey(DATA_KEYS.VOCAB_MODE), mode);
   },
 
   getVocabCache: (): VocabularyItem[] => {
     try {
-       const item = sessionStorage.getItem(STORAGE_KEYS.VOCAB_CACHE);
+       const item = sessionStorage.getItem(profileKey(DATA_KEYS.VOCAB_CACHE));
        return item ? JSON.parse(item) : [];
     } catch { return []; }
   },
 
   setVocabCache: (items: VocabularyItem[]) => {
     try {
-        sessionStorage.setItem(STORAGE_KEYS.VOCAB_CACHE, JSON.stringify(items));
+        sessionStorage.setItem(profileKey(DATA_KEYS.VOCAB_CACHE), JSON.stringify(items));
     } catch (e) { console.warn("Session cache full"); }
   },
-  
+
   clearVocabCache: () => {
-    sessionStorage.removeItem(STORAGE_KEYS.VOCAB_CACHE);
+    sessionStorage.removeItem(profileKey(DATA_KEYS.VOCAB_CACHE));
   },
 
   // --- Backup & Restore ---
+  // Backups and restores cover the active profile only
+
+  // With a passphrase the file is an encrypted envelope (see backupCrypto) instead of plain JSON.
+  // The text stays in Traditional, as stored, whatever script Settings shows; restoring it must not change the data.
+  createBackup: async (passphrase?: string): Promise<Blob> => {
+    // Backups stay self-contained: image Blobs are embedded back as data URLs
+    const vocabulary: VocabularyItem[] = [];
+    for (const item of storageService.getVocabulary()) {
+      const key = item.image && imageUrlToKey.get(item.image);
+      const blob = key ? await idbGet<Blob>(STORES.IMAGES, key) : undefined;
+      vocabulary.push(blob ? { ...item, image: await blobToDataUrl(blob) } : item);
+    }
 
-  createBackup: (): Blob => {
     const data: BackupData = {
-      version: 1,
+      version: CURRENT_BACKUP_VERSION,
       date: new Date().toISOString(),
-      vocabulary: storageService.getVocabulary(),
+      profileName: storageService.getActiveProfile().name,
+      vocabulary,
       writingLogs: storageService.getWritingLogs(),
-      classicalLogs: storageService.getClassicalLogs()
+      classicalLogs: storageService.getClassicalLogs(),
+      transcripts: storageService.getTranscripts(),
+      quizAttempts: storageService.getQuizAttempts()
     };
     const jsonString = JSON.stringify(data, null, 2);
-    return new Blob([jsonString], { type: "application/json" });
+    const content = passphrase ? JSON.stringify(await encryptBackup(jsonString, passphrase)) : jsonString;
+    return new Blob([content], { type: "application/json" });
   },
 
-  restoreBackup: (jsonData: any): void => {
-    if (!jsonData || typeof jsonData !== 'object') {
-      throw new Error("無效的備份檔案格式");
-    }
+  // Dry run of restoreBackup: migrates the file and reports what would change (expects decrypted data)
+  previewRestore: (jsonData: unknown, options: RestoreOptions): RestorePlan => {
+    if (isEncryptedBackup(jsonData)) throw new Error("此備份已加密，請先輸入密碼。");
+    const local = {
+      vocabulary: storageService.getVocabulary(),
+      writingLogs: storageService.getWritingLogs(),
+      classicalLogs: storageService.getClassicalLogs(),
+      transcripts: storageService.getTranscripts(),
+      quizAttempts: storageService.getQuizAttempts()
+    };
+    return planRestore(local, migrateBackup(jsonData), options);
+  },
 
-    // Check size estimation before attempting to write (Prevent crashes)
-    const payloadSize = JSON.stringify(jsonData).length;
-    // localStorage usually has 5MB limit (~5.2 million chars)
-    if (payloadSize > 5200000) {
-       throw new Error("備份檔案過大 (>5MB)，超出瀏覽器儲存限制。無法還原。建議手動編輯 JSON 檔分批匯入。");
+  restoreBackup: async (jsonData: unknown, options: RestoreOptions = { mode: 'replace', strategy: 'backup' }, passphrase?: string): Promise<RestorePlan> => {
+    if (isEncryptedBackup(jsonData)) {
+      if (!passphrase) throw new Error("此備份已加密，請輸入密碼。");
+      jsonData = await decryptBackup(jsonData, passphrase);
     }
+    const plan = storageService.previewRestore(jsonData, options);
+    const { result } = plan;
 
-    // Transaction-like attempt: try to save all, if fail, define behavior
     // Here we save individually to salvage what we can
     try {
-      if (jsonData.vocabulary && Array.isArray(jsonData.vocabulary)) {
-        storageService.saveVocabulary(jsonData.vocabulary);
-      }
-      if (jsonData.writingLogs && Array.isArray(jsonData.writingLogs)) {
-        storageService.saveWritingLogs(jsonData.writingLogs);
-      }
-      if (jsonData.classicalLogs && Array.isArray(jsonData.classicalLogs)) {
-        storageService.saveClassicalLogs(jsonData.classicalLogs);
-      }
+      // Restored cards keep their own updatedAt, so write them without re-stamping
+      const previousVocabulary = storageService.getVocabulary();
+      await storageService.set(profileKey(DATA_KEYS.VOCAB), result.vocabulary);
+      await trackDeletions('vocabulary', previousVocabulary, result.vocabulary);
+      await storageService.saveWritingLogs(result.writingLogs);
+      await storageService.saveClassicalLogs(result.classicalLogs);
+      await storageService.saveTranscripts(result.transcripts);
+      await storageService.saveQuizAttempts(result.quizAttempts);
+      return plan;
     } catch (e: any) {
       if (e.message.includes("空間已滿")) {
          throw e; // Re-throw our custom error
@@ -162,9 +713,15 @@ export const storageService = {
     }
   },
 
-  clearAllData: (): void => {
-    storageService.remove(STORAGE_KEYS.VOCAB);
-    storageService.remove(STORAGE_KEYS.WRITING);
-    storageService.remove(STORAGE_KEYS.CLASSICAL);
+  // Only wipes this device: sync settings go too, so the deletions are not pushed to the server
+  clearAllData: async (): Promise<void> => {
+    await storageService.remove(profileKey(DATA_KEYS.SYNC_STATE));
+    await storageService.remove(profileKey(DATA_KEYS.SYNC_TOMBSTONES));
+    await storageService.saveVocabulary([]); // Also releases stored images
+    await storageService.remove(profileKey(DATA_KEYS.VOCAB));
+    await storageService.remove(profileKey(DATA_KEYS.WRITING));
+    await storageService.remove(profileKey(DATA_KEYS.CLASSICAL));
+    await storageService.remove(profileKey(DATA_KEYS.TRANSCRIPTS));
+    await storageService.remove(profileKey(DATA_KEYS.QUIZ_HISTORY));
   }
 };
@@ -0,0 +1,53 @@
+// Wire format and conflict rule shared by the browser (syncService) and the sync server
+// (server/syncRoutes.ts). Pure module: no DOM or Node APIs.
+
+export type SyncCollection = 'vocabulary' | 'writingLogs' | 'classicalLogs';
+
+export const SYNC_COLLECTIONS: SyncCollection[] = ['vocabulary', 'writingLogs', 'classicalLogs'];
+
+export interface SyncRecord {
+  collection: SyncCollection;
+  key: string; // Word for vocabulary, id for logs
+  updatedAt: string; // ISO timestamp of the last change, or of the deletion for tombstones
+  deleted: boolean; // Tombstone: the record was deleted at updatedAt
+  data?: unknown; // The record itself; absent for tombstones
+}
+
+export interface SyncRequest {
+  space: string; // Which learner's data, chosen on the first sync of a profile
+  since: number; // Server cursor from the previous sync; 0 for a full download
+  changes: SyncRecord[];
+}
+
+export interface SyncResponse {
+  cursor: number;
+  changes: SyncRecord[]; // Records changed on the server since `since`, excluding the ones just accepted
+}
+
+// Versions are compared as strings, which only orders them correctly in this exact toISOString() format
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+export const isIsoTimestamp = (value: unknown): value is string => typeof value === 'string' && ISO_TIMESTAMP.test(value);
+
+// Time of a record never changed since versions were tracked; older than any real change
+export const UNKNOWN_VERSION_TIME = new Date(0).toISOString();
+
+export const recordId = (record: Pick<SyncRecord, 'collection' | 'key'>) => `${record.collection}:${record.key}`;
+
+// Total order over versions of the same record, so every device and the server pick the same winner:
+// the later timestamp wins; on a tie a deletion beats an edit; then the larger JSON content wins.
+// Records stored before timestamps were validated may hold a locale date; they count as oldest.
+// Returns > 0 when a should replace b, 0 when they are equivalent.
+export const compareVersions = (a: SyncRecord, b: SyncRecord): number => {
+  const timeA = isIsoTimestamp(a.updatedAt) ? a.updatedAt : '';
+  const timeB = isIsoTimestamp(b.updatedAt) ? b.updatedAt : '';
+  if (timeA !== timeB) return timeA > timeB ? 1 : -1;
+  if (a.deleted !== b.deleted) return a.deleted ? 1 : -1;
+  const contentA = JSON.stringify(a.data ?? null);
+  const contentB = JSON.stringify(b.data ?? null);
+  return contentA === contentB ? 0 : contentA > contentB ? 1 : -1;
+};
+
+export const isValidSyncRecord = (value: any): value is SyncRecord =>
+  !!value && SYNC_COLLECTIONS.includes(value.collection) && typeof value.key === 'string' && value.key !== ''
+  && isIsoTimestamp(value.updatedAt) && typeof value.deleted === 'boolean';
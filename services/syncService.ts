@@ -0,0 +1,176 @@
+import { SyncState } from '../types';
+import { storageService } from './storageService';
+import { BACKUP_COLLECTIONS, upgradeVocabularyItem } from './backupService';
+import { SYNC_COLLECTIONS, SyncCollection, SyncRecord, SyncRequest, SyncResponse, UNKNOWN_VERSION_TIME, compareVersions, isIsoTimestamp, recordId } from './syncProtocol';
+
+// Incremental sync of vocabulary, writing and classical logs with the bundled server (server/syncRoutes.ts).
+// Each sync pushes the records whose version the server does not hold yet plus pending deletions, and
+// pulls what other devices changed since the last cursor. Both sides settle conflicts with
+// compareVersions, so every device ends up with the same data. Card images stay on the device.
+
+export interface SyncResult {
+  pushed: number; // Local changes the server accepted
+  pulled: number; // Server changes written to this device
+}
+
+const getItems = (collection: SyncCollection): any[] => {
+  switch (collection) {
+    case 'vocabulary': return storageService.getVocabulary();
+    case 'writingLogs': return storageService.getWritingLogs();
+    case 'classicalLogs': return storageService.getClassicalLogs();
+  }
+};
+
+const toRecord = (collection: SyncCollection, item: any): SyncRecord => {
+  const spec = BACKUP_COLLECTIONS[collection] as { keyOf: (item: any) => string, timeOf: (item: any) => string };
+  const time = spec.timeOf(item);
+  return {
+    collection,
+    key: spec.keyOf(item),
+    updatedAt: isIsoTimestamp(time) ? time : UNKNOWN_VERSION_TIME, // The server only accepts ISO times
+    deleted: false,
+    data: collection === 'vocabulary' ? { ...item, image: undefined } : item
+  };
+};
+
+// Inverse of recordId; keys may themselves contain ':'
+const parseRecordId = (id: string): Pick<SyncRecord, 'collection' | 'key'> | null => {
+  const separator = id.indexOf(':');
+  const collection = id.slice(0, separator) as SyncCollection;
+  return separator > 0 && SYNC_COLLECTIONS.includes(collection) ? { collection, key: id.slice(separator + 1) } : null;
+};
+
+const postSync = async (body: SyncRequest): Promise<SyncResponse> => {
+  let response: Response;
+  try {
+    response = await fetch('/api/sync', {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  } catch {
+    throw new Error('無法連接同步伺服器，請檢查網絡連線。');
+  }
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error || `同步失敗 (${response.status})`);
+  return result as SyncResponse;
+};
+
+// Writes the server's winning versions into one collection; returns how many records changed
+const applyRemoteChanges = async (collection: SyncCollection, incoming: SyncRecord[], tombstones: Record<string, string>): Promise<number> => {
+  const keyOf = (item: any) => toRecord(collection, item).key;
+  const items = getItems(collection);
+  const localByKey = new Map(items.map(item => [keyOf(item), item]));
+  const replaced = new Map<string, any | null>(); // key → new item, or null when deleted
+  const added: any[] = [];
+
+  for (const remote of incoming) {
+    const id = recordId(remote);
+    const existing = localByKey.get(remote.key);
+    const local: SyncRecord | null = existing ? toRecord(collection, existing)
+      : tombstones[id] ? { collection, key: remote.key, updatedAt: tombstones[id], deleted: true } : null;
+    // The local version wins when it changed again while the request was in flight; it goes out next sync
+    if (local && compareVersions(remote, local) <= 0) continue;
+    delete tombstones[id];
+
+    if (remote.deleted) {
+      if (existing) replaced.set(remote.key, null);
+      continue;
+    }
+    // Keep this device's image for the card, since images are never synced; cards from older app versions are upgraded
+    const item = collection !== 'vocabulary' ? remote.data
+      : { ...upgradeVocabularyItem(remote.data), ...(existing?.image ? { image: existing.image } : {}) };
+    if (existing) replaced.set(remote.key, item);
+    else added.push(item);
+  }
+  if (replaced.size === 0 && added.length === 0) return 0;
+
+  const merged = [...added, ...items.map(item => replaced.has(keyOf(item)) ? replaced.get(keyOf(item)) : item).filter(item => item !== null)];
+  // Logs are listed newest first
+  if (collection !== 'vocabulary') {
+    const timeOf = (item: any) => toRecord(collection, item).updatedAt;
+    merged.sort((a, b) => timeOf(a) === timeOf(b) ? 0 : timeOf(a) < timeOf(b) ? 1 : -1);
+  }
+  await storageService.saveSyncedCollection(collection, merged);
+  return replaced.size + added.length;
+};
+
+let runningSync: Promise<SyncResult> | null = null;
+
+const runSync = async (): Promise<SyncResult> => {
+  const profileId = storageService.getActiveProfile().id;
+  const state = syncService.getState();
+  const pendingTombstones = storageService.getSyncTombstones();
+
+  const changes: SyncRecord[] = [];
+  for (const collection of SYNC_COLLECTIONS) {
+    for (const item of getItems(collection)) {
+      const record = toRecord(collection, item);
+      if (state.versions[recordId(record)] !== record.updatedAt) changes.push(record);
+    }
+  }
+  for (const [id, deletedAt] of Object.entries(pendingTombstones)) {
+    const target = parseRecordId(id);
+    if (target) changes.push({ ...target, updatedAt: deletedAt, deleted: true });
+  }
+
+  const response = await postSync({ space: state.space, since: state.cursor, changes });
+  if (storageService.getActiveProfile().id !== profileId || syncService.getState().space !== state.space) {
+    throw new Error('同步期間設定已更改，請重新同步。');
+  }
+
+  // Pushed records the server did not send back were accepted as they are
+  const versions = { ...state.versions };
+  const returned = new Set(response.changes.map(recordId));
+  const accepted = changes.filter(change => !returned.has(recordId(change)));
+  accepted.forEach(change => { versions[recordId(change)] = change.updatedAt; });
+  response.changes.forEach(change => { versions[recordId(change)] = change.updatedAt; });
+
+  // Pushed deletions are now on the server, or lost to a newer edit that is applied below
+  const tombstones = { ...storageService.getSyncTombstones() };
+  for (const [id, deletedAt] of Object.entries(pendingTombstones)) {
+    if (tombstones[id] === deletedAt) delete tombstones[id];
+  }
+
+  let pulled = 0;
+  for (const collection of SYNC_COLLECTIONS) {
+    const incoming = response.changes.filter(change => change.collection === collection);
+    if (incoming.length > 0) pulled += await applyRemoteChanges(collection, incoming, tombstones);
+  }
+
+  await storageService.saveSyncTombstones(tombstones);
+  // Re-read so a settings change made during the request (e.g. auto sync) is kept
+  await storageService.saveSyncState({ ...syncService.getState(), cursor: response.cursor, lastSyncedAt: new Date().toISOString(), versions });
+  return { pushed: accepted.length, pulled };
+};
+
+export const syncService = {
+  // Saved settings of the active profile, or the defaults before its first sync
+  getState: (): SyncState => {
+    return storageService.getSyncState() || {
+      space: storageService.getActiveProfile().name,
+      autoSync: false,
+      cursor: 0,
+      lastSyncedAt: '',
+      versions: {}
+    };
+  },
+
+  // Pointing the profile at another data set starts over with a full download and upload
+  setSpace: async (space: string): Promise<void> => {
+    const name = space.trim();
+    if (!name) throw new Error('請輸入同步名稱。');
+    await storageService.saveSyncState({ ...syncService.getState(), space: name, cursor: 0, lastSyncedAt: '', versions: {} });
+  },
+
+  setAutoSync: (autoSync: boolean): Promise<void> => {
+    return storageService.saveSyncState({ ...syncService.getState(), autoSync });
+  },
+
+  // Calls made while a sync is running share its result
+  sync: (): Promise<SyncResult> => {
+    if (!runningSync) runningSync = runSync().finally(() => { runningSync = null; });
+    return runningSync;
+  }
+};
@@ -0,0 +1,9 @@
+/** @type {import('tailwindcss').Config} */
+// Replaces the Tailwind Play CDN so styles are built into the bundle and work offline
+export default {
+  content: ['./index.html', './App.tsx', './components/**/*.tsx', './services/**/*.ts'],
+  theme: {
+    extend: {}
+  },
+  plugins: []
+};
@@ -6,14 +6,100 @@ export enum AppView {
   SPEAKING = 'SPEAKING',
   LIBRARY = 'LIBRARY',
   QUIZ = 'QUIZ',
-  CLASSICAL = 'CLASSICAL' // New View
+  CLASSICAL = 'CLASSICAL', // New View
+  REVIEW = 'REVIEW' // Spaced-repetition review
 }
 
-export type AiProvider = 'gemini' | 'deepseek';
+export type AiProvider = 'gemini' | 'deepseek' | 'openai';
+
+export const PROVIDER_LABELS: Record<AiProvider, string> = {
+  gemini: 'Gemini AI',
+  deepseek: 'DeepSeek AI',
+  openai: '自訂模型' // OpenAI-compatible server (Ollama, llama.cpp, vLLM...)
+};
+
+// Part of the app an AI call came from; the AI proxy bills usage to it (X-MemoraLink-Feature header)
+export type AiFeature = 'vocabulary' | 'writing' | 'classical' | 'chat' | 'quiz' | 'other';
+
+export const AI_FEATURE_LABELS: Record<AiFeature, string> = {
+  vocabulary: '生成詞彙',
+  writing: '寫作批改',
+  classical: '文言文',
+  chat: '口語對話',
+  quiz: '情境測驗',
+  other: '其他' // Calls without a known feature, e.g. logged before features were tracked
+};
+
+// Connection details for the generic OpenAI-compatible provider
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string; // e.g. qwen2.5:7b
+  apiKey: string; // Optional for most local servers
+  jsonMode: boolean; // Send response_format: json_object (not every server supports it)
+}
+
+// How the Jyutping reading is shown; cards always store Jyutping
+export type PhoneticStyle = 'jyutping' | 'yale';
+
+// Script for displaying cards and exports; stored content stays Traditional
+export type ChineseScript = 'traditional' | 'simplified';
+
+// Device-wide display preferences (Settings)
+export interface DisplaySettings {
+  phoneticStyle: PhoneticStyle;
+  script: ChineseScript;
+}
+
+// Text-to-speech language: Cantonese or Mandarin
+export type SpeechLang = 'zh-HK' | 'zh-CN';
+
+// Device-wide read-aloud preferences (Settings); voices are SpeechSynthesisVoice.voiceURI, '' = pick automatically
+export interface SpeechSettings {
+  voices: Record<SpeechLang, string>;
+  rate: number; // 0.5-1.5, 1 = normal
+  pitch: number; // 0.5-1.5, 1 = normal
+}
+
+// A learner sharing the device; each profile has its own library, logs and history
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// Per-profile cross-device sync settings and progress (see syncService)
+export interface SyncState {
+  space: string; // Name of the data set on the server; devices using the same name share data
+  autoSync: boolean; // Sync when the app opens and after switching to this profile
+  cursor: number; // Server sequence number reached by the last sync
+  lastSyncedAt: string; // ISO, '' before the first sync
+  versions: Record<string, string>; // recordId → updatedAt the server is known to hold
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'; // 重來/困難/良好/容易
+
+export interface ReviewState {
+  ease: number; // 難易係數 (SM-2 ease factor, min 1.3)
+  interval: number; // 複習間隔 (日)
+  due: string; // 下次複習時間 (ISO)
+  lapses: number; // 遺忘次數
+  reps: number; // 連續答對次數
+  lastReviewed?: string;
+}
+
+// Read-aloud practice of a card's example sentence (PronunciationPractice)
+export interface PronunciationRecord {
+  lastScore: number; // Character accuracy 0-100 of the latest attempt
+  bestScore: number;
+  attempts: number;
+  lang: SpeechLang; // Of the latest attempt
+  lastPracticed: string; // ISO
+}
 
 export interface VocabularyItem {
   word: string; // 詞彙/成語
-  phonetic?: string; // 注音 或 拼音
+  jyutping?: string; // 粵拼, normalised (see services/jyutping.ts)
+  pinyin?: string; // 漢語拼音 with tone marks
   definition: string; // 釋義
   chineseTranslation: string; // Used as "English Meaning" or "Modern Explanation" in this context
   exampleSentence: string; // 例句
@@ -21,6 +107,40 @@ export interface VocabularyItem {
   context: string; // 語境
   tags?: string[]; 
   image?: string; // New: Base64 image string for visual memory
+  review?: ReviewState; // New: Spaced-repetition schedule (undefined = never reviewed)
+  pronunciation?: PronunciationRecord; // Undefined = never practised
+  updatedAt?: string; // ISO, stamped by storageService whenever the card changes
+}
+
+// AI result of analyzeWriting
+export interface WritingAnalysis {
+  correction: string;
+  explanation: string;
+  improvedVersion: string;
+  keyVocabulary: VocabularyItem[];
+  missingFields: string[]; // Labels of fields the AI still omitted after one re-ask (empty = complete)
+}
+
+// AI result of analyzeClassicalChinese
+export interface ClassicalAnalysis {
+  translation: string;
+  origin: string;
+  usage: string;
+  vocabulary: VocabularyItem[];
+  missingFields: string[];
+}
+
+// An analysis requested while offline, run by aiQueue once the connection returns
+export interface QueuedAiRequest {
+  id: string;
+  kind: 'writing' | 'classical';
+  provider: AiProvider;
+  text: string;
+  context?: string; // Writing only
+  createdAt: string; // ISO
+  status: 'pending' | 'running' | 'done' | 'failed';
+  error?: string; // Failed only: user-facing reason
+  result?: WritingAnalysis | ClassicalAnalysis; // Done only, matching kind
 }
 
 export interface WritingEntry {
@@ -30,7 +150,8 @@ export interface WritingEntry {
   improvedVersion: string;
   explanation: string;
   context: string;
-  date: string;
+  date: string; // Display only, in the device's locale
+  updatedAt?: string; // ISO, stamped by storageService whenever the entry changes
 }
 
 export interface ClassicalEntry {
@@ -39,7 +160,61 @@ export interface ClassicalEntry {
   translation: string; // 白話文
   origin: string; // 出處
   usage: string; // 應用方式
-  date: string;
+  date: string; // Display only, in the device's locale
+  updatedAt?: string; // ISO, stamped by storageService whenever the entry changes
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Saved OralCoach conversation
+export interface ChatTranscript {
+  id: string;
+  scenarioId: string;
+  scenarioTitle: string;
+  systemPrompt: string; // Replayed into createChatSession when the session is resumed
+  provider: AiProvider; // Provider of the most recent reply
+  date: string; // ISO, when the conversation started
+  updatedAt?: string; // ISO, last saved turn
+  messages: ChatMessage[];
+}
+
+// AI result of gradeQuizAnswer: writing feedback plus 0-100 scores
+export interface QuizFeedback extends WritingAnalysis {
+  score: number;
+  wordScores: Record<string, number>; // How well each required word was used
+}
+
+// Local question types that need no AI call (QuizRoom offline practice)
+export type OfflineQuizType = 'definition' | 'jyutping' | 'reverse' | 'cloze';
+
+// One QuizRoom round, kept for history and mastery stats
+export interface QuizAttempt {
+  id: string;
+  date: string; // ISO
+  mode?: OfflineQuizType | 'mixed'; // Absent for AI scenario rounds
+  words: string[];
+  scenario: string; // Offline rounds store a short description of the round
+  answer: string;
+  feedback?: QuizFeedback; // AI scenario rounds only
+  wordScores?: Record<string, number>; // Offline rounds: 100 = answered correctly, 0 = wrong
+  score: number;
+  provider?: AiProvider; // Absent for offline rounds
+}
+
+export type MasteryLevel = 'new' | 'weak' | 'learning' | 'mastered';
+
+// Per-word roll-up of quiz attempts
+export interface WordMastery {
+  word: string;
+  attempts: number;
+  score: number; // Recency-weighted average, 0-100
+  lastScore: number;
+  lastAttempted: string; // ISO
+  level: MasteryLevel;
 }
 
 export const TOPICS = [
@@ -1,23 +1,46 @@
-
-import { defineConfig, loadEnv } from 'vite';
+import { readFileSync, readdirSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Paths of the files under dir, relative to it and with / separators (readdirSync's recursive option needs Node 18.17)
+const listFiles = (dir: string, prefix = ''): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`) : entry.isFile() ? [`${prefix}${entry.name}`] : []);
+
+// Emits the service worker (pwa/sw.js) as sw.js with the list of files to precache, so the installed
+// app opens offline. Every browser that supports service workers reads woff2, so .woff files are skipped.
+const pwaPlugin = (): Plugin => ({
+  name: 'memoralink-pwa',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const files = [...new Set(['index.html', ...Object.keys(bundle), ...listFiles('public')])]
+      .filter(file => !file.endsWith('.map') && !file.endsWith('.woff'))
+      .sort();
+    const buildId = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = readFileSync('pwa/sw.js', 'utf8')
+      .replace('__PRECACHE__', JSON.stringify(files))
+      .replace('__BUILD_ID__', JSON.stringify(buildId));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, (process as any).cwd(), '');
   return {
-    plugins: [react()],
+    plugins: [react(), pwaPlugin()],
     base: './',
     server: {
       host: true, // Exposes the app to your local network (0.0.0.0)
       port: 3000, // specific port number
       strictPort: false, // if 3000 is taken, it will try 3001
       open: true, // automatically open the browser
+      proxy: {
+        // Auth and AI proxy calls go to the Node server (npm run dev:server)
+        '/api': env.API_SERVER_URL || 'http://localhost:8787',
+      },
     },
-    define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
-      'process.env.DEEPSEEK_API_KEY': JSON.stringify(env.DEEPSEEK_API_KEY),
-      'process.env.APP_PASSWORD': JSON.stringify(env.APP_PASSWORD),
-      'process.env.APP_PASSWORD_HINT': JSON.stringify(env.APP_PASSWORD_HINT),
-    }
   };
 });